@@ -0,0 +1,175 @@
+/**
+ * Service worker of the installable app. It keeps the app shell and every bundle of the build
+ * (including the conversion worker and the lazily loaded MP3 encoder) so the converter opens and works
+ * offline, and it receives files shared to the app through the Web Share Target API.
+ *
+ * It is served from `public/` at the site root so its scope covers the whole app; `npm run build`
+ * fills in `PRECACHE_URLS`. `SHARED_FILES_CACHE` and `SHARE_TARGET_PATH` must match
+ * `src/app/incoming-files.service.ts`.
+ */
+
+/** Bump to drop every cached bundle, e.g. after changing how this worker caches. */
+const VERSION = 'v1';
+const SHELL_CACHE = `shell-${VERSION}`;
+const ASSET_CACHE = `assets-${VERSION}`;
+const SHARED_FILES_CACHE = 'shared-files';
+const SHARE_TARGET_PATH = '/share-target';
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/favicon.ico', '/icons/icon-192.png', '/icons/icon-512.png'];
+/** Every script and stylesheet of the build, written in by `scripts/precache-bundles.mjs`. */
+const PRECACHE_URLS = [];
+/** Build output with a content hash in its name never changes, so it is served from the cache first. */
+const HASHED_ASSET = /-[A-Z0-9]{8}\.(?:js|css)$/;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const shell = await caches.open(SHELL_CACHE);
+      await shell.addAll(SHELL_URLS);
+      await cacheUrls(await currentBundles());
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const current = [SHELL_CACHE, ASSET_CACHE, SHARED_FILES_CACHE];
+      const names = await caches.keys();
+      await Promise.all(names.filter((name) => !current.includes(name)).map((name) => caches.delete(name)));
+      await pruneAssets();
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) {
+    return;
+  }
+  if (request.method === 'POST' && url.pathname === SHARE_TARGET_PATH) {
+    event.respondWith(receiveSharedFiles(request));
+    return;
+  }
+  // The conversion and remote media APIs only make sense online and stream large bodies.
+  if (request.method !== 'GET' || url.pathname.startsWith('/api/')) {
+    return;
+  }
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (HASHED_ASSET.test(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+/** `PRECACHE_URLS`, plus the bundles the cached shell's HTML names for a plain `ng build` without the list. */
+async function currentBundles() {
+  const shell = await caches.match('/', { cacheName: SHELL_CACHE });
+  const html = shell ? await shell.text() : '';
+  const bundles = [...html.matchAll(/(?:src|href)="([^"]+\.(?:js|css))"/g)].map((match) => match[1]);
+  return [...PRECACHE_URLS, ...bundles];
+}
+
+/**
+ * Hashed bundles get new names with every deployment, so the asset cache would keep growing. Once the
+ * new worker takes over, everything the current build does not list is dropped.
+ */
+async function pruneAssets() {
+  const keep = new Set((await currentBundles()).map((value) => new URL(value, self.location.origin).href));
+  const cache = await caches.open(ASSET_CACHE);
+  const requests = await cache.keys();
+  await Promise.all(requests.filter((request) => !keep.has(request.url)).map((request) => cache.delete(request)));
+}
+
+async function cacheUrls(urls) {
+  const cache = await caches.open(ASSET_CACHE);
+  await Promise.all(
+    urls.map(async (value) => {
+      const url = new URL(value, self.location.origin);
+      if (url.origin !== self.location.origin || (await cache.match(url))) {
+        return;
+      }
+      try {
+        await cache.add(url);
+      } catch {
+        // A bundle from an older deployment may be gone; it will not be requested again either.
+      }
+    })
+  );
+}
+
+/** Pages come from the network while online; offline, every route falls back to the cached shell. */
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok && new URL(request.url).pathname === '/') {
+      const shell = await caches.open(SHELL_CACHE);
+      await shell.put('/', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = (await caches.match(request)) ?? (await caches.match('/'));
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(ASSET_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function staleWhileRevalidate(request) {
+  const cached = await caches.match(request);
+  const refresh = fetch(request).then(async (response) => {
+    if (response.ok) {
+      const cache = await caches.open(SHELL_URLS.includes(new URL(request.url).pathname) ? SHELL_CACHE : ASSET_CACHE);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  });
+  if (cached) {
+    refresh.catch(() => undefined);
+    return cached;
+  }
+  return refresh;
+}
+
+/**
+ * Keeps the shared files in a cache of their own and opens the converter, which picks them up from
+ * there. The worker may be stopped between the two, so the files cannot simply wait in memory.
+ */
+async function receiveSharedFiles(request) {
+  const form = await request.formData();
+  const files = form.getAll('media').filter((value) => value instanceof File);
+  const cache = await caches.open(SHARED_FILES_CACHE);
+  const batch = Date.now();
+  await Promise.all(
+    files.map((file, index) =>
+      cache.put(
+        `/shared-files/${batch}-${index}`,
+        new Response(file, {
+          headers: {
+            'Content-Type': file.type || 'application/octet-stream',
+            'X-File-Name': encodeURIComponent(file.name)
+          }
+        })
+      )
+    )
+  );
+  return Response.redirect('/?shared=1', 303);
+}
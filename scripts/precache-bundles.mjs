@@ -0,0 +1,26 @@
+/**
+ * Runs after `ng build`: writes every script and stylesheet of the browser build into the built
+ * service worker, which caches them at install. That includes what the page only loads on demand, such
+ * as the conversion worker and the MP3 encoder, and changes `sw.js` with every build so browsers
+ * install the new worker.
+ */
+import { readFile, readdir, writeFile } from 'node:fs/promises';
+import { join, sep } from 'node:path';
+
+const BROWSER_DIR = 'dist/audio-conventor/browser';
+const SERVICE_WORKER = 'sw.js';
+const PLACEHOLDER = 'const PRECACHE_URLS = [];';
+
+const files = await readdir(BROWSER_DIR, { recursive: true });
+const urls = files
+  .filter((file) => /\.(?:js|css)$/.test(file) && file !== SERVICE_WORKER)
+  .map((file) => `/${file.split(sep).join('/')}`)
+  .sort();
+
+const path = join(BROWSER_DIR, SERVICE_WORKER);
+const source = await readFile(path, 'utf8');
+if (!source.includes(PLACEHOLDER)) {
+  throw new Error(`${path} has no "${PLACEHOLDER}" line to fill in.`);
+}
+await writeFile(path, source.replace(PLACEHOLDER, `const PRECACHE_URLS = ${JSON.stringify(urls)};`));
+console.log(`Precaching ${urls.length} bundles in ${path}.`);
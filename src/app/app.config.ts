@@ -1,5 +1,7 @@
 import { APP_INITIALIZER, ApplicationConfig, provideZoneChangeDetection } from '@angular/core';
+import { provideRouter, withComponentInputBinding } from '@angular/router';
 import { canEncodeAudio } from 'mediabunny';
+import { routes } from './app.routes';
 
 const initializeMp3Encoder = () =>
   async () => {
@@ -19,6 +21,7 @@ const initializeMp3Encoder = () =>
 export const appConfig: ApplicationConfig = {
   providers: [
     provideZoneChangeDetection({ eventCoalescing: true }),
+    provideRouter(routes, withComponentInputBinding()),
     {
       provide: APP_INITIALIZER,
       useFactory: initializeMp3Encoder,
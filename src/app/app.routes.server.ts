@@ -1,6 +1,12 @@
 import { RenderMode, ServerRoute } from '@angular/ssr';
+import { CONVERSION_PAGES } from './site-pages';
 
 export const serverRoutes: ServerRoute[] = [
+  {
+    path: 'convert/:conversion',
+    renderMode: RenderMode.Prerender,
+    getPrerenderParams: async () => CONVERSION_PAGES.map(({ slug }) => ({ conversion: slug }))
+  },
   {
     path: '**',
     renderMode: RenderMode.Prerender
@@ -1,3 +1,21 @@
-import { Routes } from '@angular/router';
+import { CanMatchFn, Routes } from '@angular/router';
+import { ConversionPageComponent } from './components/conversion-page/conversion-page.component';
+import { HistoryPageComponent } from './components/history-page/history-page.component';
+import { HomePageComponent } from './components/home-page/home-page.component';
+import { SettingsPageComponent } from './components/settings-page/settings-page.component';
+import { findConversionPage } from './site-pages';
 
-export const routes: Routes = [];
+/** Unknown conversions fall through to the redirect instead of rendering an empty page. */
+const isKnownConversion: CanMatchFn = (_route, segments) => findConversionPage(segments[1]?.path) !== null;
+
+export const routes: Routes = [
+  { path: '', component: HomePageComponent },
+  {
+    path: 'convert/:conversion',
+    component: ConversionPageComponent,
+    canMatch: [isKnownConversion]
+  },
+  { path: 'history', component: HistoryPageComponent },
+  { path: 'settings', component: SettingsPageComponent },
+  { path: '**', redirectTo: '' }
+];
@@ -0,0 +1,245 @@
+import {
+  LinearResampler,
+  LoudnessMeter,
+  PeakLimiter,
+  PeakMeter,
+  SilenceDetector,
+  SilenceFinder,
+  applyFades,
+  dbToGain,
+  gainToDb,
+  mixChannels
+} from './audio-processing';
+
+function sine(seconds: number, sampleRate: number, frequency: number, amplitude: number): Float32Array {
+  return Float32Array.from({ length: Math.round(seconds * sampleRate) }, (_, frame) =>
+    amplitude * Math.sin((2 * Math.PI * frequency * frame) / sampleRate)
+  );
+}
+
+function concat(...planes: Float32Array[]): Float32Array {
+  const result = new Float32Array(planes.reduce((total, plane) => total + plane.length, 0));
+  let offset = 0;
+  for (const plane of planes) {
+    result.set(plane, offset);
+    offset += plane.length;
+  }
+  return result;
+}
+
+describe('audio processing', () => {
+  it('converts between decibels and linear gain', () => {
+    expect(dbToGain(-6)).toBeCloseTo(0.501, 3);
+    expect(gainToDb(0.5)).toBeCloseTo(-6.02, 2);
+    expect(gainToDb(0)).toBe(-Infinity);
+  });
+
+  describe('LoudnessMeter', () => {
+    it('reads a 1 kHz stereo tone at its level in dBFS, as BS.1770 is calibrated', () => {
+      const meter = new LoudnessMeter(48_000, 2);
+      const tone = sine(5, 48_000, 1000, dbToGain(-23));
+
+      meter.push([tone, tone]);
+
+      expect(meter.integratedLoudness()).toBeCloseTo(-23, 1);
+    });
+
+    it('gives the same reading however the audio is chunked', () => {
+      const whole = new LoudnessMeter(44_100, 1);
+      const chunked = new LoudnessMeter(44_100, 1);
+      const tone = sine(3, 44_100, 440, 0.3);
+
+      whole.push([tone]);
+      for (let offset = 0; offset < tone.length; offset += 1000) {
+        chunked.push([tone.subarray(offset, offset + 1000)]);
+      }
+
+      expect(chunked.integratedLoudness()).toBeCloseTo(whole.integratedLoudness()!, 6);
+    });
+
+    it('reports silence as null', () => {
+      const meter = new LoudnessMeter(48_000, 2);
+      const silence = new Float32Array(48_000 * 2);
+
+      meter.push([silence, silence]);
+
+      expect(meter.integratedLoudness()).toBeNull();
+    });
+  });
+
+  describe('PeakMeter and PeakLimiter', () => {
+    it('reports the highest sample across channels', () => {
+      const meter = new PeakMeter();
+
+      meter.push([Float32Array.of(0.1, -0.5), Float32Array.of(0.25, 0)]);
+
+      expect(meter.peakDb()).toBeCloseTo(-6.02, 2);
+    });
+
+    it('keeps every sample at or below the ceiling', () => {
+      const limiter = new PeakLimiter(48_000, -1);
+      const left = sine(1, 48_000, 220, 1.5);
+      const right = sine(1, 48_000, 330, 0.2);
+
+      limiter.process([left, right]);
+
+      const meter = new PeakMeter();
+      meter.push([left, right]);
+      expect(meter.peakDb()).toBeLessThanOrEqual(-1 + 1e-4);
+    });
+
+    it('leaves audio under the ceiling untouched', () => {
+      const limiter = new PeakLimiter(48_000, -1);
+      const tone = sine(0.1, 48_000, 440, 0.5);
+      const original = Float32Array.from(tone);
+
+      limiter.process([tone]);
+
+      expect(tone).toEqual(original);
+    });
+  });
+
+  describe('SilenceDetector', () => {
+    it('finds the loud section across chunks', () => {
+      const detector = new SilenceDetector(-50);
+      const rate = 1000;
+
+      detector.push([concat(new Float32Array(500), sine(0.5, rate, 50, 0.5))], 0, rate);
+      detector.push([concat(sine(0.25, rate, 50, 0.5), new Float32Array(750))], 1, rate);
+
+      const range = detector.loudRange()!;
+      expect(range.start).toBeCloseTo(0.5, 2);
+      expect(range.end).toBeCloseTo(1.25, 2);
+    });
+
+    it('reports null when nothing crosses the threshold', () => {
+      const detector = new SilenceDetector(-50);
+
+      detector.push([new Float32Array(1000)], 0, 1000);
+
+      expect(detector.loudRange()).toBeNull();
+    });
+  });
+
+  describe('applyFades', () => {
+    it('ramps in from silence and out to silence', () => {
+      const plane = new Float32Array(1000).fill(1);
+
+      applyFades([plane], 0, 1000, 1, 0.1, 0.2);
+
+      expect(plane[0]).toBe(0);
+      expect(plane[50]).toBeCloseTo(0.5, 5);
+      expect(plane[500]).toBe(1);
+      expect(plane[900]).toBeCloseTo(0.5, 5);
+      expect(plane[999]).toBeCloseTo(0.005, 5);
+    });
+
+    it('places the fade-out by the chunk start time', () => {
+      const plane = new Float32Array(100).fill(1);
+
+      applyFades([plane], 9.9, 1000, 10, 0, 0.2);
+
+      expect(plane[0]).toBeCloseTo(0.5, 5);
+    });
+  });
+
+  describe('mixChannels', () => {
+    it('averages channels into mono', () => {
+      const [mono] = mixChannels([Float32Array.of(1, 0), Float32Array.of(0, -1)], 1);
+
+      expect(Array.from(mono)).toEqual([0.5, -0.5]);
+    });
+
+    it('folds 5.1 into stereo with centre and surrounds at -3 dB and without the LFE', () => {
+      const channel = (value: number) => Float32Array.of(value);
+
+      const [left, right] = mixChannels([channel(0.1), channel(0.2), channel(0.4), channel(1), channel(0.2), channel(0)], 2);
+
+      expect(left[0]).toBeCloseTo(0.1 + 0.6 * Math.SQRT1_2, 6);
+      expect(right[0]).toBeCloseTo(0.2 + 0.4 * Math.SQRT1_2, 6);
+    });
+
+    it('copies mono into every output channel', () => {
+      const mixed = mixChannels([Float32Array.of(0.25)], 2);
+
+      expect(mixed.map((plane) => plane[0])).toEqual([0.25, 0.25]);
+      expect(mixed[0]).not.toBe(mixed[1]);
+    });
+  });
+
+  describe('LinearResampler', () => {
+    it('passes audio through when the rates match', () => {
+      const plane = sine(0.01, 48_000, 440, 0.5);
+
+      expect(new LinearResampler(48_000, 48_000).process([plane])[0]).toBe(plane);
+    });
+
+    function resample(plane: Float32Array, inputRate: number, outputRate: number, chunkFrames = plane.length): Float32Array {
+      const resampler = new LinearResampler(inputRate, outputRate);
+      const chunks: Float32Array[] = [];
+      for (let offset = 0; offset < plane.length; offset += chunkFrames) {
+        chunks.push(resampler.process([plane.subarray(offset, offset + chunkFrames)])[0]);
+      }
+      chunks.push(...resampler.flush());
+      return concat(...chunks);
+    }
+
+    it('produces the output rate and joins chunks seamlessly', () => {
+      const tone = sine(1, 48_000, 440, 0.5);
+      const whole = resample(tone, 48_000, 44_100);
+      const chunked = resample(tone, 48_000, 44_100, 4800);
+
+      expect(Math.abs(whole.length - 44_100)).toBeLessThanOrEqual(1);
+      expect(chunked.length).toBe(whole.length);
+      expect(chunked.every((value, index) => Math.abs(value - whole[index]) < 1e-6)).toBeTrue();
+    });
+
+    it('filters out content above the new Nyquist frequency instead of folding it back', () => {
+      // Without the filter, a 30 kHz tone at 96 kHz lands on 14.1 kHz at 44.1 kHz.
+      const aliased = resample(sine(0.5, 96_000, 30_000, 0.5), 96_000, 44_100, 9600);
+      const meter = new PeakMeter();
+      meter.push([aliased.subarray(1000, aliased.length - 1000)]);
+
+      expect(meter.peakDb()).toBeLessThan(-60);
+    });
+
+    it('keeps audible content at its level and in time when downsampling', () => {
+      const tone = sine(0.5, 96_000, 1000, 0.5);
+      const resampled = resample(tone, 96_000, 44_100, 9600);
+      const expected = sine(0.5, 44_100, 1000, 0.5);
+
+      const middle = (plane: Float32Array) => plane.subarray(1000, plane.length - 1000);
+      expect(middle(resampled).every((value, index) => Math.abs(value - middle(expected)[index]) < 0.01)).toBeTrue();
+    });
+  });
+
+  describe('SilenceFinder', () => {
+    it('reports pauses longer than the minimum, including one that runs to the end', () => {
+      const rate = 8000;
+      const finder = new SilenceFinder(-40, 0.5);
+
+      finder.push(
+        [concat(sine(1, rate, 200, 0.5), new Float32Array(rate), sine(1, rate, 200, 0.5), new Float32Array(rate / 4))],
+        0,
+        rate
+      );
+      finder.push([new Float32Array(rate)], 3.25, rate);
+
+      const ranges = finder.finish(4.25);
+      expect(ranges.length).toBe(2);
+      expect(ranges[0].start).toBeCloseTo(1, 1);
+      expect(ranges[0].end).toBeCloseTo(2, 1);
+      expect(ranges[1].start).toBeCloseTo(3, 1);
+      expect(ranges[1].end).toBe(4.25);
+    });
+
+    it('ignores pauses shorter than the minimum', () => {
+      const rate = 8000;
+      const finder = new SilenceFinder(-40, 0.5);
+
+      finder.push([concat(sine(1, rate, 200, 0.5), new Float32Array(rate / 10), sine(1, rate, 200, 0.5))], 0, rate);
+
+      expect(finder.finish(2.1)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,476 @@
+/**
+ * Sample-level building blocks for the optional processing stage: loudness metering (EBU R128),
+ * peak limiting, fades, silence detection, channel mixing and resampling. Everything works on
+ * planar Float32 channel data so it can run chunk by chunk without holding a whole file in memory.
+ */
+
+/** Audio quieter than this integrated loudness is treated as silence by the meter. */
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+const BLOCK_SECONDS = 0.4;
+const STEP_SECONDS = 0.1;
+
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+export function gainToDb(gain: number): number {
+  return gain > 0 ? 20 * Math.log10(gain) : -Infinity;
+}
+
+class Biquad {
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(
+    private readonly b0: number,
+    private readonly b1: number,
+    private readonly b2: number,
+    private readonly a1: number,
+    private readonly a2: number
+  ) {}
+
+  process(x: number): number {
+    const y = this.b0 * x + this.b1 * this.x1 + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+    this.x2 = this.x1;
+    this.x1 = x;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+/** The two K-weighting stages from ITU-R BS.1770, with coefficients derived for any sample rate. */
+function createKWeighting(sampleRate: number): [Biquad, Biquad] {
+  let k = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const q = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf = new Biquad(
+    (vh + (vb * k) / q + k * k) / a0,
+    (2 * (k * k - vh)) / a0,
+    (vh - (vb * k) / q + k * k) / a0,
+    (2 * (k * k - 1)) / a0,
+    (1 - k / q + k * k) / a0
+  );
+
+  k = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const q2 = 0.5003270373238773;
+  a0 = 1 + k / q2 + k * k;
+  const highPass = new Biquad(1, -2, 1, (2 * (k * k - 1)) / a0, (1 - k / q2 + k * k) / a0);
+
+  return [shelf, highPass];
+}
+
+/**
+ * Integrated loudness meter following EBU R128 (gated, K-weighted). Channels are weighted equally, as
+ * BS.1770 does for mono and stereo; surround sources are downmixed before they are metered.
+ */
+export class LoudnessMeter {
+  private readonly filters: [Biquad, Biquad][];
+  private readonly stepFrames: number;
+  private readonly blocksPerWindow = Math.round(BLOCK_SECONDS / STEP_SECONDS);
+  private readonly stepPowers: number[] = [];
+  private readonly windowPowers: number[] = [];
+  private stepSum = 0;
+  private stepFill = 0;
+
+  constructor(
+    sampleRate: number,
+    private readonly channelCount: number
+  ) {
+    this.filters = Array.from({ length: channelCount }, () => createKWeighting(sampleRate));
+    this.stepFrames = Math.max(Math.round(sampleRate * STEP_SECONDS), 1);
+  }
+
+  push(planes: Float32Array[]): void {
+    const frames = planes[0]?.length ?? 0;
+    for (let frame = 0; frame < frames; frame++) {
+      let sum = 0;
+      for (let channel = 0; channel < this.channelCount; channel++) {
+        const [shelf, highPass] = this.filters[channel];
+        const filtered = highPass.process(shelf.process(planes[channel][frame]));
+        sum += filtered * filtered;
+      }
+      this.stepSum += sum;
+      if (++this.stepFill === this.stepFrames) {
+        this.closeStep();
+      }
+    }
+  }
+
+  /** Integrated loudness in LUFS, or null when everything measured was below the absolute gate. */
+  integratedLoudness(): number | null {
+    const aboveAbsolute = this.windowPowers.filter((power) => this.toLufs(power) > ABSOLUTE_GATE_LUFS);
+    if (!aboveAbsolute.length) {
+      return null;
+    }
+
+    const relativeGate = this.toLufs(this.mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+    const gated = aboveAbsolute.filter((power) => this.toLufs(power) > relativeGate);
+    return gated.length ? this.toLufs(this.mean(gated)) : null;
+  }
+
+  private closeStep(): void {
+    this.stepPowers.push(this.stepSum / this.stepFrames);
+    this.stepSum = 0;
+    this.stepFill = 0;
+
+    if (this.stepPowers.length >= this.blocksPerWindow) {
+      this.windowPowers.push(this.mean(this.stepPowers.slice(-this.blocksPerWindow)));
+    }
+  }
+
+  private mean(values: number[]): number {
+    return values.reduce((total, value) => total + value, 0) / values.length;
+  }
+
+  private toLufs(power: number): number {
+    return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+  }
+}
+
+/** Tracks the highest absolute sample value seen across all channels. */
+export class PeakMeter {
+  private peak = 0;
+
+  push(planes: Float32Array[]): void {
+    for (const plane of planes) {
+      for (let index = 0; index < plane.length; index++) {
+        const value = Math.abs(plane[index]);
+        if (value > this.peak) {
+          this.peak = value;
+        }
+      }
+    }
+  }
+
+  peakDb(): number {
+    return gainToDb(this.peak);
+  }
+}
+
+/**
+ * Sample-peak limiter with instant attack and exponential release. Without lookahead it cannot be
+ * transparent on hard transients, but it guarantees nothing leaves above the ceiling.
+ */
+export class PeakLimiter {
+  private envelope = 1;
+  private readonly ceiling: number;
+  private readonly releaseCoefficient: number;
+
+  constructor(sampleRate: number, ceilingDb: number, releaseSeconds = 0.08) {
+    this.ceiling = dbToGain(ceilingDb);
+    this.releaseCoefficient = 1 - Math.exp(-1 / (releaseSeconds * sampleRate));
+  }
+
+  process(planes: Float32Array[]): void {
+    const frames = planes[0]?.length ?? 0;
+    for (let frame = 0; frame < frames; frame++) {
+      let peak = 0;
+      for (const plane of planes) {
+        peak = Math.max(peak, Math.abs(plane[frame]));
+      }
+      const target = peak > this.ceiling ? this.ceiling / peak : 1;
+      this.envelope = target < this.envelope ? target : this.envelope + (target - this.envelope) * this.releaseCoefficient;
+      for (const plane of planes) {
+        plane[frame] *= this.envelope;
+      }
+    }
+  }
+}
+
+/**
+ * Finds the first and last frames louder than a threshold. Feed it chunks in order together with
+ * the time of their first frame.
+ */
+export class SilenceDetector {
+  private firstLoud: number | null = null;
+  private lastLoud: number | null = null;
+  private readonly threshold: number;
+
+  constructor(thresholdDb: number) {
+    this.threshold = dbToGain(thresholdDb);
+  }
+
+  push(planes: Float32Array[], startTime: number, sampleRate: number): void {
+    const frames = planes[0]?.length ?? 0;
+    let first = -1;
+    let last = -1;
+    for (let frame = 0; frame < frames; frame++) {
+      if (planes.some((plane) => Math.abs(plane[frame]) > this.threshold)) {
+        if (first < 0) {
+          first = frame;
+        }
+        last = frame;
+      }
+    }
+
+    if (first >= 0) {
+      this.firstLoud ??= startTime + first / sampleRate;
+      this.lastLoud = startTime + (last + 1) / sampleRate;
+    }
+  }
+
+  /** The loud section in seconds, or null when the whole input stayed below the threshold. */
+  loudRange(): { start: number; end: number } | null {
+    return this.firstLoud === null || this.lastLoud === null ? null : { start: this.firstLoud, end: this.lastLoud };
+  }
+}
+
+/** Linear fade-in/fade-out envelope over an output of known duration. */
+export function applyFades(
+  planes: Float32Array[],
+  startTime: number,
+  sampleRate: number,
+  totalDuration: number,
+  fadeIn: number,
+  fadeOut: number
+): void {
+  if (fadeIn <= 0 && fadeOut <= 0) {
+    return;
+  }
+
+  const frames = planes[0]?.length ?? 0;
+  for (let frame = 0; frame < frames; frame++) {
+    const time = startTime + frame / sampleRate;
+    let gain = 1;
+    if (fadeIn > 0 && time < fadeIn) {
+      gain = time / fadeIn;
+    }
+    if (fadeOut > 0 && time > totalDuration - fadeOut) {
+      gain = Math.min(gain, Math.max((totalDuration - time) / fadeOut, 0));
+    }
+    if (gain < 1) {
+      for (const plane of planes) {
+        plane[frame] *= gain;
+      }
+    }
+  }
+}
+
+export function applyGain(planes: Float32Array[], gain: number): void {
+  if (gain === 1) {
+    return;
+  }
+  for (const plane of planes) {
+    for (let index = 0; index < plane.length; index++) {
+      plane[index] *= gain;
+    }
+  }
+}
+
+/** Up- or down-mixes planar audio to the requested channel count. */
+export function mixChannels(planes: Float32Array[], channelCount: number): Float32Array[] {
+  if (planes.length === channelCount || !planes.length) {
+    return planes;
+  }
+
+  const frames = planes[0].length;
+  if (channelCount === 1) {
+    const mono = new Float32Array(frames);
+    for (const plane of planes) {
+      for (let index = 0; index < frames; index++) {
+        mono[index] += plane[index] / planes.length;
+      }
+    }
+    return [mono];
+  }
+
+  if (channelCount === 2 && planes.length > 2) {
+    // Fold centre and surrounds into the front pair at -3 dB, as in the ITU downmix.
+    const [left, right, centre, , leftSurround, rightSurround] = planes;
+    const mixed = [new Float32Array(left), new Float32Array(right)];
+    for (let index = 0; index < frames; index++) {
+      const centreShare = centre ? centre[index] * Math.SQRT1_2 : 0;
+      mixed[0][index] += centreShare + (leftSurround ? leftSurround[index] * Math.SQRT1_2 : 0);
+      mixed[1][index] += centreShare + (rightSurround ? rightSurround[index] * Math.SQRT1_2 : 0);
+    }
+    return mixed;
+  }
+
+  return Array.from({ length: channelCount }, (_, channel) => new Float32Array(planes[channel % planes.length]));
+}
+
+/** Share of the output Nyquist frequency kept when downsampling; the filter rolls off over the rest. */
+const ANTI_ALIAS_PASSBAND = 0.9;
+
+/** Blackman-windowed sinc low-pass with `cutoff` in cycles per sample, normalized to unity gain. */
+function lowPassKernel(cutoff: number, taps: number): Float32Array {
+  const middle = (taps - 1) / 2;
+  const kernel = Float32Array.from({ length: taps }, (_, index) => {
+    const offset = index - middle;
+    const sinc = offset === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * offset) / (Math.PI * offset);
+    const phase = (2 * Math.PI * index) / (taps - 1);
+    return sinc * (0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase));
+  });
+  const sum = kernel.reduce((total, value) => total + value, 0);
+  return kernel.map((value) => value / sum);
+}
+
+/**
+ * Streaming FIR filter for one channel. Output is shifted back by the filter delay, so it lines up with the
+ * input; `flush` returns the last samples once the input has ended.
+ */
+class FirFilter {
+  private history: Float32Array;
+  private pendingDelay: number;
+
+  constructor(private readonly kernel: Float32Array) {
+    this.history = new Float32Array(kernel.length - 1);
+    this.pendingDelay = (kernel.length - 1) / 2;
+  }
+
+  process(input: Float32Array): Float32Array {
+    const taps = this.kernel.length;
+    const buffer = new Float32Array(this.history.length + input.length);
+    buffer.set(this.history);
+    buffer.set(input, this.history.length);
+
+    const skipped = Math.min(this.pendingDelay, input.length);
+    this.pendingDelay -= skipped;
+    const output = new Float32Array(input.length - skipped);
+    for (let frame = skipped; frame < input.length; frame++) {
+      let sum = 0;
+      for (let tap = 0; tap < taps; tap++) {
+        sum += this.kernel[tap] * buffer[frame + tap];
+      }
+      output[frame - skipped] = sum;
+    }
+
+    this.history = buffer.slice(input.length);
+    return output;
+  }
+
+  flush(): Float32Array {
+    return this.process(new Float32Array((this.kernel.length - 1) / 2));
+  }
+}
+
+/**
+ * Streaming linear-interpolation resampler; keeps state between chunks so joins stay seamless. When
+ * downsampling, the audio is low-passed below the new Nyquist frequency first so higher content does not
+ * fold back as aliasing. The filter delays the audio slightly, so call `flush` after the last chunk.
+ */
+export class LinearResampler {
+  private readonly ratio: number;
+  private readonly kernel: Float32Array | null = null;
+  private filters: FirFilter[] = [];
+  private position = 0;
+  private previous: number[] | null = null;
+
+  constructor(inputRate: number, outputRate: number) {
+    this.ratio = inputRate / outputRate;
+    if (outputRate < inputRate) {
+      const cutoff = (ANTI_ALIAS_PASSBAND * outputRate) / 2 / inputRate;
+      // A Blackman window needs about 5.5 / width taps for a transition `width` cycles per sample wide. The
+      // transition is centred on the cutoff, so it is fully stopped at the output Nyquist frequency.
+      const width = ((1 - ANTI_ALIAS_PASSBAND) * outputRate) / inputRate;
+      this.kernel = lowPassKernel(cutoff, 2 * Math.ceil(2.75 / width) + 1);
+    }
+  }
+
+  get passthrough(): boolean {
+    return this.ratio === 1;
+  }
+
+  process(planes: Float32Array[]): Float32Array[] {
+    if (this.passthrough || !planes[0]?.length) {
+      return planes;
+    }
+    return this.interpolate(this.kernel ? this.filter(planes) : planes);
+  }
+
+  /** The audio still held back by the anti-aliasing filter; empty when nothing is held back. */
+  flush(): Float32Array[] {
+    if (!this.filters.length) {
+      return [];
+    }
+    return this.interpolate(this.filters.map((filter) => filter.flush()));
+  }
+
+  private filter(planes: Float32Array[]): Float32Array[] {
+    if (!this.filters.length) {
+      this.filters = planes.map(() => new FirFilter(this.kernel!));
+    }
+    return planes.map((plane, channel) => this.filters[channel].process(plane));
+  }
+
+  private interpolate(planes: Float32Array[]): Float32Array[] {
+    const frames = planes[0]?.length ?? 0;
+    if (!frames) {
+      return planes;
+    }
+
+    const output: number[][] = planes.map(() => []);
+    while (this.position <= frames - 1) {
+      const base = Math.floor(this.position);
+      const fraction = this.position - base;
+      planes.forEach((plane, channel) => {
+        const from = base < 0 ? this.previous?.[channel] ?? plane[0] : plane[base];
+        const to = plane[Math.min(base + 1, frames - 1)];
+        output[channel].push(from + (to - from) * fraction);
+      });
+      this.position += this.ratio;
+    }
+
+    this.position -= frames;
+    this.previous = planes.map((plane) => plane[frames - 1]);
+    return output.map((values) => Float32Array.from(values));
+  }
+}
+
+/**
+ * Collects stretches quieter than a threshold that last at least `minDuration` seconds, measured on
+ * short RMS windows so single clicks do not break up a pause.
+ */
+export class SilenceFinder {
+  private readonly threshold: number;
+  private readonly ranges: { start: number; end: number }[] = [];
+  private silentSince: number | null = null;
+
+  constructor(
+    thresholdDb: number,
+    private readonly minDuration: number,
+    private readonly windowSeconds = 0.05
+  ) {
+    this.threshold = dbToGain(thresholdDb);
+  }
+
+  push(planes: Float32Array[], startTime: number, sampleRate: number): void {
+    const frames = planes[0]?.length ?? 0;
+    const windowFrames = Math.max(Math.round(this.windowSeconds * sampleRate), 1);
+    for (let offset = 0; offset < frames; offset += windowFrames) {
+      const end = Math.min(offset + windowFrames, frames);
+      let sum = 0;
+      for (const plane of planes) {
+        for (let index = offset; index < end; index++) {
+          sum += plane[index] * plane[index];
+        }
+      }
+      const rms = Math.sqrt(sum / ((end - offset) * planes.length));
+      const time = startTime + offset / sampleRate;
+      if (rms < this.threshold) {
+        this.silentSince ??= time;
+      } else {
+        this.close(time);
+      }
+    }
+  }
+
+  /** Silent ranges found so far; `endTime` closes a silence that runs to the end of the input. */
+  finish(endTime: number): { start: number; end: number }[] {
+    this.close(endTime);
+    return [...this.ranges];
+  }
+
+  private close(time: number): void {
+    if (this.silentSince !== null && time - this.silentSince >= this.minDuration) {
+      this.ranges.push({ start: this.silentSince, end: time });
+    }
+    this.silentSince = null;
+  }
+}
@@ -0,0 +1,155 @@
+import {
+  AudioCodec,
+  AudioSample,
+  AudioSampleSource,
+  EncodedPacketSink,
+  EncodedVideoPacketSource,
+  Input,
+  Output,
+  Quality
+} from 'mediabunny';
+import { LinearResampler, applyGain, mixChannels } from './audio-processing';
+import { cancelledError } from './conversion-errors';
+import { concatPlanes, readChunks } from './processed-conversion';
+
+export interface AudioReplacement {
+  file: File;
+  /** Seconds into the video at which the new audio starts; negative values skip the start of the audio. */
+  offset?: number;
+  /** Linear gain for the new audio; 1 keeps its level. */
+  volume?: number;
+}
+
+export interface AudioReplacementParams {
+  /** Source of the video stream, which is copied as it is. */
+  video: Input;
+  /** Source of the new soundtrack, which is decoded and encoded with `codec`. */
+  audio: Input;
+  output: Output;
+  codec: AudioCodec;
+  bitrate?: number | Quality;
+  sampleRate: number;
+  offset: number;
+  volume: number;
+  isCancelled: () => boolean;
+  onProgress?: (ratio: number) => void;
+  onLog?: (message: string) => void;
+}
+
+/** Leading silence for a positive offset is written in chunks of this many seconds. */
+const SILENCE_CHUNK_SECONDS = 1;
+
+/**
+ * Writes the primary video track of one file next to the primary audio track of another. `Conversion`
+ * only reads a single input, so the video packets are copied and the audio is encoded here, side by
+ * side, the way `Conversion` does it for its own tracks. The new audio is cut at the end of the video.
+ */
+export async function runAudioReplacement(params: AudioReplacementParams): Promise<void> {
+  const { output, isCancelled } = params;
+  const videoTrack = await params.video.getPrimaryVideoTrack();
+  if (!videoTrack?.codec) {
+    throw new Error('The video file has no video track that can be copied.');
+  }
+  if ((await videoTrack.getFirstTimestamp()) < 0) {
+    throw new Error('This video starts with negative timestamps and cannot be copied without re-encoding it.');
+  }
+  const audioTrack = await params.audio.getPrimaryAudioTrack();
+  if (!audioTrack) {
+    throw new Error('The audio file does not contain any audio tracks.');
+  }
+  if (!(await audioTrack.canDecode())) {
+    throw new Error('Unable to read the audio file: its codec cannot be decoded in this browser.');
+  }
+
+  const duration = await videoTrack.computeDuration();
+  const offset = params.offset;
+  const start = Math.max(-offset, 0);
+  const end = Math.min(await audioTrack.computeDuration(), start + duration - Math.max(offset, 0));
+  const channelCount = Math.min(audioTrack.numberOfChannels, 2);
+  const { sampleRate } = params;
+
+  const videoSource = new EncodedVideoPacketSource(videoTrack.codec);
+  output.addVideoTrack(videoSource, { rotation: videoTrack.rotation });
+  const audioSource = new AudioSampleSource({ codec: params.codec, bitrate: params.bitrate });
+  output.addAudioTrack(audioSource, {
+    languageCode: audioTrack.languageCode !== 'und' ? audioTrack.languageCode : undefined
+  });
+
+  let videoProgress = 0;
+  let audioProgress = 0;
+  const report = () => params.onProgress?.(Math.min((videoProgress + audioProgress) / 2, 1));
+
+  const copyVideo = async () => {
+    const decoderConfig = await videoTrack.getDecoderConfig();
+    let first = true;
+    for await (const packet of new EncodedPacketSink(videoTrack).packets()) {
+      if (isCancelled()) {
+        throw cancelledError();
+      }
+      await videoSource.add(packet, first && decoderConfig ? { decoderConfig } : undefined);
+      first = false;
+      videoProgress = duration > 0 ? packet.timestamp / duration : 1;
+      report();
+    }
+    videoSource.close();
+  };
+
+  const encodeAudio = async () => {
+    const resampler = new LinearResampler(audioTrack.sampleRate, sampleRate);
+    const length = duration || 1;
+    let writtenFrames = 0;
+    const write = async (planes: Float32Array[]) => {
+      const sample = new AudioSample({
+        data: concatPlanes(planes),
+        format: 'f32-planar',
+        numberOfChannels: channelCount,
+        sampleRate,
+        timestamp: writtenFrames / sampleRate
+      });
+      try {
+        await audioSource.add(sample);
+      } finally {
+        sample.close();
+      }
+      writtenFrames += planes[0].length;
+      audioProgress = writtenFrames / sampleRate / length;
+      report();
+    };
+
+    const silentFrames = Math.round(Math.min(Math.max(offset, 0), duration) * sampleRate);
+    while (writtenFrames < silentFrames) {
+      if (isCancelled()) {
+        throw cancelledError();
+      }
+      const frames = Math.min(SILENCE_CHUNK_SECONDS * sampleRate, silentFrames - writtenFrames);
+      await write(Array.from({ length: channelCount }, () => new Float32Array(frames)));
+    }
+
+    if (end > start) {
+      for await (const chunk of readChunks(audioTrack, { start, end }, isCancelled)) {
+        const planes = resampler.process(mixChannels(chunk.planes, channelCount));
+        if (!planes[0]?.length) {
+          continue;
+        }
+        applyGain(planes, params.volume);
+        await write(planes);
+      }
+      const tail = resampler.flush();
+      if (tail[0]?.length) {
+        applyGain(tail, params.volume);
+        await write(tail);
+      }
+    }
+    audioSource.close();
+  };
+
+  try {
+    await output.start();
+    params.onLog?.('Copying the video stream and encoding the new audio...');
+    await Promise.all([copyVideo(), encodeAudio()]);
+    await output.finalize();
+  } catch (error) {
+    await output.cancel().catch(() => undefined);
+    throw error;
+  }
+}
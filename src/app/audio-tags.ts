@@ -0,0 +1,100 @@
+import { AttachedImage, MetadataTags } from 'mediabunny';
+
+export interface CoverImage {
+  data: Uint8Array;
+  /** e.g. `image/jpeg` or `image/png`. */
+  mimeType: string;
+}
+
+/**
+ * The descriptive tags the converter lets people edit. Fields left undefined fall back to the
+ * source's own tags (when those are carried over); an empty string clears the source value.
+ */
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  trackNumber?: number;
+  year?: number;
+  comment?: string;
+  /** Front cover. `null` drops any cover carried over from the source. */
+  cover?: CoverImage | null;
+}
+
+/** How a given output container stores tags, or null when it cannot hold any. */
+export interface TagSupport {
+  /** Name of the tag flavour written, shown in the conversion log. */
+  label: string;
+  coverArt: boolean;
+}
+
+type TextTagKey = 'title' | 'artist' | 'album' | 'comment';
+
+const TEXT_TAG_KEYS: TextTagKey[] = ['title', 'artist', 'album', 'comment'];
+
+/** Reads the editable subset of a container's tags, e.g. to prefill the tag editor. */
+export function toAudioTags(tags: MetadataTags): AudioTags {
+  const cover = tags.images?.find((image) => image.kind === 'coverFront') ?? tags.images?.[0];
+  return {
+    title: tags.title,
+    artist: tags.artist,
+    album: tags.album,
+    trackNumber: tags.trackNumber,
+    year: tags.date && !Number.isNaN(tags.date.getTime()) ? tags.date.getUTCFullYear() : undefined,
+    comment: tags.comment,
+    cover: cover ? { data: cover.data, mimeType: cover.mimeType } : undefined
+  };
+}
+
+/**
+ * Combines the source's tags with the user's edits into what gets written to the output. Raw,
+ * container-specific tags are never carried over because they do not translate between formats.
+ */
+export function buildOutputTags(
+  support: TagSupport | null,
+  source: MetadataTags,
+  edits: AudioTags = {},
+  keepSourceTags = true
+): MetadataTags {
+  if (!support) {
+    return {};
+  }
+
+  const result: MetadataTags = {};
+  if (keepSourceTags) {
+    Object.assign(result, source);
+    delete result.raw;
+  }
+
+  for (const key of TEXT_TAG_KEYS) {
+    const value = edits[key];
+    if (value !== undefined) {
+      result[key] = value.trim() || undefined;
+    }
+  }
+  if (edits.trackNumber !== undefined) {
+    result.trackNumber = edits.trackNumber > 0 ? edits.trackNumber : undefined;
+  }
+  if (edits.year !== undefined) {
+    result.date = edits.year > 0 ? new Date(Date.UTC(edits.year, 0, 1)) : undefined;
+  }
+  if (edits.cover !== undefined) {
+    const others = (result.images ?? []).filter((image) => image.kind !== 'coverFront');
+    const cover: AttachedImage[] = edits.cover ? [{ ...edits.cover, kind: 'coverFront' }] : [];
+    result.images = [...cover, ...others];
+  }
+
+  if (!support.coverArt || !result.images?.length) {
+    delete result.images;
+  }
+  for (const key of Object.keys(result) as (keyof MetadataTags)[]) {
+    if (result[key] === undefined) {
+      delete result[key];
+    }
+  }
+  return result;
+}
+
+export function hasTags(tags: MetadataTags): boolean {
+  return Object.keys(tags).length > 0;
+}
@@ -0,0 +1,177 @@
+import { readChapters } from './chapters';
+
+type Bytes = Uint8Array | number[];
+
+function concat(parts: Bytes[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function utf8(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function bigEndian(value: number, length: number): number[] {
+  return Array.from({ length }, (_, index) => Math.floor(value / 256 ** (length - 1 - index)) % 256);
+}
+
+/** An EBML element: the ID as written (marker bits included), a 4-byte size, then the body. */
+function element(id: number, ...body: Bytes[]): Uint8Array {
+  const content = concat(body);
+  return concat([bigEndian(id, Math.ceil(Math.log2(id + 1) / 8)), [0x10, ...bigEndian(content.length, 3)], content]);
+}
+
+function unsigned(id: number, value: number): Uint8Array {
+  return element(id, bigEndian(value, 8));
+}
+
+function chapterAtom(start: number, end: number, title: string | null, hidden = false): Uint8Array {
+  return element(
+    0xb6,
+    unsigned(0x91, start * 1e9),
+    unsigned(0x92, end * 1e9),
+    ...(hidden ? [unsigned(0x98, 1)] : []),
+    ...(title === null ? [] : [element(0x80, element(0x85, utf8(title)))])
+  );
+}
+
+function matroska(...segmentChildren: Uint8Array[]): Blob {
+  return new Blob([element(0x1a45dfa3, element(0x4282, utf8('matroska'))), element(0x18538067, ...segmentChildren)]);
+}
+
+/** An MP4 box; the body is given as byte parts. */
+function box(type: string, ...body: Bytes[]): Uint8Array {
+  const content = concat(body);
+  return concat([bigEndian(content.length + 8, 4), utf8(type), content]);
+}
+
+function u32(...values: number[]): number[] {
+  return values.flatMap((value) => bigEndian(value, 4));
+}
+
+function trackHeader(id: number): Uint8Array {
+  return box('tkhd', u32(0, 0, 0, id));
+}
+
+/** An audio track pointing at a text track with one sample per title, lasting the given seconds. */
+function quickTimeChapters(titles: string[], durations: number[]): Blob {
+  const samples = titles.map((title) => concat([bigEndian(utf8(title).length, 2), utf8(title)]));
+  const build = (dataOffset: number) => {
+    const ftyp = box('ftyp', utf8('M4A '), u32(0), utf8('isom'));
+    const audio = box('trak', trackHeader(1), box('tref', box('chap', u32(2))));
+    const text = box(
+      'trak',
+      trackHeader(2),
+      box(
+        'mdia',
+        box('mdhd', u32(0, 0, 0, 1000)),
+        box(
+          'minf',
+          box(
+            'stbl',
+            box('stts', u32(0, durations.length), ...durations.map((duration) => u32(1, duration * 1000))),
+            box('stsz', u32(0, 0, samples.length), ...samples.map((sample) => u32(sample.length))),
+            box('stsc', u32(0, 1, 1, samples.length, 1)),
+            box('stco', u32(0, 1, dataOffset))
+          )
+        )
+      )
+    );
+    return concat([ftyp, box('moov', audio, text)]);
+  };
+  // The titles sit right after the `mdat` header; the boxes before it do not change size with the offset.
+  const head = build(build(0).length + 8);
+  return new Blob([head, box('mdat', ...samples)]);
+}
+
+describe('readChapters', () => {
+  describe('Matroska', () => {
+    it('reads the chapters of the first edition in start order', async () => {
+      const file = matroska(
+        element(0x1043a770, element(0x45b9, chapterAtom(30, 45, 'Outro'), chapterAtom(0, 30, 'Intro')))
+      );
+
+      expect(await readChapters(file)).toEqual([
+        { title: 'Intro', start: 0, end: 30 },
+        { title: 'Outro', start: 30, end: 45 }
+      ]);
+    });
+
+    it('skips hidden chapters and numbers untitled ones', async () => {
+      const file = matroska(
+        element(
+          0x1043a770,
+          element(0x45b9, chapterAtom(0, 12.5, 'Intro'), chapterAtom(12.5, 20, 'Hidden', true), chapterAtom(12.5, 30, null))
+        )
+      );
+
+      expect(await readChapters(file)).toEqual([
+        { title: 'Intro', start: 0, end: 12.5 },
+        { title: 'Chapter 2', start: 12.5, end: 30 }
+      ]);
+    });
+
+    it('follows the seek head to chapters stored after the media data', async () => {
+      const chapters = element(0x1043a770, element(0x45b9, chapterAtom(0, 5, 'Only')));
+      const cluster = element(0x1f43b675, new Uint8Array(64));
+      const seekHeadFor = (position: number) =>
+        element(0x114d9b74, element(0x4dbb, element(0x53ab, bigEndian(0x1043a770, 4)), unsigned(0x53ac, position)));
+      const seekHeadLength = seekHeadFor(0).length;
+
+      const file = matroska(seekHeadFor(seekHeadLength + cluster.length), cluster, chapters);
+
+      expect(await readChapters(file)).toEqual([{ title: 'Only', start: 0, end: 5 }]);
+    });
+
+    it('stops at the first cluster when nothing points at chapters', async () => {
+      const file = matroska(
+        element(0x1f43b675, new Uint8Array(64)),
+        element(0x1043a770, element(0x45b9, chapterAtom(0, 5, 'Late')))
+      );
+
+      expect(await readChapters(file)).toEqual([]);
+    });
+  });
+
+  describe('MP4', () => {
+    it('reads a QuickTime chapter track with the timing of its samples', async () => {
+      const file = quickTimeChapters(['Intro', 'Middle', 'Outro'], [10, 10, 5]);
+
+      expect(await readChapters(file)).toEqual([
+        { title: 'Intro', start: 0, end: 10 },
+        { title: 'Middle', start: 10, end: 20 },
+        { title: 'Outro', start: 20, end: 25 }
+      ]);
+    });
+
+    it('falls back to the Nero chpl box, which only stores start times', async () => {
+      const entry = (seconds: number, title: string) => [
+        ...bigEndian(seconds * 10_000_000, 8),
+        utf8(title).length,
+        ...utf8(title)
+      ];
+      const chpl = box('chpl', [1, 0, 0, 0], u32(0), [2], entry(90, 'Two'), entry(0, 'One'));
+      const file = new Blob([box('ftyp', utf8('M4A '), u32(0)), box('moov', box('udta', chpl))]);
+
+      expect(await readChapters(file)).toEqual([
+        { title: 'One', start: 0, end: null },
+        { title: 'Two', start: 90, end: null }
+      ]);
+    });
+
+    it('returns no chapters when the file has neither', async () => {
+      const file = new Blob([box('ftyp', utf8('isom'), u32(0)), box('moov', box('mvhd', u32(0)))]);
+
+      expect(await readChapters(file)).toEqual([]);
+    });
+  });
+
+  it('returns no chapters for other containers', async () => {
+    expect(await readChapters(new Blob([utf8('RIFF\0\0\0\0WAVE')]))).toEqual([]);
+  });
+});
@@ -0,0 +1,436 @@
+/**
+ * Reads chapter markers straight from the container, since Mediabunny does not expose them. Supports
+ * Matroska/WebM `Chapters` and, for MP4/M4A/M4B files, both QuickTime chapter tracks (what Apple tools
+ * write and Apple players read) and the Nero `chpl` box.
+ */
+
+export interface Chapter {
+  title: string;
+  /** Start in seconds. */
+  start: number;
+  /** End in seconds, or null when the container only stores start times. */
+  end: number | null;
+}
+
+const EBML_MAGIC = 0x1a45dfa3;
+const MKV_SEGMENT = 0x18538067;
+const MKV_SEEK_HEAD = 0x114d9b74;
+const MKV_SEEK = 0x4dbb;
+const MKV_SEEK_ID = 0x53ab;
+const MKV_SEEK_POSITION = 0x53ac;
+const MKV_CHAPTERS = 0x1043a770;
+const MKV_EDITION_ENTRY = 0x45b9;
+const MKV_CHAPTER_ATOM = 0xb6;
+const MKV_CHAPTER_TIME_START = 0x91;
+const MKV_CHAPTER_TIME_END = 0x92;
+const MKV_CHAPTER_FLAG_HIDDEN = 0x98;
+const MKV_CHAPTER_DISPLAY = 0x80;
+const MKV_CHAP_STRING = 0x85;
+const MKV_CLUSTER = 0x1f43b675;
+
+/** Top-level elements inspected before giving up on finding chapters ahead of the media data. */
+const MAX_TOP_LEVEL_ELEMENTS = 64;
+/** Chapters and index boxes are small; anything bigger is not worth reading just for markers. */
+const MAX_METADATA_BYTES = 32 * 1024 * 1024;
+const NERO_TIME_UNITS_PER_SECOND = 10_000_000;
+/** Chapter tracks longer than this are not chapter lists anyone wrote by hand; stop reading there. */
+const MAX_CHAPTER_SAMPLES = 1000;
+
+interface ElementHeader {
+  id: number;
+  /** Size of the element body, or null when the size is unknown (live streams). */
+  size: number | null;
+  headerLength: number;
+}
+
+export async function readChapters(file: Blob): Promise<Chapter[]> {
+  const head = new DataView(await file.slice(0, 12).arrayBuffer());
+  if (head.byteLength >= 4 && head.getUint32(0) === EBML_MAGIC) {
+    return readMatroskaChapters(file);
+  }
+  if (head.byteLength >= 8 && fourCc(head, 4) === 'ftyp') {
+    return readMp4Chapters(file);
+  }
+  return [];
+}
+
+async function readMatroskaChapters(file: Blob): Promise<Chapter[]> {
+  const ebml = await readElementHeader(file, 0);
+  if (!ebml?.size) {
+    return [];
+  }
+  const segmentOffset = ebml.headerLength + ebml.size;
+  const segment = await readElementHeader(file, segmentOffset);
+  if (!segment || segment.id !== MKV_SEGMENT) {
+    return [];
+  }
+
+  const segmentStart = segmentOffset + segment.headerLength;
+  const segmentEnd = segment.size === null ? file.size : Math.min(segmentStart + segment.size, file.size);
+  let position = segmentStart;
+
+  for (let index = 0; index < MAX_TOP_LEVEL_ELEMENTS && position < segmentEnd; index++) {
+    const element = await readElementHeader(file, position);
+    if (!element || element.size === null) {
+      return [];
+    }
+
+    const bodyStart = position + element.headerLength;
+    if (element.id === MKV_CHAPTERS) {
+      return parseMatroskaChapters(await readBody(file, bodyStart, element.size));
+    }
+    if (element.id === MKV_SEEK_HEAD) {
+      const chaptersOffset = findSeekPosition(await readBody(file, bodyStart, element.size), MKV_CHAPTERS);
+      if (chaptersOffset !== null) {
+        const chapters = await readElementHeader(file, segmentStart + chaptersOffset);
+        if (chapters?.id === MKV_CHAPTERS && chapters.size !== null) {
+          return parseMatroskaChapters(
+            await readBody(file, segmentStart + chaptersOffset + chapters.headerLength, chapters.size)
+          );
+        }
+      }
+    }
+    if (element.id === MKV_CLUSTER) {
+      // Media data has started and the seek head did not point at chapters: there are none up front.
+      return [];
+    }
+    position = bodyStart + element.size;
+  }
+  return [];
+}
+
+function findSeekPosition(seekHead: DataView, wantedId: number): number | null {
+  for (const seek of children(seekHead, 0, seekHead.byteLength)) {
+    if (seek.id !== MKV_SEEK) {
+      continue;
+    }
+    let id: number | null = null;
+    let offset: number | null = null;
+    for (const field of children(seekHead, seek.start, seek.end)) {
+      if (field.id === MKV_SEEK_ID) {
+        id = readUnsigned(seekHead, field.start, field.end);
+      } else if (field.id === MKV_SEEK_POSITION) {
+        offset = readUnsigned(seekHead, field.start, field.end);
+      }
+    }
+    if (id === wantedId && offset !== null) {
+      return offset;
+    }
+  }
+  return null;
+}
+
+function parseMatroskaChapters(view: DataView): Chapter[] {
+  const edition = children(view, 0, view.byteLength).find((element) => element.id === MKV_EDITION_ENTRY);
+  if (!edition) {
+    return [];
+  }
+
+  const chapters: Chapter[] = [];
+  for (const atom of children(view, edition.start, edition.end)) {
+    if (atom.id !== MKV_CHAPTER_ATOM) {
+      continue;
+    }
+    let start: number | null = null;
+    let end: number | null = null;
+    let title = '';
+    let hidden = false;
+    for (const field of children(view, atom.start, atom.end)) {
+      if (field.id === MKV_CHAPTER_TIME_START) {
+        start = readUnsigned(view, field.start, field.end) / 1e9;
+      } else if (field.id === MKV_CHAPTER_TIME_END) {
+        end = readUnsigned(view, field.start, field.end) / 1e9;
+      } else if (field.id === MKV_CHAPTER_FLAG_HIDDEN) {
+        hidden = readUnsigned(view, field.start, field.end) === 1;
+      } else if (field.id === MKV_CHAPTER_DISPLAY && !title) {
+        const text = children(view, field.start, field.end).find((entry) => entry.id === MKV_CHAP_STRING);
+        title = text ? decodeText(view, text.start, text.end) : '';
+      }
+    }
+    if (start !== null && !hidden) {
+      chapters.push({ title: title || `Chapter ${chapters.length + 1}`, start, end });
+    }
+  }
+  return chapters.sort((a, b) => a.start - b.start);
+}
+
+async function readMp4Chapters(file: Blob): Promise<Chapter[]> {
+  let position = 0;
+  while (position + 8 <= file.size) {
+    const header = new DataView(await file.slice(position, position + 16).arrayBuffer());
+    let size = header.getUint32(0);
+    let headerLength = 8;
+    if (size === 1 && header.byteLength >= 16) {
+      size = Number(header.getBigUint64(8));
+      headerLength = 16;
+    } else if (size === 0) {
+      size = file.size - position;
+    }
+    if (size < headerLength) {
+      return [];
+    }
+
+    if (fourCc(header, 4) === 'moov') {
+      const moov = await readBody(file, position + headerLength, size - headerLength);
+      const chapterTrack = await readQuickTimeChapterTrack(file, moov);
+      if (chapterTrack.length) {
+        return chapterTrack;
+      }
+      const udta = findBox(moov, 0, moov.byteLength, 'udta');
+      const chpl = udta ? findBox(moov, udta.start, udta.end, 'chpl') : null;
+      return chpl ? parseChpl(moov, chpl.start, chpl.end) : [];
+    }
+    position += size;
+  }
+  return [];
+}
+
+function findBox(view: DataView, start: number, end: number, type: string): { start: number; end: number } | null {
+  return childBoxes(view, start, end).find((box) => box.type === type) ?? null;
+}
+
+/** Follows a path of nested boxes, e.g. `['mdia', 'minf', 'stbl']`. */
+function findPath(view: DataView, start: number, end: number, path: string[]): { start: number; end: number } | null {
+  let box: { start: number; end: number } | null = { start, end };
+  for (const type of path) {
+    box = box ? findBox(view, box.start, box.end, type) : null;
+  }
+  return box;
+}
+
+function childBoxes(view: DataView, start: number, end: number): { type: string; start: number; end: number }[] {
+  const boxes: { type: string; start: number; end: number }[] = [];
+  let position = start;
+  while (position + 8 <= end) {
+    const size = view.getUint32(position);
+    if (size < 8 || position + size > end) {
+      break;
+    }
+    boxes.push({ type: fourCc(view, position + 4), start: position + 8, end: position + size });
+    position += size;
+  }
+  return boxes;
+}
+
+/**
+ * QuickTime chapters: a text track that another track names in its `tref/chap` box. Each sample is one
+ * chapter title, so start and end come from the sample timing.
+ */
+async function readQuickTimeChapterTrack(file: Blob, moov: DataView): Promise<Chapter[]> {
+  const tracks = childBoxes(moov, 0, moov.byteLength).filter((box) => box.type === 'trak');
+  const chapterTrackIds = new Set<number>();
+  for (const trak of tracks) {
+    const chap = findPath(moov, trak.start, trak.end, ['tref', 'chap']);
+    for (let position = chap?.start ?? 0; chap && position + 4 <= chap.end; position += 4) {
+      chapterTrackIds.add(moov.getUint32(position));
+    }
+  }
+  const chapterTrak = tracks.find((trak) => chapterTrackIds.has(trackId(moov, trak.start, trak.end) ?? -1));
+  if (!chapterTrak) {
+    return [];
+  }
+
+  const mdhd = findPath(moov, chapterTrak.start, chapterTrak.end, ['mdia', 'mdhd']);
+  const stbl = findPath(moov, chapterTrak.start, chapterTrak.end, ['mdia', 'minf', 'stbl']);
+  if (!mdhd || !stbl) {
+    return [];
+  }
+  const timescale = moov.getUint32(mdhd.start + (moov.getUint8(mdhd.start) === 1 ? 20 : 12));
+  const durations = readSampleDurations(moov, findBox(moov, stbl.start, stbl.end, 'stts'));
+  const locations = readSampleLocations(moov, stbl);
+  if (!timescale || !locations.length) {
+    return [];
+  }
+
+  const chapters: Chapter[] = [];
+  let time = 0;
+  for (const [index, location] of locations.entries()) {
+    const duration = durations[index] ?? 0;
+    const sample = new DataView(await file.slice(location.offset, location.offset + location.size).arrayBuffer());
+    const title = sample.byteLength >= 2 ? decodeChapterTitle(sample) : '';
+    chapters.push({ title: title || `Chapter ${index + 1}`, start: time / timescale, end: (time + duration) / timescale });
+    time += duration;
+  }
+  return chapters;
+}
+
+function trackId(view: DataView, start: number, end: number): number | null {
+  const tkhd = findBox(view, start, end, 'tkhd');
+  return tkhd ? view.getUint32(tkhd.start + (view.getUint8(tkhd.start) === 1 ? 20 : 12)) : null;
+}
+
+/** Expands the run-length `stts` table into one duration per sample. */
+function readSampleDurations(view: DataView, stts: { start: number; end: number } | null): number[] {
+  const durations: number[] = [];
+  if (!stts) {
+    return durations;
+  }
+  const entries = view.getUint32(stts.start + 4);
+  for (let index = 0; index < entries && durations.length < MAX_CHAPTER_SAMPLES; index++) {
+    const position = stts.start + 8 + index * 8;
+    if (position + 8 > stts.end) {
+      break;
+    }
+    const count = Math.min(view.getUint32(position), MAX_CHAPTER_SAMPLES - durations.length);
+    durations.push(...new Array<number>(count).fill(view.getUint32(position + 4)));
+  }
+  return durations;
+}
+
+/** File offset and size of every sample, from the sample size, sample-to-chunk and chunk offset tables. */
+function readSampleLocations(view: DataView, stbl: { start: number; end: number }): { offset: number; size: number }[] {
+  const stsz = findBox(view, stbl.start, stbl.end, 'stsz');
+  const stsc = findBox(view, stbl.start, stbl.end, 'stsc');
+  const stco = findBox(view, stbl.start, stbl.end, 'stco');
+  const co64 = findBox(view, stbl.start, stbl.end, 'co64');
+  if (!stsz || !stsc || !(stco || co64)) {
+    return [];
+  }
+
+  const uniformSize = view.getUint32(stsz.start + 4);
+  const sampleCount = Math.min(view.getUint32(stsz.start + 8), MAX_CHAPTER_SAMPLES);
+  const sizeOf = (sample: number) => uniformSize || view.getUint32(stsz.start + 12 + sample * 4);
+
+  const offsets = stco ?? co64!;
+  const chunkCount = view.getUint32(offsets.start + 4);
+  const chunkOffset = (chunk: number) =>
+    stco ? view.getUint32(stco.start + 8 + chunk * 4) : Number(view.getBigUint64(co64!.start + 8 + chunk * 8));
+
+  const runs: { firstChunk: number; samplesPerChunk: number }[] = [];
+  const runCount = view.getUint32(stsc.start + 4);
+  for (let index = 0; index < runCount && stsc.start + 8 + index * 12 + 12 <= stsc.end; index++) {
+    const position = stsc.start + 8 + index * 12;
+    runs.push({ firstChunk: view.getUint32(position) - 1, samplesPerChunk: view.getUint32(position + 4) });
+  }
+
+  const locations: { offset: number; size: number }[] = [];
+  for (let chunk = 0, run = 0; chunk < chunkCount && locations.length < sampleCount; chunk++) {
+    while (run + 1 < runs.length && runs[run + 1].firstChunk <= chunk) {
+      run++;
+    }
+    let offset = chunkOffset(chunk);
+    for (let index = 0; index < (runs[run]?.samplesPerChunk ?? 0) && locations.length < sampleCount; index++) {
+      const size = sizeOf(locations.length);
+      locations.push({ offset, size });
+      offset += size;
+    }
+  }
+  return locations;
+}
+
+/** A text sample: a 16-bit length, then the title in UTF-8, or UTF-16 when it starts with a byte order mark. */
+function decodeChapterTitle(sample: DataView): string {
+  const length = Math.min(sample.getUint16(0), sample.byteLength - 2);
+  const bytes = new Uint8Array(sample.buffer, sample.byteOffset + 2, length);
+  const utf16 = length >= 2 && ((bytes[0] === 0xfe && bytes[1] === 0xff) || (bytes[0] === 0xff && bytes[1] === 0xfe));
+  return new TextDecoder(utf16 ? (bytes[0] === 0xfe ? 'utf-16be' : 'utf-16le') : 'utf-8').decode(bytes).trim();
+}
+
+/** Nero chapter list: version/flags, a reserved word in version 1, then (start, title) pairs. */
+function parseChpl(view: DataView, start: number, end: number): Chapter[] {
+  let position = start;
+  const version = view.getUint8(position);
+  position += version === 1 ? 8 : 4;
+  const count = view.getUint8(position++);
+
+  const chapters: Chapter[] = [];
+  for (let index = 0; index < count && position + 9 <= end; index++) {
+    const time = Number(view.getBigUint64(position)) / NERO_TIME_UNITS_PER_SECOND;
+    const length = view.getUint8(position + 8);
+    position += 9;
+    const title = decodeText(view, position, Math.min(position + length, end));
+    position += length;
+    chapters.push({ title: title || `Chapter ${index + 1}`, start: time, end: null });
+  }
+  return chapters.sort((a, b) => a.start - b.start);
+}
+
+async function readElementHeader(file: Blob, position: number): Promise<ElementHeader | null> {
+  const view = new DataView(await file.slice(position, position + 12).arrayBuffer());
+  const id = readVint(view, 0, true);
+  if (!id) {
+    return null;
+  }
+  const size = readVint(view, id.length, false);
+  if (!size) {
+    return null;
+  }
+  return { id: id.value, size: size.unknown ? null : size.value, headerLength: id.length + size.length };
+}
+
+async function readBody(file: Blob, start: number, size: number): Promise<DataView> {
+  if (size > MAX_METADATA_BYTES) {
+    return new DataView(new ArrayBuffer(0));
+  }
+  return new DataView(await file.slice(start, start + size).arrayBuffer());
+}
+
+/** Child elements of an in-memory EBML master element. */
+function children(view: DataView, start: number, end: number): { id: number; start: number; end: number }[] {
+  const result: { id: number; start: number; end: number }[] = [];
+  let position = start;
+  while (position < end) {
+    const id = readVint(view, position, true);
+    const size = id ? readVint(view, position + id.length, false) : null;
+    if (!id || !size || size.unknown) {
+      break;
+    }
+    const bodyStart = position + id.length + size.length;
+    const bodyEnd = Math.min(bodyStart + size.value, end);
+    result.push({ id: id.value, start: bodyStart, end: bodyEnd });
+    position = bodyEnd;
+  }
+  return result;
+}
+
+/**
+ * EBML variable-length integer. IDs keep their length marker bit, sizes drop it; an all-ones size
+ * means "unknown".
+ */
+function readVint(
+  view: DataView,
+  position: number,
+  keepMarker: boolean
+): { value: number; length: number; unknown: boolean } | null {
+  if (position >= view.byteLength) {
+    return null;
+  }
+  const first = view.getUint8(position);
+  const length = first ? Math.clz32(first) - 23 : 0;
+  if (!length || length > 8 || position + length > view.byteLength) {
+    return null;
+  }
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let index = 1; index < length; index++) {
+    const byte = view.getUint8(position + index);
+    value = value * 256 + byte;
+    allOnes &&= byte === 0xff;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readUnsigned(view: DataView, start: number, end: number): number {
+  let value = 0;
+  for (let position = start; position < end; position++) {
+    value = value * 256 + view.getUint8(position);
+  }
+  return value;
+}
+
+function decodeText(view: DataView, start: number, end: number): string {
+  return new TextDecoder()
+    .decode(new Uint8Array(view.buffer, view.byteOffset + start, Math.max(end - start, 0)))
+    .replace(/\0+$/, '')
+    .trim();
+}
+
+function fourCc(view: DataView, position: number): string {
+  return String.fromCharCode(
+    view.getUint8(position),
+    view.getUint8(position + 1),
+    view.getUint8(position + 2),
+    view.getUint8(position + 3)
+  );
+}
@@ -0,0 +1,56 @@
+import { StreamTargetChunk } from 'mediabunny';
+
+interface PendingPatch {
+  position: number;
+  data: Uint8Array;
+}
+
+/**
+ * Collects Mediabunny output chunks as Blob parts instead of one growing ArrayBuffer, letting the browser
+ * page large outputs to disk. Writes that land before the current end (header fix-ups) are kept as patches
+ * and spliced in when the final Blob is assembled.
+ */
+export class ChunkedBlobSink {
+  readonly writable: WritableStream<StreamTargetChunk>;
+
+  private readonly parts: Blob[] = [];
+  private readonly patches: PendingPatch[] = [];
+  private size = 0;
+
+  constructor() {
+    this.writable = new WritableStream<StreamTargetChunk>({
+      write: (chunk) => this.write(chunk)
+    });
+  }
+
+  get byteLength(): number {
+    return this.size;
+  }
+
+  toBlob(type: string): Blob {
+    let blob = new Blob(this.parts, { type });
+    for (const { position, data } of this.patches) {
+      blob = new Blob([blob.slice(0, position), data, blob.slice(position + data.byteLength)], { type });
+    }
+    return blob;
+  }
+
+  private write({ data, position }: StreamTargetChunk): void {
+    if (position > this.size) {
+      this.append(new Uint8Array(position - this.size));
+    }
+
+    const overlap = Math.max(Math.min(this.size - position, data.byteLength), 0);
+    if (overlap > 0) {
+      this.patches.push({ position, data: data.slice(0, overlap) });
+    }
+    if (overlap < data.byteLength) {
+      this.append(data.subarray(overlap));
+    }
+  }
+
+  private append(data: Uint8Array): void {
+    this.parts.push(new Blob([data]));
+    this.size += data.byteLength;
+  }
+}
@@ -0,0 +1,87 @@
+import { CommonModule } from '@angular/common';
+import { Component, input, output } from '@angular/core';
+import { AudioProcessingOptions } from '../../mediabunny-conversion.service';
+
+interface LoudnessChoice {
+  value: number;
+  label: string;
+}
+
+const LOUDNESS_CHOICES: LoudnessChoice[] = [
+  { value: -14, label: '-14 LUFS · Music streaming' },
+  { value: -16, label: '-16 LUFS · Podcasts' },
+  { value: -19, label: '-19 LUFS · Mono speech' },
+  { value: -23, label: '-23 LUFS · Broadcast (EBU R128)' }
+];
+
+const DEFAULT_LOUDNESS_TARGET = -16;
+const DEFAULT_PEAK_LIMIT = -1;
+const DEFAULT_SILENCE_THRESHOLD = -50;
+
+@Component({
+  selector: 'app-audio-processing-settings',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './audio-processing-settings.component.html',
+  styleUrl: './audio-processing-settings.component.scss'
+})
+export class AudioProcessingSettingsComponent {
+  readonly options = input.required<AudioProcessingOptions>();
+  readonly disabled = input(false);
+  readonly optionsChange = output<AudioProcessingOptions>();
+
+  readonly loudnessChoices = LOUDNESS_CHOICES;
+
+  onNormalizeToggle(event: Event): void {
+    this.emit({ loudnessTarget: this.readChecked(event) ? DEFAULT_LOUDNESS_TARGET : undefined });
+  }
+
+  onLoudnessTargetChange(event: Event): void {
+    this.emit({ loudnessTarget: this.readNumber(event) });
+  }
+
+  onLimiterToggle(event: Event): void {
+    this.emit({ peakLimit: this.readChecked(event) ? DEFAULT_PEAK_LIMIT : undefined });
+  }
+
+  onPeakLimitChange(event: Event): void {
+    this.emit({ peakLimit: this.readNumber(event) });
+  }
+
+  onFadeChange(edge: 'fadeIn' | 'fadeOut', event: Event): void {
+    const value = this.readNumber(event);
+    this.emit({ [edge]: value && value > 0 ? value : undefined });
+  }
+
+  onSilenceToggle(event: Event): void {
+    this.emit({ silenceThreshold: this.readChecked(event) ? DEFAULT_SILENCE_THRESHOLD : undefined });
+  }
+
+  onSilenceThresholdChange(event: Event): void {
+    this.emit({ silenceThreshold: this.readNumber(event) });
+  }
+
+  reset(): void {
+    this.optionsChange.emit({});
+  }
+
+  private readChecked(event: Event): boolean {
+    return Boolean((event.target as HTMLInputElement | null)?.checked);
+  }
+
+  private readNumber(event: Event): number | undefined {
+    const value = (event.target as HTMLInputElement | HTMLSelectElement | null)?.value ?? '';
+    const parsed = Number(value);
+    return value === '' || !Number.isFinite(parsed) ? undefined : parsed;
+  }
+
+  private emit(changes: AudioProcessingOptions): void {
+    const next: AudioProcessingOptions = { ...this.options(), ...changes };
+    for (const key of Object.keys(next) as (keyof AudioProcessingOptions)[]) {
+      if (next[key] === undefined) {
+        delete next[key];
+      }
+    }
+    this.optionsChange.emit(next);
+  }
+}
@@ -0,0 +1,97 @@
+import { CommonModule } from '@angular/common';
+import { Component, computed, input, output, signal } from '@angular/core';
+import { ConversionHistoryService, HistoryEntry } from '../../conversion-history.service';
+import { AUDIO_OUTPUT_OPTIONS } from '../../mediabunny-conversion.service';
+import { formatTimecode } from '../../timecode';
+
+const BYTES_PER_MB = 1024 * 1024;
+
+@Component({
+  selector: 'app-conversion-history',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './conversion-history.component.html',
+  styleUrl: './conversion-history.component.scss'
+})
+export class ConversionHistoryComponent {
+  readonly disabled = input(false);
+  /** Starts expanded, for the history page where the list is the whole point. */
+  readonly open = input(false);
+  /** Asks the converter to load the entry's format and settings and run it again. */
+  readonly rerun = output<HistoryEntry>();
+
+  readonly problem = signal<string | null>(null);
+  readonly quotaMegabytes = computed(() => Math.round(this.history.quotaBytes() / BYTES_PER_MB));
+  readonly usage = computed(
+    () => `${this.formatBytes(this.history.usedBytes())} of ${this.quotaMegabytes()} MB used by saved files`
+  );
+
+  constructor(readonly history: ConversionHistoryService) {}
+
+  describe(entry: HistoryEntry): string {
+    const parts = [AUDIO_OUTPUT_OPTIONS.find((option) => option.id === entry.formatId)?.label ?? entry.formatId];
+    if (entry.settings.encoder?.bitrate) {
+      parts.push(`${entry.settings.encoder.bitrate / 1000} kbps`);
+    }
+    parts.push(this.formatBytes(entry.size));
+    if (entry.duration) {
+      parts.push(formatTimecode(entry.duration));
+    }
+    parts.push(new Date(entry.createdAt).toLocaleString());
+    return parts.join(' · ');
+  }
+
+  async download(entry: HistoryEntry): Promise<void> {
+    this.problem.set(null);
+    try {
+      const blob = await this.history.getOutput(entry.id);
+      if (!blob) {
+        this.problem.set(`The file for "${entry.fileName}" is no longer stored. Re-run the conversion instead.`);
+        return;
+      }
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = entry.fileName;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url));
+    } catch (error: unknown) {
+      this.problem.set(error instanceof Error ? error.message : 'Unable to read the stored file.');
+    }
+  }
+
+  async remove(entry: HistoryEntry): Promise<void> {
+    await this.run(() => this.history.remove(entry.id));
+  }
+
+  async clear(): Promise<void> {
+    await this.run(() => this.history.clear());
+  }
+
+  async onQuotaChange(event: Event): Promise<void> {
+    const value = Number((event.target as HTMLInputElement | null)?.value);
+    if (Number.isFinite(value) && value >= 0) {
+      await this.run(() => this.history.setQuota(value * BYTES_PER_MB));
+    }
+  }
+
+  trackById(_: number, entry: HistoryEntry): string {
+    return entry.id;
+  }
+
+  private async run(task: () => Promise<void>): Promise<void> {
+    this.problem.set(null);
+    try {
+      await task();
+    } catch (error: unknown) {
+      this.problem.set(error instanceof Error ? error.message : 'Unable to update the history.');
+    }
+  }
+
+  private formatBytes(bytes: number): string {
+    if (bytes < BYTES_PER_MB) {
+      return `${Math.ceil(bytes / 1024)} KB`;
+    }
+    return `${(bytes / BYTES_PER_MB).toFixed(1)} MB`;
+  }
+}
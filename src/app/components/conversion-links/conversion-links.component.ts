@@ -0,0 +1,18 @@
+import { CommonModule } from '@angular/common';
+import { Component, computed, input } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { CONVERSION_PAGES } from '../../site-pages';
+
+@Component({
+  selector: 'app-conversion-links',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: './conversion-links.component.html',
+  styleUrl: './conversion-links.component.scss'
+})
+export class ConversionLinksComponent {
+  /** Slug of the page showing the list, which is left out of it. */
+  readonly current = input<string | null>(null);
+
+  readonly pages = computed(() => CONVERSION_PAGES.filter((page) => page.slug !== this.current()));
+}
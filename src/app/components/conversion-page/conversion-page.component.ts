@@ -0,0 +1,27 @@
+import { CommonModule } from '@angular/common';
+import { Component, computed, effect, input } from '@angular/core';
+import { PageMetaService } from '../../page-meta.service';
+import { HOME_PAGE, findConversionPage } from '../../site-pages';
+import { ConversionLinksComponent } from '../conversion-links/conversion-links.component';
+import { FaqSectionComponent } from '../faq-section/faq-section.component';
+import { HeroSectionComponent } from '../hero-section/hero-section.component';
+import { StepsSectionComponent } from '../steps-section/steps-section.component';
+
+/** `/convert/:conversion`; the route only matches known slugs, so `page()` is always found. */
+@Component({
+  selector: 'app-conversion-page',
+  standalone: true,
+  imports: [CommonModule, HeroSectionComponent, StepsSectionComponent, ConversionLinksComponent, FaqSectionComponent],
+  templateUrl: './conversion-page.component.html',
+  styleUrl: './conversion-page.component.scss'
+})
+export class ConversionPageComponent {
+  /** Bound from the route parameter. */
+  readonly conversion = input.required<string>();
+
+  readonly page = computed(() => findConversionPage(this.conversion()));
+
+  constructor(meta: PageMetaService) {
+    effect(() => meta.apply(this.page() ?? HOME_PAGE));
+  }
+}
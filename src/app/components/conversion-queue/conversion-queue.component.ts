@@ -0,0 +1,57 @@
+import { CommonModule } from '@angular/common';
+import { Component } from '@angular/core';
+import {
+  ConversionQueueItem,
+  ConversionQueueService,
+  ConversionQueueStatus,
+  MAX_QUEUE_CONCURRENCY
+} from '../../conversion-queue.service';
+import { AUDIO_OUTPUT_OPTIONS } from '../../mediabunny-conversion.service';
+
+const STATUS_LABELS: Record<ConversionQueueStatus, string> = {
+  pending: 'Waiting',
+  converting: 'Converting',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+@Component({
+  selector: 'app-conversion-queue',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './conversion-queue.component.html',
+  styleUrl: './conversion-queue.component.scss'
+})
+export class ConversionQueueComponent {
+  readonly concurrencyChoices = Array.from({ length: MAX_QUEUE_CONCURRENCY }, (_, index) => index + 1);
+
+  constructor(readonly queue: ConversionQueueService) {}
+
+  onConcurrencyChange(event: Event): void {
+    const select = event.target as HTMLSelectElement | null;
+    if (select) {
+      this.queue.setConcurrency(Number(select.value));
+    }
+  }
+
+  statusLabel(item: ConversionQueueItem): string {
+    return STATUS_LABELS[item.status];
+  }
+
+  formatLabel(item: ConversionQueueItem): string {
+    return AUDIO_OUTPUT_OPTIONS.find((option) => option.id === item.formatId)?.label ?? item.formatId;
+  }
+
+  canRetry(item: ConversionQueueItem): boolean {
+    return item.status === 'failed' || item.status === 'cancelled';
+  }
+
+  canCancel(item: ConversionQueueItem): boolean {
+    return item.status === 'pending' || item.status === 'converting';
+  }
+
+  trackById(_: number, item: ConversionQueueItem): string {
+    return item.id;
+  }
+}
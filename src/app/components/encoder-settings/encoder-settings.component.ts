@@ -0,0 +1,116 @@
+import { CommonModule } from '@angular/common';
+import { Component, computed, input, output } from '@angular/core';
+import {
+  ENCODER_QUALITY_PRESETS,
+  EncoderCapabilities,
+  EncoderQualityPreset,
+  EncoderSettings,
+  WavBitDepth
+} from '../../mediabunny-conversion.service';
+
+interface SelectChoice {
+  value: string;
+  label: string;
+}
+
+const SOURCE_VALUE = 'source';
+
+@Component({
+  selector: 'app-encoder-settings',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './encoder-settings.component.html',
+  styleUrl: './encoder-settings.component.scss'
+})
+export class EncoderSettingsComponent {
+  readonly capabilities = input.required<EncoderCapabilities>();
+  readonly settings = input.required<EncoderSettings>();
+  readonly disabled = input(false);
+  readonly problem = input<string | null>(null);
+  readonly settingsChange = output<EncoderSettings>();
+
+  readonly bitrateChoices = computed<SelectChoice[]>(() => {
+    const capabilities = this.capabilities();
+    const presets = capabilities.qualityPresets
+      ? ENCODER_QUALITY_PRESETS.map((preset) => ({ value: `quality:${preset.id}`, label: `Quality · ${preset.label}` }))
+      : [];
+    return [
+      ...capabilities.bitrates.map((rate) => ({ value: `cbr:${rate}`, label: `${rate / 1000} kbps CBR` })),
+      ...presets
+    ];
+  });
+  readonly bitrateValue = computed(() => {
+    const settings = this.effective();
+    return settings.quality ? `quality:${settings.quality}` : `cbr:${settings.bitrate ?? ''}`;
+  });
+
+  readonly sampleRateChoices = computed<SelectChoice[]>(() =>
+    this.withSourceChoice(
+      this.capabilities().defaults.sampleRate,
+      this.capabilities().sampleRates.map((rate) => ({ value: String(rate), label: `${rate / 1000} kHz` }))
+    )
+  );
+  readonly channelChoices = computed<SelectChoice[]>(() =>
+    this.withSourceChoice(
+      this.capabilities().defaults.numberOfChannels,
+      this.capabilities().channelCounts.map((count) => ({
+        value: String(count),
+        label: count === 1 ? 'Mono (voice)' : count === 2 ? 'Stereo' : `${count} channels`
+      }))
+    )
+  );
+
+  readonly effective = computed<EncoderSettings>(() => ({ ...this.capabilities().defaults, ...this.settings() }));
+
+  valueOf(value: number | undefined): string {
+    return value === undefined ? SOURCE_VALUE : String(value);
+  }
+
+  onBitrateChange(event: Event): void {
+    const [mode, value] = this.readSelect(event).split(':');
+    if (mode === 'quality') {
+      this.emit({ quality: value as EncoderQualityPreset, bitrate: undefined });
+    } else {
+      this.emit({ quality: undefined, bitrate: Number(value) });
+    }
+  }
+
+  onSampleRateChange(event: Event): void {
+    this.emit({ sampleRate: this.readNumber(event) });
+  }
+
+  onChannelsChange(event: Event): void {
+    this.emit({ numberOfChannels: this.readNumber(event) });
+  }
+
+  onBitDepthChange(event: Event): void {
+    this.emit({ bitDepth: this.readNumber(event) as WavBitDepth | undefined });
+  }
+
+  reset(): void {
+    this.settingsChange.emit({});
+  }
+
+  private withSourceChoice(defaultValue: number | undefined, choices: SelectChoice[]): SelectChoice[] {
+    return defaultValue === undefined ? [{ value: SOURCE_VALUE, label: 'Match source' }, ...choices] : choices;
+  }
+
+  private readSelect(event: Event): string {
+    return (event.target as HTMLSelectElement | null)?.value ?? '';
+  }
+
+  private readNumber(event: Event): number | undefined {
+    const value = this.readSelect(event);
+    return value === SOURCE_VALUE || value === '' ? undefined : Number(value);
+  }
+
+  private emit(changes: EncoderSettings): void {
+    const next: EncoderSettings = { ...this.settings(), ...changes };
+    for (const key of Object.keys(next) as (keyof EncoderSettings)[]) {
+      if (next[key] === undefined) {
+        delete next[key];
+      }
+    }
+    this.settingsChange.emit(next);
+  }
+}
@@ -1,5 +1,7 @@
 import { CommonModule } from '@angular/common';
-import { Component } from '@angular/core';
+import { Component, input } from '@angular/core';
+import { AudioOutputFormatId } from '../../mediabunny-conversion.service';
+import { HOME_PAGE } from '../../site-pages';
 import { VideoToAudioConverterComponent } from '../video-to-audio-converter/video-to-audio-converter.component';
 
 @Component({
@@ -9,4 +11,11 @@ import { VideoToAudioConverterComponent } from '../video-to-audio-converter/vide
   templateUrl: './hero-section.component.html',
   styleUrl: './hero-section.component.scss'
 })
-export class HeroSectionComponent {}
+export class HeroSectionComponent {
+  readonly eyebrow = input('In-browser audio extraction');
+  readonly heading = input(HOME_PAGE.heading);
+  /** Replaces the general pitch on landing pages for a single conversion. */
+  readonly lead = input<string | null>(null);
+  /** Output format the converter starts with. */
+  readonly formatId = input<AudioOutputFormatId | null>(null);
+}
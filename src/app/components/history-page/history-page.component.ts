@@ -0,0 +1,30 @@
+import { Component } from '@angular/core';
+import { Router } from '@angular/router';
+import { HistoryEntry } from '../../conversion-history.service';
+import { PageMetaService } from '../../page-meta.service';
+import { HISTORY_PAGE } from '../../site-pages';
+import { ConversionHistoryComponent } from '../conversion-history/conversion-history.component';
+import { FaqSectionComponent } from '../faq-section/faq-section.component';
+
+@Component({
+  selector: 'app-history-page',
+  standalone: true,
+  imports: [ConversionHistoryComponent, FaqSectionComponent],
+  templateUrl: './history-page.component.html',
+  styleUrl: './history-page.component.scss'
+})
+export class HistoryPageComponent {
+  readonly page = HISTORY_PAGE;
+
+  constructor(
+    meta: PageMetaService,
+    private readonly router: Router
+  ) {
+    meta.apply(this.page);
+  }
+
+  /** The converter lives on the home page; it picks the entry up from the navigation state. */
+  onRerun(entry: HistoryEntry): void {
+    void this.router.navigateByUrl('/', { state: { rerun: entry.id } });
+  }
+}
@@ -0,0 +1,29 @@
+import { Component } from '@angular/core';
+import { PageMetaService } from '../../page-meta.service';
+import { HOME_PAGE } from '../../site-pages';
+import { ConversionLinksComponent } from '../conversion-links/conversion-links.component';
+import { FaqSectionComponent } from '../faq-section/faq-section.component';
+import { FeatureHighlightsComponent } from '../feature-highlights/feature-highlights.component';
+import { HeroSectionComponent } from '../hero-section/hero-section.component';
+import { StepsSectionComponent } from '../steps-section/steps-section.component';
+
+@Component({
+  selector: 'app-home-page',
+  standalone: true,
+  imports: [
+    HeroSectionComponent,
+    StepsSectionComponent,
+    FeatureHighlightsComponent,
+    ConversionLinksComponent,
+    FaqSectionComponent
+  ],
+  templateUrl: './home-page.component.html',
+  styleUrl: './home-page.component.scss'
+})
+export class HomePageComponent {
+  readonly page = HOME_PAGE;
+
+  constructor(meta: PageMetaService) {
+    meta.apply(this.page);
+  }
+}
@@ -0,0 +1,72 @@
+import { CommonModule } from '@angular/common';
+import { Component, input, output } from '@angular/core';
+import { ConcatenationOptions } from '../../mediabunny-conversion.service';
+
+const DEFAULT_GAP_THRESHOLD = -50;
+
+@Component({
+  selector: 'app-join-settings',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './join-settings.component.html',
+  styleUrl: './join-settings.component.scss'
+})
+export class JoinSettingsComponent {
+  /** Files to join, in order, or null when dropped files are converted one by one. */
+  readonly files = input.required<File[] | null>();
+  readonly options = input.required<ConcatenationOptions>();
+  readonly disabled = input(false);
+  readonly filesChange = output<File[] | null>();
+  readonly optionsChange = output<ConcatenationOptions>();
+
+  onJoinToggle(event: Event): void {
+    this.filesChange.emit(this.readChecked(event) ? [] : null);
+  }
+
+  move(index: number, offset: -1 | 1): void {
+    const files = [...(this.files() ?? [])];
+    const target = index + offset;
+    if (target < 0 || target >= files.length) {
+      return;
+    }
+    [files[index], files[target]] = [files[target], files[index]];
+    this.filesChange.emit(files);
+  }
+
+  remove(index: number): void {
+    this.filesChange.emit((this.files() ?? []).filter((_, position) => position !== index));
+  }
+
+  onCrossfadeChange(event: Event): void {
+    const seconds = this.readNumber(event);
+    this.emit({ crossfade: seconds && seconds > 0 ? seconds : undefined });
+  }
+
+  onGapToggle(event: Event): void {
+    this.emit({ gapThreshold: this.readChecked(event) ? DEFAULT_GAP_THRESHOLD : undefined });
+  }
+
+  onGapThresholdChange(event: Event): void {
+    this.emit({ gapThreshold: this.readNumber(event) });
+  }
+
+  private readChecked(event: Event): boolean {
+    return Boolean((event.target as HTMLInputElement | null)?.checked);
+  }
+
+  private readNumber(event: Event): number | undefined {
+    const value = (event.target as HTMLInputElement | null)?.value ?? '';
+    const parsed = Number(value);
+    return value === '' || !Number.isFinite(parsed) ? undefined : parsed;
+  }
+
+  private emit(changes: ConcatenationOptions): void {
+    const next: ConcatenationOptions = { ...this.options(), ...changes };
+    for (const key of Object.keys(next) as (keyof ConcatenationOptions)[]) {
+      if (next[key] === undefined) {
+        delete next[key];
+      }
+    }
+    this.optionsChange.emit(next);
+  }
+}
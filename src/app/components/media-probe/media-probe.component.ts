@@ -0,0 +1,46 @@
+import { CommonModule } from '@angular/common';
+import { Component, input } from '@angular/core';
+import { MediaProbe, ProbedTrack } from '../../mediabunny-conversion.service';
+import { formatTimecode } from '../../timecode';
+
+@Component({
+  selector: 'app-media-probe',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './media-probe.component.html',
+  styleUrl: './media-probe.component.scss'
+})
+export class MediaProbeComponent {
+  readonly probe = input<MediaProbe | null>(null);
+  readonly loading = input(false);
+  readonly error = input<string | null>(null);
+
+  formatDuration(seconds: number): string {
+    return formatTimecode(seconds, true);
+  }
+
+  describeTrack(track: ProbedTrack): string {
+    const details: string[] = [];
+    if (track.type === 'audio') {
+      if (track.sampleRate) {
+        details.push(`${(track.sampleRate / 1000).toFixed(1)} kHz`);
+      }
+      if (track.numberOfChannels) {
+        details.push(track.numberOfChannels === 1 ? 'mono' : track.numberOfChannels === 2 ? 'stereo' : `${track.numberOfChannels} ch`);
+      }
+    } else if (track.type === 'video' && track.width && track.height) {
+      details.push(`${track.width}×${track.height}`);
+    }
+    if (track.bitrate) {
+      details.push(`${Math.round(track.bitrate / 1000)} kbps`);
+    }
+    return details.join(' · ');
+  }
+
+  trackLabel(track: ProbedTrack): string {
+    const language = track.languageCode && track.languageCode !== 'und' ? ` [${track.languageCode}]` : '';
+    const name = track.name ? ` “${track.name}”` : '';
+    const type = track.type.charAt(0).toUpperCase() + track.type.slice(1);
+    return `${type} #${track.number}${language}${name}`;
+  }
+}
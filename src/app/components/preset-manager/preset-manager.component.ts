@@ -0,0 +1,123 @@
+import { CommonModule } from '@angular/common';
+import { Component, computed, input, output, signal } from '@angular/core';
+import { ConversionPreset, ConversionPresetsService } from '../../conversion-presets.service';
+import {
+  AUDIO_OUTPUT_OPTIONS,
+  AudioOutputFormatId,
+  ENCODER_QUALITY_PRESETS,
+  EncoderSettings
+} from '../../mediabunny-conversion.service';
+
+const EXPORT_FILE_NAME = 'audio-conventor-presets.json';
+
+@Component({
+  selector: 'app-preset-manager',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './preset-manager.component.html',
+  styleUrl: './preset-manager.component.scss'
+})
+export class PresetManagerComponent {
+  readonly formatId = input.required<AudioOutputFormatId>();
+  readonly encoder = input.required<EncoderSettings>();
+  readonly disabled = input(false);
+  readonly open = input(false);
+  /** Fires with the preset that was just saved, so the converter can select it. */
+  readonly saved = output<ConversionPreset>();
+
+  readonly name = signal('');
+  readonly message = signal<string | null>(null);
+  readonly problem = signal<string | null>(null);
+  readonly suggestedName = computed(() => describePreset(this.formatId(), this.encoder()));
+
+  constructor(readonly presets: ConversionPresetsService) {}
+
+  describe(preset: ConversionPreset): string {
+    return describePreset(preset.formatId, preset.encoder);
+  }
+
+  onNameInput(event: Event): void {
+    this.name.set((event.target as HTMLInputElement | null)?.value ?? '');
+  }
+
+  save(event: Event): void {
+    event.preventDefault();
+    this.clearMessages();
+    try {
+      const preset = this.presets.save(this.name() || this.suggestedName(), this.formatId(), this.encoder());
+      this.name.set('');
+      this.message.set(`Saved "${preset.name}".`);
+      this.saved.emit(preset);
+    } catch (error: unknown) {
+      this.problem.set(error instanceof Error ? error.message : 'Unable to save the preset.');
+    }
+  }
+
+  remove(preset: ConversionPreset): void {
+    this.clearMessages();
+    this.presets.remove(preset.id);
+    this.message.set(`Deleted "${preset.name}".`);
+  }
+
+  exportPresets(): void {
+    this.clearMessages();
+    const url = URL.createObjectURL(new Blob([this.presets.exportJson()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = EXPORT_FILE_NAME;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+
+  async onImport(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement | null;
+    const file = input?.files?.[0];
+    if (input) {
+      input.value = '';
+    }
+    if (!file) {
+      return;
+    }
+
+    this.clearMessages();
+    try {
+      const summary = this.presets.importJson(await file.text());
+      const imported = summary.added + summary.replaced;
+      this.message.set(
+        `Imported ${imported} preset${imported === 1 ? '' : 's'}` +
+          (summary.replaced ? ` (${summary.replaced} replaced an existing one)` : '') +
+          '.'
+      );
+      if (summary.skipped.length) {
+        this.problem.set(`Skipped ${summary.skipped.join('; ')}.`);
+      }
+    } catch (error: unknown) {
+      this.problem.set(error instanceof Error ? error.message : 'Unable to import presets.');
+    }
+  }
+
+  private clearMessages(): void {
+    this.message.set(null);
+    this.problem.set(null);
+  }
+}
+
+/** Short summary like "MP3 · 64 kbps · Mono", also used as the default preset name. */
+function describePreset(formatId: AudioOutputFormatId, encoder: EncoderSettings): string {
+  const parts = [AUDIO_OUTPUT_OPTIONS.find((option) => option.id === formatId)?.label ?? formatId];
+  if (encoder.quality) {
+    parts.push(`${ENCODER_QUALITY_PRESETS.find((preset) => preset.id === encoder.quality)?.label ?? encoder.quality} quality`);
+  } else if (encoder.bitrate) {
+    parts.push(`${encoder.bitrate / 1000} kbps`);
+  }
+  if (encoder.sampleRate) {
+    parts.push(`${encoder.sampleRate / 1000} kHz`);
+  }
+  if (encoder.numberOfChannels) {
+    parts.push(encoder.numberOfChannels === 1 ? 'Mono' : encoder.numberOfChannels === 2 ? 'Stereo' : `${encoder.numberOfChannels} ch`);
+  }
+  if (encoder.bitDepth) {
+    parts.push(`${encoder.bitDepth}-bit`);
+  }
+  return parts.join(' · ');
+}
@@ -0,0 +1,40 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnInit, signal } from '@angular/core';
+import { ConversionPresetsService } from '../../conversion-presets.service';
+import { AudioOutputOption, MediabunnyConversionService } from '../../mediabunny-conversion.service';
+import { PageMetaService } from '../../page-meta.service';
+import { SETTINGS_PAGE } from '../../site-pages';
+import { FaqSectionComponent } from '../faq-section/faq-section.component';
+import { PresetManagerComponent } from '../preset-manager/preset-manager.component';
+
+@Component({
+  selector: 'app-settings-page',
+  standalone: true,
+  imports: [CommonModule, PresetManagerComponent, FaqSectionComponent],
+  templateUrl: './settings-page.component.html',
+  styleUrl: './settings-page.component.scss'
+})
+export class SettingsPageComponent implements OnInit {
+  readonly page = SETTINGS_PAGE;
+  readonly formatOptions = signal<AudioOutputOption[]>([]);
+
+  constructor(
+    meta: PageMetaService,
+    readonly presets: ConversionPresetsService,
+    private readonly conversionService: MediabunnyConversionService
+  ) {
+    meta.apply(this.page);
+  }
+
+  async ngOnInit(): Promise<void> {
+    this.formatOptions.set(await this.conversionService.getFormatOptionsWithSupport());
+  }
+
+  onDefaultFormatChange(event: Event): void {
+    const value = (event.target as HTMLSelectElement | null)?.value;
+    const option = this.formatOptions().find((candidate) => candidate.id === value);
+    if (option?.supported) {
+      this.presets.setDefaultFormat(option.id);
+    }
+  }
+}
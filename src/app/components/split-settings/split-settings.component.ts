@@ -0,0 +1,74 @@
+import { CommonModule } from '@angular/common';
+import { Component, input, output } from '@angular/core';
+import {
+  DEFAULT_MIN_SILENCE,
+  DEFAULT_SEGMENT_LENGTH,
+  DEFAULT_SPLIT_SILENCE_THRESHOLD,
+  SplitMode,
+  SplitOptions
+} from '../../mediabunny-conversion.service';
+
+const NO_SPLIT = 'none';
+
+@Component({
+  selector: 'app-split-settings',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './split-settings.component.html',
+  styleUrl: './split-settings.component.scss'
+})
+export class SplitSettingsComponent {
+  /** Current split, or null to export a single file. */
+  readonly options = input.required<SplitOptions | null>();
+  readonly chapterCount = input(0);
+  readonly disabled = input(false);
+  readonly optionsChange = output<SplitOptions | null>();
+
+  readonly noSplit = NO_SPLIT;
+
+  segmentMinutes(): number {
+    return (this.options()?.segmentLength ?? DEFAULT_SEGMENT_LENGTH) / 60;
+  }
+
+  silenceThreshold(): number {
+    return this.options()?.silenceThreshold ?? DEFAULT_SPLIT_SILENCE_THRESHOLD;
+  }
+
+  minSilence(): number {
+    return this.options()?.minSilence ?? DEFAULT_MIN_SILENCE;
+  }
+
+  onModeChange(event: Event): void {
+    const value = (event.target as HTMLSelectElement | null)?.value ?? NO_SPLIT;
+    this.optionsChange.emit(value === NO_SPLIT ? null : { ...this.options(), mode: value as SplitMode });
+  }
+
+  onSegmentMinutesChange(event: Event): void {
+    const minutes = this.readNumber(event);
+    if (minutes !== undefined && minutes > 0) {
+      this.emit({ segmentLength: minutes * 60 });
+    }
+  }
+
+  onSilenceThresholdChange(event: Event): void {
+    this.emit({ silenceThreshold: this.readNumber(event) });
+  }
+
+  onMinSilenceChange(event: Event): void {
+    const seconds = this.readNumber(event);
+    this.emit({ minSilence: seconds !== undefined && seconds > 0 ? seconds : undefined });
+  }
+
+  private readNumber(event: Event): number | undefined {
+    const value = (event.target as HTMLInputElement | null)?.value ?? '';
+    const parsed = Number(value);
+    return value === '' || !Number.isFinite(parsed) ? undefined : parsed;
+  }
+
+  private emit(changes: Partial<SplitOptions>): void {
+    const current = this.options();
+    if (current) {
+      this.optionsChange.emit({ ...current, ...changes });
+    }
+  }
+}
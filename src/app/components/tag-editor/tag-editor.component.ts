@@ -0,0 +1,133 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnDestroy, computed, effect, input, output, signal } from '@angular/core';
+import { DomSanitizer, SafeUrl } from '@angular/platform-browser';
+import { AudioTags, CoverImage, TagSupport } from '../../mediabunny-conversion.service';
+
+type TextTagKey = 'title' | 'artist' | 'album' | 'comment';
+type NumberTagKey = 'trackNumber' | 'year';
+
+/** Largest cover image accepted from disk; big scans bloat every exported file. */
+const MAX_COVER_BYTES = 5 * 1024 * 1024;
+
+@Component({
+  selector: 'app-tag-editor',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './tag-editor.component.html',
+  styleUrl: './tag-editor.component.scss'
+})
+export class TagEditorComponent implements OnDestroy {
+  readonly tags = input.required<AudioTags>();
+  /** Tags found in the source, shown as placeholders while they are carried over. */
+  readonly sourceTags = input<AudioTags | null>(null);
+  readonly keepSourceTags = input(true);
+  readonly support = input<TagSupport | null>(null);
+  readonly canCaptureFrame = input(false);
+  readonly capturing = input(false);
+  readonly disabled = input(false);
+  readonly tagsChange = output<AudioTags>();
+  readonly keepSourceTagsChange = output<boolean>();
+  /** Asks the parent to grab a video frame as cover art. */
+  readonly captureCover = output<void>();
+
+  readonly coverError = signal<string | null>(null);
+  readonly placeholders = computed<AudioTags>(() => (this.keepSourceTags() ? this.sourceTags() ?? {} : {}));
+  readonly effectiveCover = computed<CoverImage | null>(() => {
+    const cover = this.tags().cover;
+    return cover !== undefined ? cover : this.placeholders().cover ?? null;
+  });
+  readonly coverFromSource = computed(() => this.tags().cover === undefined && Boolean(this.effectiveCover()));
+  readonly coverUrl = signal<SafeUrl | null>(null);
+
+  private objectUrl: string | null = null;
+
+  constructor(private readonly sanitizer: DomSanitizer) {
+    effect(() => {
+      const cover = this.effectiveCover();
+      this.releaseCoverUrl();
+      if (cover) {
+        this.objectUrl = URL.createObjectURL(new Blob([cover.data], { type: cover.mimeType }));
+        this.coverUrl.set(this.sanitizer.bypassSecurityTrustUrl(this.objectUrl));
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.releaseCoverUrl();
+  }
+
+  textValue(key: TextTagKey): string {
+    return this.tags()[key] ?? '';
+  }
+
+  numberValue(key: NumberTagKey): string {
+    const value = this.tags()[key];
+    return value === undefined ? '' : String(value);
+  }
+
+  onTextChange(key: TextTagKey, event: Event): void {
+    const value = (event.target as HTMLInputElement | HTMLTextAreaElement | null)?.value ?? '';
+    this.emit({ [key]: value === '' ? undefined : value });
+  }
+
+  onNumberChange(key: NumberTagKey, event: Event): void {
+    const value = (event.target as HTMLInputElement | null)?.value ?? '';
+    const parsed = Math.round(Number(value));
+    this.emit({ [key]: value === '' || !Number.isFinite(parsed) ? undefined : parsed });
+  }
+
+  onKeepSourceTagsChange(event: Event): void {
+    this.keepSourceTagsChange.emit(Boolean((event.target as HTMLInputElement | null)?.checked));
+  }
+
+  async onCoverSelected(event: Event): Promise<void> {
+    const field = event.target as HTMLInputElement | null;
+    const file = field?.files?.[0];
+    if (field) {
+      field.value = '';
+    }
+    if (!file) {
+      return;
+    }
+
+    if (!file.type.startsWith('image/')) {
+      this.coverError.set('Cover art has to be an image (JPEG or PNG).');
+      return;
+    }
+    if (file.size > MAX_COVER_BYTES) {
+      this.coverError.set('That image is larger than 5 MB. Pick a smaller cover.');
+      return;
+    }
+
+    this.coverError.set(null);
+    this.emit({ cover: { data: new Uint8Array(await file.arrayBuffer()), mimeType: file.type } });
+  }
+
+  removeCover(): void {
+    this.coverError.set(null);
+    this.emit({ cover: null });
+  }
+
+  reset(): void {
+    this.coverError.set(null);
+    this.tagsChange.emit({});
+  }
+
+  private emit(changes: AudioTags): void {
+    const next: AudioTags = { ...this.tags(), ...changes };
+    for (const key of Object.keys(next) as (keyof AudioTags)[]) {
+      if (next[key] === undefined) {
+        delete next[key];
+      }
+    }
+    this.tagsChange.emit(next);
+  }
+
+  private releaseCoverUrl(): void {
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+    this.coverUrl.set(null);
+  }
+}
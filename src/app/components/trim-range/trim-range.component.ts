@@ -0,0 +1,72 @@
+import { CommonModule } from '@angular/common';
+import { Component, computed, input, output } from '@angular/core';
+import { TrimRange } from '../../mediabunny-conversion.service';
+import { formatTimecode, parseTimecode } from '../../timecode';
+
+/** Smallest range the selector allows, so start and end never collapse onto each other. */
+const MIN_RANGE_SECONDS = 0.1;
+
+@Component({
+  selector: 'app-trim-range',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './trim-range.component.html',
+  styleUrl: './trim-range.component.scss'
+})
+export class TrimRangeComponent {
+  readonly duration = input.required<number>();
+  readonly range = input.required<TrimRange>();
+  readonly disabled = input(false);
+  readonly rangeChange = output<TrimRange>();
+
+  readonly selectionStyle = computed(() => {
+    const duration = this.duration() || 1;
+    const { start, end } = this.range();
+    return {
+      left: `${(start / duration) * 100}%`,
+      width: `${((end - start) / duration) * 100}%`
+    };
+  });
+  readonly selectedLength = computed(() => formatTimecode(this.range().end - this.range().start, true));
+  readonly step = computed(() => (this.duration() > 600 ? 1 : MIN_RANGE_SECONDS));
+
+  formatTime(seconds: number): string {
+    return formatTimecode(seconds, true);
+  }
+
+  onSliderInput(edge: keyof TrimRange, event: Event): void {
+    const value = Number((event.target as HTMLInputElement | null)?.value);
+    if (Number.isFinite(value)) {
+      this.emitEdge(edge, value);
+    }
+  }
+
+  onTimecodeChange(edge: keyof TrimRange, event: Event): void {
+    const field = event.target as HTMLInputElement | null;
+    if (!field) {
+      return;
+    }
+
+    const value = parseTimecode(field.value);
+    if (value === null) {
+      field.value = this.formatTime(this.range()[edge]);
+      return;
+    }
+    field.value = this.formatTime(this.emitEdge(edge, value)[edge]);
+  }
+
+  reset(): void {
+    this.rangeChange.emit({ start: 0, end: this.duration() });
+  }
+
+  private emitEdge(edge: keyof TrimRange, value: number): TrimRange {
+    const duration = this.duration();
+    const current = this.range();
+    const next =
+      edge === 'start'
+        ? { start: Math.min(Math.max(value, 0), current.end - MIN_RANGE_SECONDS), end: current.end }
+        : { start: current.start, end: Math.max(Math.min(value, duration), current.start + MIN_RANGE_SECONDS) };
+    this.rangeChange.emit(next);
+    return next;
+  }
+}
@@ -0,0 +1,126 @@
+import { CommonModule } from '@angular/common';
+import { Component, computed, input, output } from '@angular/core';
+import {
+  AudioReplacement,
+  VIDEO_CONTAINER_OPTIONS,
+  VIDEO_MODE_OPTIONS,
+  VideoContainerId,
+  VideoConversionMode,
+  VideoConversionOptions
+} from '../../mediabunny-conversion.service';
+
+const EXTRACT_AUDIO = 'audio';
+const DEFAULT_CONTAINER: VideoContainerId = 'mp4';
+/** Modes that run the audio through an encoder, so the container's audio codec must be encodable. */
+const ENCODING_MODES: VideoConversionMode[] = ['transcode-audio', 'replace-audio'];
+
+@Component({
+  selector: 'app-video-mode-settings',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './video-mode-settings.component.html',
+  styleUrl: './video-mode-settings.component.scss'
+})
+export class VideoModeSettingsComponent {
+  /** Current video job, or null to extract audio. */
+  readonly options = input.required<VideoConversionOptions | null>();
+  /** Containers whose audio codec this browser can encode, for the modes that encode audio. */
+  readonly reencodableContainers = input<VideoContainerId[]>([]);
+  /** False once the selected file turned out to be audio only. */
+  readonly hasVideo = input(true);
+  readonly disabled = input(false);
+  readonly optionsChange = output<VideoConversionOptions | null>();
+
+  readonly extractAudio = EXTRACT_AUDIO;
+  readonly modes = VIDEO_MODE_OPTIONS;
+  readonly containers = VIDEO_CONTAINER_OPTIONS;
+  readonly container = computed(
+    () => this.containers.find((option) => option.id === this.options()?.container) ?? this.containers[0]
+  );
+  readonly mode = computed(() => this.modes.find((option) => option.id === this.options()?.mode) ?? null);
+
+  readonly encodesAudio = computed(() => {
+    const mode = this.options()?.mode;
+    return mode !== undefined && ENCODING_MODES.includes(mode);
+  });
+
+  isContainerAvailable(id: VideoContainerId): boolean {
+    return !this.encodesAudio() || this.reencodableContainers().includes(id);
+  }
+
+  audioBitrate(): number {
+    return this.options()?.audioBitrate ?? this.container().defaultAudioBitrate;
+  }
+
+  /** Volume of the replacement audio in percent. */
+  volumePercent(): number {
+    return Math.round((this.options()?.replacement?.volume ?? 1) * 100);
+  }
+
+  onModeChange(event: Event): void {
+    const value = (event.target as HTMLSelectElement | null)?.value ?? EXTRACT_AUDIO;
+    if (value === EXTRACT_AUDIO) {
+      this.optionsChange.emit(null);
+      return;
+    }
+
+    const mode = value as VideoConversionMode;
+    let container = this.options()?.container ?? DEFAULT_CONTAINER;
+    if (ENCODING_MODES.includes(mode) && !this.reencodableContainers().includes(container)) {
+      container = this.reencodableContainers()[0] ?? container;
+    }
+    this.optionsChange.emit({ mode, container, replacement: this.options()?.replacement });
+  }
+
+  onContainerChange(event: Event): void {
+    const current = this.options();
+    const value = (event.target as HTMLSelectElement | null)?.value as VideoContainerId | undefined;
+    if (current && value) {
+      // Bitrate lists differ per audio codec, so a new container starts from its own default.
+      this.optionsChange.emit({ mode: current.mode, container: value, replacement: current.replacement });
+    }
+  }
+
+  onReplacementFileChange(event: Event): void {
+    const current = this.options();
+    const file = (event.target as HTMLInputElement | null)?.files?.[0];
+    if (current && file) {
+      this.optionsChange.emit({ ...current, replacement: { ...current.replacement, file } });
+    }
+  }
+
+  onOffsetChange(event: Event): void {
+    const offset = this.readNumber(event);
+    if (offset !== undefined) {
+      this.emitReplacement({ offset });
+    }
+  }
+
+  onVolumeChange(event: Event): void {
+    const percent = this.readNumber(event);
+    if (percent !== undefined && percent >= 0) {
+      this.emitReplacement({ volume: percent / 100 });
+    }
+  }
+
+  onBitrateChange(event: Event): void {
+    const current = this.options();
+    const value = Number((event.target as HTMLSelectElement | null)?.value);
+    if (current && Number.isFinite(value)) {
+      this.optionsChange.emit({ ...current, audioBitrate: value });
+    }
+  }
+
+  private emitReplacement(changes: Omit<Partial<AudioReplacement>, 'file'>): void {
+    const current = this.options();
+    if (current?.replacement) {
+      this.optionsChange.emit({ ...current, replacement: { ...current.replacement, ...changes } });
+    }
+  }
+
+  private readNumber(event: Event): number | undefined {
+    const value = (event.target as HTMLInputElement | null)?.value ?? '';
+    const parsed = Number(value);
+    return value === '' || !Number.isFinite(parsed) ? undefined : parsed;
+  }
+}
@@ -0,0 +1,251 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { createMp4File, createUnreadableFile, createWavFile } from '../../../testing/media-fixtures';
+import {
+  CONVERSION_ENGINE,
+  CONVERSION_WORKER_FACTORY,
+  ConversionEngine,
+  ConversionResult,
+  DEFAULT_JOB_ID,
+  MediabunnyConversionService,
+  SERVER_CONVERSION_CLIENT,
+  cancelledError
+} from '../../mediabunny-conversion.service';
+import { ServerConversionClient } from '../../server-conversion-client';
+import { VideoToAudioConverterComponent } from './video-to-audio-converter.component';
+
+describe('VideoToAudioConverterComponent', () => {
+  let fixture: ComponentFixture<VideoToAudioConverterComponent>;
+  let component: VideoToAudioConverterComponent;
+  let service: MediabunnyConversionService;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    const server = new ServerConversionClient();
+    spyOn(server, 'getFormats').and.resolveTo([]);
+    await TestBed.configureTestingModule({
+      imports: [VideoToAudioConverterComponent],
+      providers: [
+        // Only the formats that need no WebCodecs encoder, so results do not depend on the test browser.
+        { provide: CONVERSION_ENGINE, useValue: new ConversionEngine(() => Promise.resolve(false)) },
+        { provide: CONVERSION_WORKER_FACTORY, useValue: () => null },
+        { provide: SERVER_CONVERSION_CLIENT, useValue: server }
+      ]
+    }).compileComponents();
+
+    service = TestBed.inject(MediabunnyConversionService);
+    spyOn(service, 'getRemoteMediaCapabilities').and.resolveTo(null);
+
+    fixture = TestBed.createComponent(VideoToAudioConverterComponent);
+    component = fixture.componentInstance;
+  });
+
+  async function start(initialFormat?: 'wav' | 'ogg'): Promise<void> {
+    if (initialFormat) {
+      fixture.componentRef.setInput('initialFormat', initialFormat);
+    }
+    fixture.detectChanges();
+    await until(() => component.optionsLoaded());
+  }
+
+  /** Drops the files on the converter and waits until they have been probed. */
+  async function drop(...files: File[]): Promise<void> {
+    const data = new DataTransfer();
+    files.forEach((file) => data.items.add(file));
+    component.onDrop(new DragEvent('drop', { dataTransfer: data }));
+    await until(() => !component.isProbing());
+  }
+
+  /** Media is read through native browser promises, which `whenStable()` does not see. */
+  async function until(condition: () => boolean): Promise<void> {
+    while (!condition()) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  /** Picks an entry of the output select the way a user would. */
+  function chooseOutput(value: string): void {
+    fixture.detectChanges();
+    const select = (fixture.nativeElement as HTMLElement).querySelector<HTMLSelectElement>('#outputFormat');
+    if (!select) {
+      throw new Error('The output select is not rendered.');
+    }
+    select.value = value;
+    select.dispatchEvent(new Event('change'));
+  }
+
+  function renderedText(selector: string): string {
+    fixture.detectChanges();
+    return (fixture.nativeElement as HTMLElement).querySelector(selector)?.textContent?.trim() ?? '';
+  }
+
+  describe('setup', () => {
+    it('starts idle with the formats this browser can encode', async () => {
+      await start();
+
+      expect(component.optionsLoaded()).toBeTrue();
+      expect(component.selectedFormatId()).toBe('mp3');
+      expect(component.isConverting()).toBeFalse();
+      expect(component.status()).toBe('Drop a video to start converting locally.');
+      expect(component.formatOptions().filter((option) => option.supported).map((option) => option.id)).toEqual([
+        'mp3',
+        'wav'
+      ]);
+    });
+
+    it('starts with the format the page asks for', async () => {
+      await start('wav');
+
+      expect(component.selectedFormatId()).toBe('wav');
+      expect(component.currentFormat().label).toBe('WAV');
+    });
+
+    it('falls back to a supported format when the page asks for one the browser cannot encode', async () => {
+      await start('ogg');
+
+      expect(component.selectedFormatId()).toBe('mp3');
+      expect(component.unsupportedNotice()).toBeNull();
+    });
+  });
+
+  describe('selecting files', () => {
+    it('probes a dropped file and gets ready to convert it', async () => {
+      await start('wav');
+
+      await drop(createWavFile({ duration: 2 }));
+
+      expect(component.selectedFile()?.name).toBe('tone.wav');
+      expect(component.status()).toBe('Ready to convert "tone.wav" to WAV.');
+      expect(component.isProbing()).toBeFalse();
+      expect(component.mediaDuration()).toBe(2);
+      expect(component.audioTracks().length).toBe(1);
+      expect(component.trimRange()).toEqual({ start: 0, end: 2 });
+    });
+
+    it('turns away files that are not media', async () => {
+      await start();
+
+      await drop(new File(['just text'], 'notes.txt', { type: 'text/plain' }));
+
+      expect(component.selectedFile()).toBeNull();
+      expect(component.errorMessage()).toBe('Please choose a video or audio file.');
+    });
+
+    it('shows why a file could not be read', async () => {
+      await start('wav');
+
+      await drop(createUnreadableFile());
+
+      expect(component.selectedFile()?.name).toBe('broken.mp4');
+      expect(component.mediaProbe()).toBeNull();
+      expect(component.probeError()).toContain('We could not detect any supported audio/video streams');
+    });
+
+    it('forgets the file and its probe when the selection is cleared', async () => {
+      await start('wav');
+      await drop(createWavFile());
+
+      component.clearSelection();
+
+      expect(component.selectedFile()).toBeNull();
+      expect(component.mediaProbe()).toBeNull();
+      expect(component.status()).toBe('Drop a new file to start another conversion.');
+    });
+  });
+
+  describe('converting', () => {
+    it('asks for a file first', async () => {
+      await start();
+
+      await component.convertSelected();
+
+      expect(component.isConverting()).toBeFalse();
+      expect(component.errorMessage()).toBe('Please choose a video file before starting the conversion.');
+    });
+
+    it('goes from ready to converting to a download', async () => {
+      await start('wav');
+      await drop(await createMp4File());
+
+      const conversion = component.convertSelected();
+
+      expect(component.isConverting()).toBeTrue();
+      expect(component.status()).toBe('Preparing to convert to WAV...');
+
+      await conversion;
+
+      expect(component.isConverting()).toBeFalse();
+      expect(component.progress()).toBe(100);
+      expect(component.errorMessage()).toBeNull();
+      expect(component.status()).toBe('WAV ready. Time to download!');
+      expect(component.downloads().map((download) => download.fileName)).toEqual(['tone.wav']);
+      expect(component.previewResult()?.mimeType).toBe('audio/wav');
+      expect(component.progressDetails()?.phase).toBe('finalizing');
+      expect(component.logs()).toContain('Conversion finished.');
+      expect(renderedText('.download-link')).toBe('Download tone.wav');
+    });
+
+    it('drops the finished result when another format is picked', async () => {
+      await start('wav');
+      await drop(createWavFile());
+      await component.convertSelected();
+
+      chooseOutput('mp3');
+
+      expect(component.selectedFormatId()).toBe('mp3');
+      expect(component.downloads()).toEqual([]);
+      expect(component.previewResult()).toBeNull();
+      expect(component.status()).toBe('Ready to convert "tone.wav" to MP3.');
+    });
+
+    it('reports a failed conversion with its error code', async () => {
+      await start('wav');
+      await drop(createUnreadableFile());
+
+      await component.convertSelected();
+
+      expect(component.isConverting()).toBeFalse();
+      expect(component.status()).toBe('Conversion failed.');
+      expect(component.errorMessage()).toContain('We could not detect any supported audio/video streams');
+      expect(component.logs()).toContain('Error code: unsupported-container');
+      expect(component.downloads()).toEqual([]);
+      expect(renderedText('.status-block .error')).toContain('We could not detect any supported audio/video streams');
+    });
+
+    it('goes back to idle when a running conversion is cancelled', async () => {
+      await start('wav');
+      await drop(createWavFile());
+      let rejectConversion!: (error: unknown) => void;
+      spyOn(service, 'convert').and.returnValue(
+        new Promise<ConversionResult>((_resolve, reject) => (rejectConversion = reject))
+      );
+      const cancel = spyOn(service, 'cancelConversion').and.callFake((jobId = DEFAULT_JOB_ID) => {
+        if (jobId === DEFAULT_JOB_ID) {
+          rejectConversion(cancelledError());
+        }
+      });
+
+      const conversion = component.convertSelected();
+      component.cancelConversion();
+
+      expect(cancel).toHaveBeenCalledOnceWith();
+      expect(component.status()).toBe('Cancelling conversion...');
+
+      await conversion;
+
+      expect(component.isConverting()).toBeFalse();
+      expect(component.status()).toBe('Conversion cancelled.');
+      expect(component.errorMessage()).toBeNull();
+      expect(component.downloads()).toEqual([]);
+    });
+
+    it('ignores cancel while nothing is running', async () => {
+      await start();
+      const cancel = spyOn(service, 'cancelConversion');
+
+      component.cancelConversion();
+
+      expect(cancel).not.toHaveBeenCalled();
+      expect(component.status()).toBe('Drop a video to start converting locally.');
+    });
+  });
+});
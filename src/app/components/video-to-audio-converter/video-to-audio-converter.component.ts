@@ -1,17 +1,84 @@
-import { CommonModule } from '@angular/common';
-import { Component, OnDestroy, OnInit, computed, signal } from '@angular/core';
+import { CommonModule, Location } from '@angular/common';
+import { Component, OnDestroy, OnInit, computed, effect, input, signal, untracked } from '@angular/core';
 import { DomSanitizer, SafeUrl } from '@angular/platform-browser';
+import { ConversionHistoryService, HistoryEntry, HistorySettings } from '../../conversion-history.service';
+import { ConversionPreset, ConversionPresetsService } from '../../conversion-presets.service';
+import { ConversionQueueService } from '../../conversion-queue.service';
+import { IncomingFilesService } from '../../incoming-files.service';
 import {
   AudioOutputFormatId,
   MediabunnyConversionService,
   ConversionResult,
-  AudioOutputOption
+  AudioOutputOption,
+  AudioProcessingOptions,
+  AudioTags,
+  ConcatenationOptions,
+  ConversionError,
+  ConversionProgress,
+  EncoderSettings,
+  LoudnessReport,
+  MediaProbe,
+  ProgressCallbacks,
+  SplitOptions,
+  TrimRange,
+  VIDEO_CONTAINER_OPTIONS,
+  VideoContainerId,
+  VideoConversionOptions,
+  Waveform,
+  describeConversionError,
+  isCancellationError,
+  toConversionError
 } from '../../mediabunny-conversion.service';
+import { RemoteMediaCapabilities } from '../../remote-media-protocol';
+import { formatTimecode } from '../../timecode';
+import { AudioProcessingSettingsComponent } from '../audio-processing-settings/audio-processing-settings.component';
+import { ConversionHistoryComponent } from '../conversion-history/conversion-history.component';
+import { ConversionQueueComponent } from '../conversion-queue/conversion-queue.component';
+import { EncoderSettingsComponent } from '../encoder-settings/encoder-settings.component';
+import { JoinSettingsComponent } from '../join-settings/join-settings.component';
+import { MediaProbeComponent } from '../media-probe/media-probe.component';
+import { PresetManagerComponent } from '../preset-manager/preset-manager.component';
+import { SplitSettingsComponent } from '../split-settings/split-settings.component';
+import { TagEditorComponent } from '../tag-editor/tag-editor.component';
+import { TrimRangeComponent } from '../trim-range/trim-range.component';
+import { VideoModeSettingsComponent } from '../video-mode-settings/video-mode-settings.component';
+import { WaveformPlayerComponent } from '../waveform-player/waveform-player.component';
+
+interface DownloadLink {
+  fileName: string;
+  url: SafeUrl | string;
+}
+
+/** Prefix of output dropdown values that pick a saved preset rather than a bare format. */
+const PRESET_VALUE_PREFIX = 'preset:';
+/** Value of the track picker that exports every audio track as its own file. */
+const ALL_AUDIO_TRACKS = 'all';
+/** Where in an untrimmed video the cover frame is taken, as a share of its duration; skips black intros. */
+const COVER_FRAME_POSITION = 0.1;
+/** Waveforms are drawn automatically up to this length; longer sources wait for a click. */
+const AUTO_WAVEFORM_MAX_SECONDS = 20 * 60;
+const WAVEFORM_BUCKETS = 1600;
+/** Waveform analysis gets its own job slot so it can run next to a conversion. */
+const WAVEFORM_JOB_ID = 'waveform';
 
 @Component({
   selector: 'app-video-to-audio-converter',
   standalone: true,
-  imports: [CommonModule],
+  imports: [
+    CommonModule,
+    AudioProcessingSettingsComponent,
+    ConversionHistoryComponent,
+    ConversionQueueComponent,
+    EncoderSettingsComponent,
+    JoinSettingsComponent,
+    MediaProbeComponent,
+    PresetManagerComponent,
+    SplitSettingsComponent,
+    TagEditorComponent,
+    TrimRangeComponent,
+    VideoModeSettingsComponent,
+    WaveformPlayerComponent
+  ],
   templateUrl: './video-to-audio-converter.component.html',
   styleUrl: './video-to-audio-converter.component.scss',
   host: {
@@ -19,6 +86,9 @@ import {
   }
 })
 export class VideoToAudioConverterComponent implements OnDestroy, OnInit {
+  /** Output format a landing page starts with; falls back to the default from the settings. */
+  readonly initialFormat = input<AudioOutputFormatId | null>(null);
+
   readonly formatOptions = signal<AudioOutputOption[]>([]);
   readonly selectedFormatId = signal<AudioOutputFormatId>('mp3');
   readonly currentFormat = computed(
@@ -33,29 +103,144 @@ export class VideoToAudioConverterComponent implements OnDestroy, OnInit {
     return format.supported ? null : format.reason ?? 'This format is not supported in your browser yet.';
   });
 
+  readonly encoderSettings = signal<EncoderSettings>({});
+  readonly encoderCapabilities = computed(() => this.conversionService.getEncoderCapabilities(this.selectedFormatId()));
+  readonly encoderProblem = computed(() =>
+    this.conversionService.validateEncoderSettings(this.selectedFormatId(), this.encoderSettings())
+  );
+  readonly selectedPresetId = signal<string | null>(null);
+  /** The picked preset, as long as the format and settings still match it; editing either drops back to the format. */
+  readonly activePreset = computed(() => {
+    const preset = this.presets.presets().find((candidate) => candidate.id === this.selectedPresetId());
+    return preset && preset.formatId === this.selectedFormatId() && sameSettings(preset.encoder, this.encoderSettings())
+      ? preset
+      : null;
+  });
+  readonly outputValue = computed(() => {
+    const preset = this.activePreset();
+    return preset ? this.presetValue(preset) : this.selectedFormatId();
+  });
+
+  /** Set when the job keeps the video (remux, silent copy, audio re-encode) instead of extracting audio. */
+  readonly videoOptions = signal<VideoConversionOptions | null>(null);
+  readonly reencodableContainers = signal<VideoContainerId[]>([]);
+
+  /** Files to join into one, in order; null while dropped files are converted one by one. */
+  readonly joinFiles = signal<File[] | null>(null);
+  readonly joinOptions = signal<ConcatenationOptions>({});
+  readonly isJoining = computed(() => this.joinFiles() !== null);
+
+  readonly processingOptions = signal<AudioProcessingOptions>({});
+  readonly loudnessSummary = signal<string | null>(null);
+
+  readonly tagEdits = signal<AudioTags>({});
+  readonly keepSourceTags = signal(true);
+  readonly tagSupport = computed(() => this.conversionService.getTagSupport(this.selectedFormatId()));
+  readonly isCapturingCover = signal(false);
+
   readonly selectedFile = signal<File | null>(null);
+  /** Set when the server can fetch direct links; the URL field stays hidden otherwise. */
+  readonly remoteMedia = signal<RemoteMediaCapabilities | null>(null);
+  readonly remoteUrl = signal('');
+  readonly isFetchingUrl = signal(false);
   readonly isConverting = signal(false);
   readonly progress = signal(0);
+  readonly progressDetails = signal<ConversionProgress | null>(null);
+  /** Speed and time left for the running job, e.g. "Encoding · 12.5× · 00:00:40 left". */
+  readonly progressSummary = computed(() => {
+    const details = this.progressDetails();
+    if (!details || !this.isConverting()) {
+      return null;
+    }
+    const parts = [details.phase.charAt(0).toUpperCase() + details.phase.slice(1)];
+    if (details.speed !== null) {
+      parts.push(`${details.speed.toFixed(details.speed >= 10 ? 0 : 1)}×`);
+    }
+    if (details.eta !== null) {
+      parts.push(`${formatTimecode(Math.ceil(details.eta))} left`);
+    }
+    return parts.join(' · ');
+  });
   readonly status = signal('Drop a video to start converting locally.');
   readonly errorMessage = signal<string | null>(null);
-  readonly downloadUrl = signal<SafeUrl | null>(null);
-  readonly outputFileName = signal<string | null>(null);
+  readonly downloads = signal<DownloadLink[]>([]);
   readonly logs = signal<string[]>([]);
   readonly isDragOver = signal(false);
+  readonly canSaveToDisk = typeof window !== 'undefined' && typeof window.showSaveFilePicker === 'function';
+  readonly saveToDisk = signal(false);
+  readonly mediaProbe = signal<MediaProbe | null>(null);
+  readonly isProbing = signal(false);
+  readonly probeError = signal<string | null>(null);
+  readonly mediaDuration = computed(() => this.mediaProbe()?.duration || null);
+  readonly audioTracks = computed(() => this.mediaProbe()?.tracks.filter((track) => track.type === 'audio') ?? []);
+  /** Selected audio track number, `ALL_AUDIO_TRACKS`, or null for the default track. */
+  readonly selectedAudioTrack = signal<number | typeof ALL_AUDIO_TRACKS | null>(null);
+  readonly hasVideo = computed(() => this.mediaProbe()?.tracks.some((track) => track.type === 'video') ?? false);
+  readonly allTracksSelected = computed(() => this.selectedAudioTrack() === ALL_AUDIO_TRACKS);
+  readonly splitOptions = signal<SplitOptions | null>(null);
+  readonly isSplitting = computed(() => Boolean(this.splitOptions()) && !this.allTracksSelected());
+  readonly chapterCount = computed(() => this.mediaProbe()?.chapters.length ?? 0);
+  readonly trimRange = signal<TrimRange | null>(null);
+  readonly waveform = signal<Waveform | null>(null);
+  readonly isDrawingWaveform = signal(false);
+  readonly waveformError = signal<string | null>(null);
+  /** Latest single-file result, offered for A/B playback against the source. */
+  readonly previewResult = signal<ConversionResult | null>(null);
+  readonly previewOffset = signal(0);
+  /** Whether the current job can stream its output into a picked file; otherwise it is assembled in memory. */
+  readonly canStreamToDisk = computed(
+    () =>
+      this.canSaveToDisk &&
+      (this.videoOptions() !== null || this.isJoining() || (!this.allTracksSelected() && !this.isSplitting()))
+  );
+  readonly memoryNote = computed(() => {
+    if (this.canStreamToDisk()) {
+      return null;
+    }
+    const note =
+      "The converted audio is kept in this tab's memory until you download it, so outputs of several gigabytes, such as hours of WAV, may not fit.";
+    return this.canSaveToDisk
+      ? `${note} Split and all-track exports cannot be saved straight to disk.`
+      : `${note} Chromium-based browsers can save straight to disk instead.`;
+  });
+  readonly isTrimmed = computed(() => {
+    const range = this.trimRange();
+    const duration = this.mediaDuration();
+    return Boolean(range && duration && (range.start > 0 || range.end < duration));
+  });
 
-  private objectUrl: string | null = null;
+  private objectUrls: string[] = [];
+  private remoteDownload: AbortController | null = null;
+  private stopIncomingFiles: (() => void) | null = null;
+  /** History entry waiting for its source file; applied and run once that file has been probed. */
+  private pendingRerun: HistoryEntry | null = null;
 
   constructor(
     private readonly conversionService: MediabunnyConversionService,
+    readonly queue: ConversionQueueService,
+    readonly presets: ConversionPresetsService,
+    private readonly history: ConversionHistoryService,
+    private readonly incomingFiles: IncomingFilesService,
+    private readonly location: Location,
     private readonly sanitizer: DomSanitizer
-  ) {}
+  ) {
+    effect(() => {
+      const formatId = this.initialFormat() ?? this.presets.defaultFormatId();
+      untracked(() => this.preselectFormat(formatId));
+    });
+  }
 
   ngOnDestroy(): void {
-    this.revokeObjectUrl();
+    this.stopIncomingFiles?.();
+    this.remoteDownload?.abort();
+    this.revokeObjectUrls();
   }
 
   async ngOnInit(): Promise<void> {
-    await this.refreshFormatOptions();
+    await Promise.all([this.refreshFormatOptions(), this.refreshVideoContainers(), this.refreshRemoteMedia()]);
+    // Files opened with the installed app or shared to it are handled like dropped ones, once formats are known.
+    this.stopIncomingFiles = this.incomingFiles.listen((files) => this.handleIncomingFiles(files));
+    await this.rerunFromNavigation();
   }
 
   onFormatChange(event: Event): void {
@@ -64,9 +249,19 @@ export class VideoToAudioConverterComponent implements OnDestroy, OnInit {
       return;
     }
 
+    if (select.value.startsWith(PRESET_VALUE_PREFIX)) {
+      const preset = this.presets.get(select.value.slice(PRESET_VALUE_PREFIX.length));
+      if (preset) {
+        this.applyPreset(preset);
+      }
+      return;
+    }
+
     const value = select.value as AudioOutputFormatId;
+    this.selectedPresetId.set(null);
     if (this.selectedFormatId() !== value) {
       this.selectedFormatId.set(value);
+      this.encoderSettings.set({});
       this.resetConversionState();
       const file = this.selectedFile();
       if (file) {
@@ -78,12 +273,140 @@ export class VideoToAudioConverterComponent implements OnDestroy, OnInit {
     }
   }
 
-  onFileSelected(event: Event): void {
-    const input = event.target as HTMLInputElement | null;
-    const file = input?.files?.item(0) ?? null;
+  onVideoOptionsChange(options: VideoConversionOptions | null): void {
+    this.videoOptions.set(options);
+    this.resetConversionState();
+    const file = this.selectedFile();
     if (file) {
-      this.handleIncomingFile(file);
+      this.status.set(`Ready to convert "${file.name}" to ${this.formatLabel()}.`);
+    }
+  }
+
+  onJoinFilesChange(files: File[] | null): void {
+    if (files && !this.isJoining()) {
+      this.selectedFile.set(null);
+      this.resetProbe();
+    }
+    this.joinFiles.set(files);
+    this.resetConversionState();
+    if (!files) {
+      this.status.set('Drop a video to start converting locally.');
+    } else {
+      this.status.set(
+        files.length < 2
+          ? 'Drop the files to join, in order.'
+          : `Ready to join ${files.length} files into one ${this.formatLabel()} file.`
+      );
+    }
+  }
+
+  onJoinOptionsChange(options: ConcatenationOptions): void {
+    this.joinOptions.set(options);
+  }
+
+  onPresetSaved(preset: ConversionPreset): void {
+    this.selectedPresetId.set(preset.id);
+  }
+
+  presetValue(preset: ConversionPreset): string {
+    return PRESET_VALUE_PREFIX + preset.id;
+  }
+
+  isPresetAvailable(preset: ConversionPreset): boolean {
+    return this.formatOptions().some((option) => option.id === preset.formatId && option.supported);
+  }
+
+  /**
+   * Loads a past job's format and settings. With its source already selected the job runs right away;
+   * otherwise it runs as soon as that file is dropped again.
+   */
+  onRerun(entry: HistoryEntry): void {
+    if (this.isConverting()) {
+      return;
+    }
+    const format = this.formatOptions().find((option) => option.id === entry.formatId);
+    if (!format?.supported) {
+      this.errorMessage.set(format?.reason ?? `${entry.formatId.toUpperCase()} is not available in this browser.`);
+      return;
+    }
+
+    this.videoOptions.set(null);
+    this.joinFiles.set(null);
+    this.selectedPresetId.set(null);
+    this.selectedFormatId.set(entry.formatId);
+    this.encoderSettings.set({ ...entry.settings.encoder });
+    this.processingOptions.set({ ...entry.settings.processing });
+    this.resetConversionState();
+
+    const file = this.selectedFile();
+    if (file && this.isSourceOf(entry, file) && this.mediaProbe()) {
+      this.applyHistorySelection(entry);
+      void this.convertSelected();
+      return;
+    }
+    this.pendingRerun = entry;
+    this.status.set(`Select "${entry.sourceName}" to convert it again with the same settings.`);
+  }
+
+  onSaveToDiskChange(event: Event): void {
+    const input = event.target as HTMLInputElement | null;
+    this.saveToDisk.set(Boolean(input?.checked));
+  }
+
+  onEncoderSettingsChange(settings: EncoderSettings): void {
+    this.encoderSettings.set(settings);
+  }
+
+  onProcessingOptionsChange(options: AudioProcessingOptions): void {
+    this.processingOptions.set(options);
+  }
+
+  onTagEditsChange(tags: AudioTags): void {
+    this.tagEdits.set(tags);
+  }
+
+  onKeepSourceTagsChange(keep: boolean): void {
+    this.keepSourceTags.set(keep);
+  }
+
+  async captureCoverFromVideo(): Promise<void> {
+    const file = this.selectedFile();
+    const duration = this.mediaDuration();
+    if (!file || this.isCapturingCover()) {
+      return;
+    }
+
+    const range = this.trimRange();
+    const timestamp = this.isTrimmed() && range ? range.start : (duration ?? 0) * COVER_FRAME_POSITION;
+    this.isCapturingCover.set(true);
+    try {
+      const cover = await this.conversionService.captureCoverFrame(file, timestamp);
+      if (this.selectedFile() === file) {
+        this.tagEdits.update((current) => ({ ...current, cover }));
+      }
+    } catch (error: unknown) {
+      this.errorMessage.set(describeConversionError(error));
+    } finally {
+      this.isCapturingCover.set(false);
     }
+  }
+
+  onAudioTrackChange(event: Event): void {
+    const value = (event.target as HTMLSelectElement | null)?.value ?? '';
+    this.selectedAudioTrack.set(value === ALL_AUDIO_TRACKS ? ALL_AUDIO_TRACKS : value ? Number(value) : null);
+  }
+
+  onSplitOptionsChange(options: SplitOptions | null): void {
+    this.splitOptions.set(options);
+  }
+
+  onTrimRangeChange(range: TrimRange): void {
+    this.trimRange.set(range);
+  }
+
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement | null;
+    this.handleIncomingFiles(Array.from(input?.files ?? []));
     if (input) {
       input.value = '';
     }
@@ -93,12 +416,49 @@ export class VideoToAudioConverterComponent implements OnDestroy, OnInit {
     event.preventDefault();
     this.isDragOver.set(false);
 
-    const file = event.dataTransfer?.files?.item(0) ?? null;
-    if (file) {
-      this.handleIncomingFile(file);
+    this.handleIncomingFiles(Array.from(event.dataTransfer?.files ?? []));
+  }
+
+  onRemoteUrlInput(event: Event): void {
+    this.remoteUrl.set((event.target as HTMLInputElement | null)?.value ?? '');
+  }
+
+  /** Downloads the pasted link through the server, then handles the file as if it had been dropped. */
+  async fetchRemoteUrl(): Promise<void> {
+    const url = this.remoteUrl().trim();
+    if (!url || this.isFetchingUrl() || this.isConverting()) {
+      return;
+    }
+
+    const download = new AbortController();
+    this.remoteDownload = download;
+    this.isFetchingUrl.set(true);
+    this.errorMessage.set(null);
+    this.status.set('Downloading the linked file through the server...');
+    try {
+      const file = await this.conversionService.fetchRemoteMedia(url, download.signal, (received, total) => {
+        const size = total ? `${this.formatBytes(received)} of ${this.formatBytes(total)}` : this.formatBytes(received);
+        this.status.set(`Downloading the linked file — ${size}`);
+      });
+      this.remoteUrl.set('');
+      this.handleIncomingFiles([file]);
+    } catch (error) {
+      if (isCancellationError(error)) {
+        this.status.set('Download cancelled.');
+      } else {
+        this.status.set('The linked file could not be downloaded.');
+        this.errorMessage.set(error instanceof Error ? error.message : 'The linked file could not be downloaded.');
+      }
+    } finally {
+      this.isFetchingUrl.set(false);
+      this.remoteDownload = null;
     }
   }
 
+  cancelRemoteFetch(): void {
+    this.remoteDownload?.abort();
+  }
+
   onDragOver(event: DragEvent): void {
     event.preventDefault();
     this.isDragOver.set(true);
@@ -114,6 +474,7 @@ export class VideoToAudioConverterComponent implements OnDestroy, OnInit {
       return;
     }
     this.selectedFile.set(null);
+    this.resetProbe();
     this.status.set('Drop a new file to start another conversion.');
     this.resetConversionState();
   }
@@ -128,59 +489,132 @@ export class VideoToAudioConverterComponent implements OnDestroy, OnInit {
       return;
     }
 
+    const joinFiles = this.joinFiles();
+    if (joinFiles) {
+      await this.convertJoined(joinFiles);
+      return;
+    }
+
     const file = this.selectedFile();
     if (!file) {
       this.errorMessage.set('Please choose a video file before starting the conversion.');
       return;
     }
 
+    const video = this.videoOptions();
+    if (video) {
+      await this.convertVideo(file, video);
+      return;
+    }
+
     const selectedFormat = this.currentFormat();
     if (!selectedFormat || selectedFormat.supported === false) {
       this.errorMessage.set(selectedFormat?.reason ?? 'This format is not available in this browser.');
       return;
     }
 
+    const encoderProblem = this.encoderProblem();
+    if (encoderProblem) {
+      this.errorMessage.set(encoderProblem);
+      return;
+    }
+
     const formatId = this.selectedFormatId();
     const formatLabel = this.currentFormat().label;
 
+    let saveHandle: FileSystemFileHandle | undefined;
+    if (this.saveToDisk() && this.canStreamToDisk()) {
+      try {
+        saveHandle = await this.pickSaveHandle(file, selectedFormat);
+      } catch (error: unknown) {
+        if (isCancellationError(error)) {
+          this.status.set('Choose where to save the audio to start converting.');
+        } else {
+          this.errorMessage.set(describeConversionError(error));
+        }
+        return;
+      }
+    }
+
     this.isConverting.set(true);
     this.errorMessage.set(null);
     this.progress.set(0);
+    this.progressDetails.set(null);
     this.status.set(`Preparing to convert to ${formatLabel}...`);
     this.logs.set([]);
 
+    const callbacks = this.createCallbacks(formatLabel);
+    const trim = this.isTrimmed() ? this.trimRange() ?? undefined : undefined;
+    const encoder = this.encoderSettings();
+    const processing = this.processingOptions();
+    const tags = this.tagEdits();
+    const keepSourceTags = this.keepSourceTags();
+    const selectedTrack = this.selectedAudioTrack();
+    const audioTrack = typeof selectedTrack === 'number' ? { number: selectedTrack } : undefined;
+    const split = this.splitOptions();
+    const probe = this.mediaProbe();
+    const settings: HistorySettings = { encoder, processing, trim, audioTrack, tags, keepSourceTags };
+    const duration = trim ? trim.end - trim.start : this.mediaDuration();
+
     try {
-      const result = await this.conversionService.convert(file, formatId, {
-        onProgress: (ratio) => {
-          const percent = Math.round(Math.min(Math.max(ratio, 0), 1) * 100);
-          this.progress.set(percent);
-          if (percent >= 100) {
-            this.status.set('Finalizing the audio file...');
-          } else {
-            this.status.set(`Converting to ${formatLabel} — ${percent}%`);
-          }
-        },
-        onLog: (message) => {
-          this.logs.update((current) => {
-            const next = [...current, message];
-            return next.slice(-40);
-          });
-        }
+      if (split && probe && selectedTrack !== ALL_AUDIO_TRACKS) {
+        this.status.set('Working out where to split...');
+        const segments = await this.conversionService.planSegments(file, probe, split, { trim, audioTrack }, callbacks);
+        const { parts, archive } = await this.conversionService.convertSegments(file, formatId, segments, callbacks, {
+          encoder,
+          processing,
+          tags,
+          keepSourceTags,
+          audioTrack
+        });
+        this.progress.set(100);
+        this.status.set(`${parts.length} ${formatLabel} parts ready in one ZIP. Time to download!`);
+        this.setDownloadResults([archive]);
+        this.recordHistory(file, formatId, [archive], settings, duration);
+        return;
+      }
+
+      if (selectedTrack === ALL_AUDIO_TRACKS) {
+        const results = await this.conversionService.convertAllAudioTracks(file, formatId, callbacks, {
+          trim,
+          encoder,
+          processing,
+          tags,
+          keepSourceTags
+        });
+        this.progress.set(100);
+        this.status.set(`${results.length} ${formatLabel} files ready. Time to download!`);
+        this.setDownloadResults(results);
+        this.recordHistory(file, formatId, results, settings, duration);
+        return;
+      }
+
+      const result = await this.conversionService.convert(file, formatId, callbacks, {
+        saveHandle,
+        trim,
+        encoder,
+        processing,
+        tags,
+        keepSourceTags,
+        audioTrack
       });
 
-      this.status.set(`${formatLabel} ready. Time to download!`);
       this.progress.set(100);
-      this.setDownloadResult(result);
+      this.loudnessSummary.set(result.loudness ? this.describeLoudness(result.loudness) : null);
+      if (result.savedToDisk) {
+        this.status.set(`${formatLabel} saved to "${result.fileName}".`);
+      } else {
+        this.status.set(`${formatLabel} ready. Time to download!`);
+        this.setDownloadResults([result]);
+      }
+      this.previewResult.set(result);
+      this.previewOffset.set(trim?.start ?? 0);
+      this.recordHistory(file, formatId, [result], settings, duration);
     } catch (error: unknown) {
-      if (error instanceof DOMException && error.name === 'AbortError') {
+      if (isCancellationError(error)) {
         this.status.set('Conversion cancelled.');
       } else {
-        let message = error instanceof Error ? error.message : 'Unexpected error during conversion.';
-        if (typeof message === 'string' && message.toLowerCase().includes('unsupported or unrecognizable format')) {
-          message =
-            'We could not detect any supported audio/video streams in this file. Make sure you selected the actual media file and that the container is MP4, MOV, WebM, MKV, WAV, OGG, FLAC, MP3, or ADTS.';
-        }
-        this.errorMessage.set(message);
+        this.showConversionError(error);
         this.status.set('Conversion failed.');
       }
     } finally {
@@ -207,9 +641,191 @@ export class VideoToAudioConverterComponent implements OnDestroy, OnInit {
   }
 
   formatLabel(): string {
+    const video = this.videoOptions();
+    if (video) {
+      const container = VIDEO_CONTAINER_OPTIONS.find((option) => option.id === video.container);
+      return `${container?.label ?? 'video'}${video.mode === 'silent' ? ' without audio' : ''}`;
+    }
     return this.currentFormat()?.label ?? 'audio';
   }
 
+  /** Video jobs keep the whole file and skip the audio-only steps (tracks, trimming, splitting, tags). */
+  private async convertVideo(file: File, video: VideoConversionOptions): Promise<void> {
+    const label = this.formatLabel();
+    let saveHandle: FileSystemFileHandle | undefined;
+    if (this.saveToDisk() && this.canSaveToDisk) {
+      try {
+        saveHandle = await this.pickVideoSaveHandle(file, video);
+      } catch (error: unknown) {
+        if (isCancellationError(error)) {
+          this.status.set('Choose where to save the video to start converting.');
+        } else {
+          this.errorMessage.set(describeConversionError(error));
+        }
+        return;
+      }
+    }
+
+    this.isConverting.set(true);
+    this.errorMessage.set(null);
+    this.progress.set(0);
+    this.progressDetails.set(null);
+    this.status.set(`Preparing to convert to ${label}...`);
+    this.logs.set([]);
+
+    try {
+      const result = await this.conversionService.convertVideo(file, video, this.createCallbacks(label), { saveHandle });
+      this.progress.set(100);
+      if (result.savedToDisk) {
+        this.status.set(`${label} saved to "${result.fileName}".`);
+      } else {
+        this.status.set(`${label} ready. Time to download!`);
+        this.setDownloadResults([result]);
+      }
+    } catch (error: unknown) {
+      if (isCancellationError(error)) {
+        this.status.set('Conversion cancelled.');
+      } else {
+        this.showConversionError(error);
+        this.status.set('Conversion failed.');
+      }
+    } finally {
+      this.isConverting.set(false);
+    }
+  }
+
+  /** Joined files take the encoder settings but none of the per-file steps; tags come from the first part. */
+  private async convertJoined(files: File[]): Promise<void> {
+    if (files.length < 2) {
+      this.errorMessage.set('Add at least two files to join.');
+      return;
+    }
+    const format = this.currentFormat();
+    if (!format || format.supported === false || format.remote) {
+      this.errorMessage.set(
+        format?.remote
+          ? `${format.label} is only available through the server, which converts one file at a time.`
+          : format?.reason ?? 'This format is not available in this browser.'
+      );
+      return;
+    }
+    const encoderProblem = this.encoderProblem();
+    if (encoderProblem) {
+      this.errorMessage.set(encoderProblem);
+      return;
+    }
+
+    let saveHandle: FileSystemFileHandle | undefined;
+    if (this.saveToDisk() && this.canSaveToDisk) {
+      try {
+        saveHandle = await window.showSaveFilePicker!({
+          suggestedName: this.conversionService.suggestJoinedOutputName(files[0].name, format.id),
+          types: [{ description: `${format.label} audio`, accept: { [format.mimeType]: [format.extension] } }]
+        });
+      } catch (error: unknown) {
+        if (isCancellationError(error)) {
+          this.status.set('Choose where to save the audio to start joining.');
+        } else {
+          this.errorMessage.set(describeConversionError(error));
+        }
+        return;
+      }
+    }
+
+    this.isConverting.set(true);
+    this.errorMessage.set(null);
+    this.progress.set(0);
+    this.progressDetails.set(null);
+    this.status.set(`Preparing to join ${files.length} files...`);
+    this.logs.set([]);
+
+    try {
+      const result = await this.conversionService.concatenate(files, format.id, this.createCallbacks(format.label), {
+        saveHandle,
+        encoder: this.encoderSettings(),
+        ...this.joinOptions()
+      });
+      this.progress.set(100);
+      if (result.savedToDisk) {
+        this.status.set(`${format.label} saved to "${result.fileName}".`);
+      } else {
+        this.status.set(`${files.length} files joined into one ${format.label} file. Time to download!`);
+        this.setDownloadResults([result]);
+      }
+    } catch (error: unknown) {
+      if (isCancellationError(error)) {
+        this.status.set('Conversion cancelled.');
+      } else {
+        this.showConversionError(error);
+        this.status.set('Conversion failed.');
+      }
+    } finally {
+      this.isConverting.set(false);
+    }
+  }
+
+  /**
+   * Coded failures also log their code and diagnostics. Running out of memory suggests saving to disk, or a
+   * smaller output where this job cannot be saved to disk.
+   */
+  private showConversionError(error: unknown): void {
+    const failure = toConversionError(error);
+    let message = describeConversionError(failure);
+    if (failure instanceof ConversionError) {
+      if (failure.code === 'out-of-memory' && !this.canStreamToDisk()) {
+        message += ' Trim the source or choose a compressed format such as MP3 so the output is smaller.';
+      } else if (failure.code === 'out-of-memory' && !this.saveToDisk()) {
+        message += ' Turn on "Save straight to disk" so the output does not have to fit in memory.';
+      }
+      const { codec, discardedTracks } = failure.diagnostics;
+      const details = [
+        codec ? `codec ${codec}` : '',
+        ...(discardedTracks ?? []).map((track) => `${track.type} ${track.codec ?? 'unknown codec'}: ${track.reason}`)
+      ].filter(Boolean);
+      this.logs.update((current) => [...current, `Error code: ${failure.code}${details.length ? ` (${details.join('; ')})` : ''}`]);
+    }
+    this.errorMessage.set(message);
+  }
+
+  private createCallbacks(formatLabel: string): ProgressCallbacks {
+    return {
+      onProgress: (ratio) => {
+        const percent = Math.round(Math.min(Math.max(ratio, 0), 1) * 100);
+        this.progress.set(percent);
+        if (percent >= 100) {
+          this.status.set('Finalizing the file...');
+        } else {
+          this.status.set(`Converting to ${formatLabel} — ${percent}%`);
+        }
+      },
+      onLog: (message) => {
+        this.logs.update((current) => {
+          const next = [...current, message];
+          return next.slice(-40);
+        });
+      },
+      onProgressDetails: (details) => this.progressDetails.set(details)
+    };
+  }
+
+  private describeLoudness(report: LoudnessReport): string {
+    const parts: string[] = [];
+    if (report.inputLoudness !== null) {
+      parts.push(`Source ${report.inputLoudness.toFixed(1)} LUFS`);
+    }
+    if (report.outputLoudness !== null) {
+      parts.push(`output ${report.outputLoudness.toFixed(1)} LUFS`);
+    }
+    if (Number.isFinite(report.outputPeakDb)) {
+      parts.push(`peak ${report.outputPeakDb.toFixed(1)} dBFS`);
+    }
+    const trimmed = report.trimmedSilence.start + report.trimmedSilence.end;
+    if (trimmed > 0.05) {
+      parts.push(`${trimmed.toFixed(1)}s of silence trimmed`);
+    }
+    return parts.join(' · ');
+  }
+
   private async refreshFormatOptions(): Promise<void> {
     const options = await this.conversionService.getFormatOptionsWithSupport();
     this.formatOptions.set(options);
@@ -231,6 +847,168 @@ export class VideoToAudioConverterComponent implements OnDestroy, OnInit {
     }
   }
 
+  private async refreshVideoContainers(): Promise<void> {
+    const checks = await Promise.all(
+      VIDEO_CONTAINER_OPTIONS.map(async (option) =>
+        (await this.conversionService.canReencodeVideoAudio(option.id)) ? option.id : null
+      )
+    );
+    this.reencodableContainers.set(checks.filter((id): id is VideoContainerId => id !== null));
+  }
+
+  /** Picks the page's format unless the user is busy or the browser cannot encode it. */
+  private preselectFormat(formatId: AudioOutputFormatId): void {
+    const option = this.formatOptions().find((candidate) => candidate.id === formatId);
+    if (this.isConverting() || (this.optionsLoaded() && !option?.supported) || this.selectedFormatId() === formatId) {
+      return;
+    }
+    this.selectedPresetId.set(null);
+    this.selectedFormatId.set(formatId);
+    this.encoderSettings.set({});
+  }
+
+  /** The history page sends "Re-run" here as navigation state, since the converter lives on this page. */
+  private async rerunFromNavigation(): Promise<void> {
+    const rerunId = (this.location.getState() as { rerun?: unknown } | null)?.rerun;
+    if (typeof rerunId !== 'string') {
+      return;
+    }
+    // Reloading the page should not start over again.
+    this.location.replaceState(this.location.path());
+    const entry = await this.history.find(rerunId);
+    if (entry) {
+      this.onRerun(entry);
+    }
+  }
+
+  private async refreshRemoteMedia(): Promise<void> {
+    this.remoteMedia.set(await this.conversionService.getRemoteMediaCapabilities());
+  }
+
+  private applyPreset(preset: ConversionPreset): void {
+    const format = this.formatOptions().find((option) => option.id === preset.formatId);
+    if (!format?.supported) {
+      this.errorMessage.set(format?.reason ?? `"${preset.name}" uses a format that is not available in this browser.`);
+      return;
+    }
+
+    const formatChanged = this.selectedFormatId() !== preset.formatId;
+    this.selectedPresetId.set(preset.id);
+    this.selectedFormatId.set(preset.formatId);
+    this.encoderSettings.set({ ...preset.encoder });
+    if (formatChanged) {
+      this.resetConversionState();
+    }
+    const file = this.selectedFile();
+    if (file) {
+      this.status.set(`Ready to convert "${file.name}" with "${preset.name}".`);
+    }
+  }
+
+  /** File-specific settings of a past job, which only make sense once its source is loaded again. */
+  private applyHistorySelection(entry: HistoryEntry): void {
+    const { trim, audioTrack, tags, keepSourceTags } = entry.settings;
+    if (trim) {
+      this.trimRange.set({ ...trim });
+    }
+    this.selectedAudioTrack.set(audioTrack?.number ?? null);
+    this.tagEdits.set({ ...tags });
+    this.keepSourceTags.set(keepSourceTags ?? true);
+  }
+
+  private isSourceOf(entry: HistoryEntry, file: File): boolean {
+    return entry.sourceName === file.name && entry.sourceSize === file.size;
+  }
+
+  private recordHistory(
+    file: File,
+    formatId: AudioOutputFormatId,
+    results: ConversionResult[],
+    settings: HistorySettings,
+    duration: number | null
+  ): void {
+    for (const result of results) {
+      void this.history
+        .record(result, { sourceName: file.name, sourceSize: file.size, formatId, settings, duration })
+        .catch((error) => console.warn('[History] Unable to record the conversion.', error));
+    }
+  }
+
+  private pickSaveHandle(file: File, format: AudioOutputOption): Promise<FileSystemFileHandle> {
+    return window.showSaveFilePicker!({
+      suggestedName: this.conversionService.suggestOutputName(file.name, format.id),
+      types: [{ description: `${format.label} audio`, accept: { [format.mimeType]: [format.extension] } }]
+    });
+  }
+
+  private pickVideoSaveHandle(file: File, video: VideoConversionOptions): Promise<FileSystemFileHandle> {
+    const container = VIDEO_CONTAINER_OPTIONS.find((option) => option.id === video.container)!;
+    return window.showSaveFilePicker!({
+      suggestedName: this.conversionService.suggestVideoOutputName(file.name, video),
+      types: [{ description: `${container.label} video`, accept: { [container.mimeType]: [container.extension] } }]
+    });
+  }
+
+  private handleIncomingFiles(files: File[]): void {
+    if (!files.length) {
+      return;
+    }
+
+    if (this.isJoining()) {
+      this.addJoinFiles(files);
+      return;
+    }
+
+    if (files.length === 1 && !this.queue.items().length) {
+      this.handleIncomingFile(files[0]);
+      return;
+    }
+
+    if (this.videoOptions()) {
+      this.errorMessage.set('Video jobs run one file at a time. Drop a single file, or extract the audio to queue several.');
+      return;
+    }
+
+    const supported = files.filter((file) => this.isSupportedFile(file));
+    const skipped = files.length - supported.length;
+    if (!supported.length) {
+      this.errorMessage.set('Please choose video or audio files.');
+      return;
+    }
+
+    if (this.currentFormat()?.supported === false) {
+      this.errorMessage.set(this.currentFormat()?.reason ?? 'Selected format is not available in this browser.');
+      return;
+    }
+
+    const encoderProblem = this.encoderProblem();
+    if (encoderProblem) {
+      this.errorMessage.set(encoderProblem);
+      return;
+    }
+
+    this.queue.enqueue(supported, this.selectedFormatId(), {
+      encoder: this.encoderSettings(),
+      processing: this.processingOptions(),
+      trim: this.isTrimmed() ? this.trimRange() ?? undefined : undefined,
+      tags: this.tagEdits(),
+      keepSourceTags: this.keepSourceTags()
+    });
+    this.status.set(`Queued ${supported.length} file${supported.length === 1 ? '' : 's'} for ${this.formatLabel()}.`);
+    this.errorMessage.set(
+      skipped ? `Skipped ${skipped} file${skipped === 1 ? '' : 's'} that are not video or audio.` : null
+    );
+  }
+
+  private addJoinFiles(files: File[]): void {
+    const supported = files.filter((file) => this.isSupportedFile(file));
+    const skipped = files.length - supported.length;
+    this.onJoinFilesChange([...(this.joinFiles() ?? []), ...supported]);
+    if (skipped) {
+      this.errorMessage.set(`Skipped ${skipped} file${skipped === 1 ? '' : 's'} that are not video or audio.`);
+    }
+  }
+
   private handleIncomingFile(file: File): void {
     if (!this.isSupportedFile(file)) {
       this.errorMessage.set('Please choose a video or audio file.');
@@ -245,6 +1023,83 @@ export class VideoToAudioConverterComponent implements OnDestroy, OnInit {
     this.selectedFile.set(file);
     this.status.set(`Ready to convert "${file.name}" to ${this.formatLabel()}.`);
     this.errorMessage.set(null);
+    void this.loadProbe(file);
+  }
+
+  async loadWaveform(): Promise<void> {
+    const file = this.selectedFile();
+    if (!file || this.isDrawingWaveform()) {
+      return;
+    }
+
+    this.isDrawingWaveform.set(true);
+    this.waveformError.set(null);
+    try {
+      const waveform = await this.conversionService.computeWaveform(file, {
+        jobId: WAVEFORM_JOB_ID,
+        buckets: WAVEFORM_BUCKETS
+      });
+      if (this.selectedFile() === file) {
+        this.waveform.set(waveform);
+      }
+    } catch (error: unknown) {
+      if (this.selectedFile() === file && !isCancellationError(error)) {
+        this.waveformError.set(describeConversionError(error));
+      }
+    } finally {
+      if (this.selectedFile() === file) {
+        this.isDrawingWaveform.set(false);
+      }
+    }
+  }
+
+  private async loadProbe(file: File): Promise<void> {
+    this.resetProbe();
+    this.isProbing.set(true);
+
+    try {
+      const probe = await this.conversionService.probe(file);
+      if (this.selectedFile() !== file) {
+        return;
+      }
+      this.mediaProbe.set(probe);
+      if (probe.duration > 0) {
+        this.trimRange.set({ start: 0, end: probe.duration });
+      }
+      const rerun = this.pendingRerun;
+      if (rerun && this.isSourceOf(rerun, file)) {
+        this.pendingRerun = null;
+        this.applyHistorySelection(rerun);
+        void this.convertSelected();
+      }
+      if (probe.duration > 0 && probe.duration <= AUTO_WAVEFORM_MAX_SECONDS && this.audioTracks().length) {
+        void this.loadWaveform();
+      }
+    } catch (error: unknown) {
+      if (this.selectedFile() === file) {
+        this.probeError.set(describeConversionError(error));
+      }
+    } finally {
+      if (this.selectedFile() === file) {
+        this.isProbing.set(false);
+      }
+    }
+  }
+
+  private resetProbe(): void {
+    this.mediaProbe.set(null);
+    this.isProbing.set(false);
+    this.probeError.set(null);
+    this.trimRange.set(null);
+    this.selectedAudioTrack.set(null);
+    this.tagEdits.set({});
+    this.splitOptions.update((current) => (current?.mode === 'chapters' ? null : current));
+    if (this.isDrawingWaveform()) {
+      this.conversionService.cancelConversion(WAVEFORM_JOB_ID);
+    }
+    this.waveform.set(null);
+    this.isDrawingWaveform.set(false);
+    this.waveformError.set(null);
   }
 
   private isSupportedFile(file: File): boolean {
@@ -252,37 +1107,45 @@ export class VideoToAudioConverterComponent implements OnDestroy, OnInit {
     return (
       type.startsWith('video/') ||
       type.startsWith('audio/') ||
-      /\.(mp4|m4v|mkv|mov|webm|avi|flv|wmv|mp3|wav|m4a|aac|flac|ogg)$/i.test(file.name)
+      /\.(mp4|m4v|mkv|mka|mov|webm|avi|flv|wmv|mp3|wav|m4a|aac|flac|ogg|oga|opus)$/i.test(file.name)
     );
   }
 
   private resetConversionState(): void {
-    this.revokeObjectUrl();
+    this.revokeObjectUrls();
     this.progress.set(0);
+    this.progressDetails.set(null);
     this.logs.set([]);
-    this.downloadUrl.set(null);
-    this.outputFileName.set(null);
+    this.downloads.set([]);
+    this.previewResult.set(null);
+    this.loudnessSummary.set(null);
     this.errorMessage.set(null);
   }
 
-  private setDownloadResult(result: ConversionResult): void {
-    this.revokeObjectUrl();
-    this.outputFileName.set(result.fileName);
-
-    if (result.remoteUrl) {
-      this.downloadUrl.set(result.remoteUrl);
-      return;
-    }
+  private setDownloadResults(results: ConversionResult[]): void {
+    this.revokeObjectUrls();
+    this.downloads.set(
+      results.map((result) => {
+        if (result.remoteUrl) {
+          return { fileName: result.fileName, url: result.remoteUrl };
+        }
 
-    const blobUrl = URL.createObjectURL(result.blob);
-    this.objectUrl = blobUrl;
-    this.downloadUrl.set(this.sanitizer.bypassSecurityTrustUrl(blobUrl));
+        const blobUrl = URL.createObjectURL(result.blob);
+        this.objectUrls.push(blobUrl);
+        return { fileName: result.fileName, url: this.sanitizer.bypassSecurityTrustUrl(blobUrl) };
+      })
+    );
   }
 
-  private revokeObjectUrl(): void {
-    if (this.objectUrl) {
-      URL.revokeObjectURL(this.objectUrl);
-      this.objectUrl = null;
+  private revokeObjectUrls(): void {
+    for (const url of this.objectUrls) {
+      URL.revokeObjectURL(url);
     }
+    this.objectUrls = [];
   }
 }
+
+function sameSettings(a: EncoderSettings, b: EncoderSettings): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof EncoderSettings)[]);
+  return [...keys].every((key) => a[key] === b[key]);
+}
@@ -0,0 +1,215 @@
+import { CommonModule } from '@angular/common';
+import { Component, ElementRef, computed, effect, input, output, signal, viewChild } from '@angular/core';
+import { DomSanitizer, SafeUrl } from '@angular/platform-browser';
+import { ConversionResult, TrimRange, Waveform } from '../../mediabunny-conversion.service';
+import { formatTimecode } from '../../timecode';
+
+type PlaybackSource = 'source' | 'result';
+
+/** Matches the trim selector, so marks from the waveform never collapse the range. */
+const MIN_RANGE_SECONDS = 0.1;
+
+/** Asks the browser rather than going by the MIME type, since OGG Opus is `application/ogg`. */
+function canPlay(mimeType: string): boolean {
+  return typeof document !== 'undefined' && document.createElement('audio').canPlayType(mimeType) !== '';
+}
+
+@Component({
+  selector: 'app-waveform-player',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './waveform-player.component.html',
+  styleUrl: './waveform-player.component.scss'
+})
+export class WaveformPlayerComponent {
+  readonly sourceFile = input.required<File>();
+  readonly duration = input.required<number>();
+  readonly waveform = input<Waveform | null>(null);
+  readonly loading = input(false);
+  readonly error = input<string | null>(null);
+  /** Finished conversion to compare against the source; ZIP bundles and unplayable formats are skipped. */
+  readonly result = input<ConversionResult | null>(null);
+  /** Where in the source the result starts, i.e. the trim start it was converted with. */
+  readonly resultOffset = input(0);
+  readonly range = input<TrimRange | null>(null);
+  readonly disabled = input(false);
+  readonly rangeChange = output<TrimRange>();
+  /** Asks the parent to decode the source and draw its waveform. */
+  readonly requestWaveform = output<void>();
+
+  readonly playing = signal<PlaybackSource>('source');
+  readonly isPlaying = signal(false);
+  /** Playhead position on the source's timeline, in seconds. */
+  readonly currentTime = signal(0);
+  readonly sourceUrl = signal<SafeUrl | null>(null);
+  readonly resultUrl = signal<SafeUrl | null>(null);
+  readonly canCompare = computed(() => Boolean(this.resultUrl()));
+  readonly playheadLabel = computed(() => formatTimecode(this.currentTime(), true));
+
+  private readonly canvas = viewChild<ElementRef<HTMLCanvasElement>>('canvas');
+  private readonly sourceAudio = viewChild<ElementRef<HTMLAudioElement>>('sourceAudio');
+  private readonly resultAudio = viewChild<ElementRef<HTMLAudioElement>>('resultAudio');
+
+  constructor(private readonly sanitizer: DomSanitizer) {
+    effect((onCleanup) => {
+      const url = URL.createObjectURL(this.sourceFile());
+      this.sourceUrl.set(this.sanitizer.bypassSecurityTrustUrl(url));
+      this.currentTime.set(0);
+      onCleanup(() => URL.revokeObjectURL(url));
+    });
+
+    effect((onCleanup) => {
+      const result = this.result();
+      if (!result || !canPlay(result.mimeType)) {
+        this.resultUrl.set(null);
+        this.playing.set('source');
+        return;
+      }
+      const url = URL.createObjectURL(result.blob);
+      this.resultUrl.set(this.sanitizer.bypassSecurityTrustUrl(url));
+      onCleanup(() => URL.revokeObjectURL(url));
+    });
+
+    effect(() => this.draw());
+  }
+
+  togglePlayback(): void {
+    const audio = this.activeAudio();
+    if (!audio) {
+      return;
+    }
+    if (audio.paused) {
+      this.syncAudio(audio);
+      void audio.play();
+    } else {
+      audio.pause();
+    }
+  }
+
+  /** Switches between the source (A) and the converted result (B) at the same position. */
+  switchTo(target: PlaybackSource): void {
+    if (target === this.playing() || (target === 'result' && !this.canCompare())) {
+      return;
+    }
+
+    const previous = this.activeAudio();
+    const wasPlaying = Boolean(previous && !previous.paused);
+    previous?.pause();
+    this.playing.set(target);
+
+    const next = this.activeAudio();
+    if (next) {
+      this.syncAudio(next);
+      if (wasPlaying) {
+        void next.play();
+      }
+    }
+  }
+
+  onTimeUpdate(source: PlaybackSource, event: Event): void {
+    if (source !== this.playing()) {
+      return;
+    }
+    const audio = event.target as HTMLAudioElement;
+    this.currentTime.set(source === 'result' ? audio.currentTime + this.resultOffset() : audio.currentTime);
+  }
+
+  onPlayStateChange(source: PlaybackSource, event: Event): void {
+    if (source === this.playing()) {
+      this.isPlaying.set(!(event.target as HTMLAudioElement).paused);
+    }
+  }
+
+  /** Click seeks; Shift+click also moves the trim start there and Alt+click the trim end. */
+  onWaveformClick(event: MouseEvent): void {
+    const target = event.currentTarget as HTMLElement;
+    const bounds = target.getBoundingClientRect();
+    const ratio = Math.min(Math.max((event.clientX - bounds.left) / (bounds.width || 1), 0), 1);
+    const time = ratio * this.duration();
+    this.seek(time);
+
+    if (event.shiftKey) {
+      this.markStart();
+    } else if (event.altKey) {
+      this.markEnd();
+    }
+  }
+
+  markStart(): void {
+    if (this.disabled()) {
+      return;
+    }
+    const end = this.range()?.end ?? this.duration();
+    this.rangeChange.emit({ start: Math.max(Math.min(this.currentTime(), end - MIN_RANGE_SECONDS), 0), end });
+  }
+
+  markEnd(): void {
+    if (this.disabled()) {
+      return;
+    }
+    const start = this.range()?.start ?? 0;
+    this.rangeChange.emit({ start, end: Math.min(Math.max(this.currentTime(), start + MIN_RANGE_SECONDS), this.duration()) });
+  }
+
+  private seek(time: number): void {
+    this.currentTime.set(time);
+    const audio = this.activeAudio();
+    if (audio) {
+      this.syncAudio(audio);
+    }
+  }
+
+  private activeAudio(): HTMLAudioElement | null {
+    const element = this.playing() === 'result' ? this.resultAudio() : this.sourceAudio();
+    return element?.nativeElement ?? null;
+  }
+
+  /** Moves an element to the playhead, translating source time into result time for B. */
+  private syncAudio(audio: HTMLAudioElement): void {
+    const time = this.playing() === 'result' ? this.currentTime() - this.resultOffset() : this.currentTime();
+    const limit = Number.isFinite(audio.duration) ? audio.duration : Infinity;
+    audio.currentTime = Math.min(Math.max(time, 0), limit);
+  }
+
+  private draw(): void {
+    const canvas = this.canvas()?.nativeElement;
+    const waveform = this.waveform();
+    const range = this.range();
+    const playhead = this.currentTime();
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) {
+      return;
+    }
+
+    const ratio = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+    const width = Math.max(Math.round(canvas.clientWidth * ratio), 1);
+    const height = Math.max(Math.round(canvas.clientHeight * ratio), 1);
+    canvas.width = width;
+    canvas.height = height;
+    context.clearRect(0, 0, width, height);
+
+    const duration = this.duration() || 1;
+    if (range) {
+      context.fillStyle = 'rgba(99, 102, 241, 0.12)';
+      context.fillRect((range.start / duration) * width, 0, ((range.end - range.start) / duration) * width, height);
+    }
+
+    if (waveform?.peaks.length) {
+      const middle = height / 2;
+      context.fillStyle = '#6366f1';
+      for (let x = 0; x < width; x++) {
+        const from = Math.floor((x / width) * waveform.peaks.length);
+        const to = Math.max(Math.floor(((x + 1) / width) * waveform.peaks.length), from + 1);
+        let peak = 0;
+        for (let index = from; index < to && index < waveform.peaks.length; index++) {
+          peak = Math.max(peak, waveform.peaks[index]);
+        }
+        const bar = Math.max(peak * middle, ratio / 2);
+        context.fillRect(x, middle - bar, 1, bar * 2);
+      }
+    }
+
+    context.fillStyle = '#f97316';
+    context.fillRect((playhead / duration) * width - ratio / 2, 0, ratio, height);
+  }
+}
@@ -0,0 +1,206 @@
+import { AudioCodec, AudioSample, AudioSampleSource, InputAudioTrack, Output, Quality } from 'mediabunny';
+import { LinearResampler, SilenceDetector, mixChannels } from './audio-processing';
+import { concatPlanes, readChunks } from './processed-conversion';
+
+export interface ConcatenationOptions {
+  /** Overlap between consecutive parts in seconds, faded linearly; 0 or unset butts them together. */
+  crossfade?: number;
+  /** Trims audio quieter than this (dBFS) from the start and end of every part, so the joins have no gaps. */
+  gapThreshold?: number;
+}
+
+export interface ConcatenationPart {
+  track: InputAudioTrack;
+  name: string;
+}
+
+export interface ConcatenationParams {
+  parts: ConcatenationPart[];
+  output: Output;
+  codec: AudioCodec;
+  bitrate?: number | Quality;
+  sampleRate: number;
+  numberOfChannels: number;
+  options: ConcatenationOptions;
+  isCancelled: () => boolean;
+  /** Called when the analysis pass starts (`decoding`) and when writing starts (`encoding`). */
+  onPhase?: (phase: 'decoding' | 'encoding') => void;
+  onProgress?: (ratio: number) => void;
+  onLog?: (message: string) => void;
+}
+
+/**
+ * Decodes the parts one after another and encodes them as a single track. Every part is mixed and
+ * resampled to the output's channel count and sample rate. With gap removal each part is decoded twice:
+ * once to find where its sound starts and ends, once to write. Returns the length written, in seconds.
+ */
+export async function runConcatenation(params: ConcatenationParams): Promise<number> {
+  const { parts, output, sampleRate, numberOfChannels, options, isCancelled } = params;
+  const durations: number[] = [];
+  for (const part of parts) {
+    durations.push(await part.track.computeDuration());
+  }
+  const analyse = options.gapThreshold !== undefined;
+  const totalWork = durations.reduce((sum, duration) => sum + duration, 0) * (analyse ? 2 : 1) || 1;
+  let doneWork = 0;
+  const report = (partWork: number) => params.onProgress?.(Math.min((doneWork + partWork) / totalWork, 1));
+
+  const ranges: ({ start: number; end: number } | null)[] = durations.map((end) => ({ start: 0, end }));
+  if (analyse) {
+    params.onPhase?.('decoding');
+    params.onLog?.(`Finding the gaps at the start and end of ${parts.length} parts...`);
+    for (const [index, part] of parts.entries()) {
+      const detector = new SilenceDetector(options.gapThreshold!);
+      for await (const chunk of readChunks(part.track, ranges[index]!, isCancelled)) {
+        detector.push(mixChannels(chunk.planes, numberOfChannels), chunk.time, chunk.sampleRate);
+        report(chunk.time);
+      }
+      ranges[index] = detector.loudRange();
+      if (!ranges[index]) {
+        params.onLog?.(`Skipping "${part.name}": it stays below ${options.gapThreshold} dBFS throughout.`);
+      }
+      doneWork += durations[index];
+    }
+    if (ranges.every((range) => !range)) {
+      throw new Error('Every part is silent at the chosen threshold; nothing would be left to join.');
+    }
+  }
+
+  const source = new AudioSampleSource({ codec: params.codec, bitrate: params.bitrate });
+  output.addAudioTrack(source);
+
+  let writtenFrames = 0;
+  const fadeFrames = Math.round(Math.max(options.crossfade ?? 0, 0) * sampleRate);
+  const joiner = new PartJoiner(numberOfChannels, fadeFrames, async (planes) => {
+    const sample = new AudioSample({
+      data: concatPlanes(planes),
+      format: 'f32-planar',
+      numberOfChannels,
+      sampleRate,
+      timestamp: writtenFrames / sampleRate
+    });
+    try {
+      await source.add(sample);
+    } finally {
+      sample.close();
+    }
+    writtenFrames += planes[0].length;
+  });
+
+  try {
+    await output.start();
+    params.onPhase?.('encoding');
+    for (const [index, part] of parts.entries()) {
+      const range = ranges[index];
+      if (!range) {
+        continue;
+      }
+      const { track } = part;
+      params.onLog?.(`Adding part ${index + 1} of ${parts.length}: "${part.name}".`);
+      if (track.sampleRate !== sampleRate || track.numberOfChannels !== numberOfChannels) {
+        params.onLog?.(
+          `Converting ${track.sampleRate / 1000} kHz, ${track.numberOfChannels} channel audio to ${sampleRate / 1000} kHz, ${numberOfChannels} channel.`
+        );
+      }
+
+      const resampler = new LinearResampler(track.sampleRate, sampleRate);
+      for await (const chunk of readChunks(track, range, isCancelled)) {
+        const planes = resampler.process(mixChannels(chunk.planes, numberOfChannels));
+        if (planes[0]?.length) {
+          await joiner.push(planes);
+        }
+        report(chunk.time);
+      }
+      const tail = resampler.flush();
+      if (tail[0]?.length) {
+        await joiner.push(tail);
+      }
+      await joiner.endPart();
+      doneWork += durations[index];
+    }
+    await joiner.finish();
+
+    source.close();
+    await output.finalize();
+  } catch (error) {
+    await output.cancel().catch(() => undefined);
+    throw error;
+  }
+  return writtenFrames / sampleRate;
+}
+
+/**
+ * Writes parts back to back. The last `fadeFrames` of each part are held back and blended into the start
+ * of the next one, fading out while the next part fades in.
+ */
+class PartJoiner {
+  private held: Float32Array[];
+  /** End of the previous part, still being blended into the current one. */
+  private tail: Float32Array[] | null = null;
+  private tailPosition = 0;
+
+  constructor(
+    private readonly channelCount: number,
+    private readonly fadeFrames: number,
+    private readonly write: (planes: Float32Array[]) => Promise<void>
+  ) {
+    this.held = silence(channelCount, 0);
+  }
+
+  async push(planes: Float32Array[]): Promise<void> {
+    if (this.tail) {
+      this.blend(planes);
+    }
+    const combined = this.held[0].length ? this.held.map((plane, index) => joinPlanes(plane, planes[index])) : planes;
+    const writable = Math.max(combined[0].length - this.fadeFrames, 0);
+    if (writable) {
+      await this.write(combined.map((plane) => plane.subarray(0, writable)));
+    }
+    this.held = combined.map((plane) => plane.slice(writable));
+  }
+
+  async endPart(): Promise<void> {
+    if (this.tail) {
+      // The part was shorter than the crossfade; let the previous one finish fading into silence.
+      await this.push(silence(this.channelCount, this.tail[0].length - this.tailPosition));
+    }
+    this.tail = this.held[0].length ? this.held : null;
+    this.tailPosition = 0;
+    this.held = silence(this.channelCount, 0);
+  }
+
+  /** Nothing follows the last part, so its held-back end is written as it is. */
+  async finish(): Promise<void> {
+    if (this.tail) {
+      await this.write(this.tail.map((plane) => plane.subarray(this.tailPosition)));
+      this.tail = null;
+    }
+  }
+
+  private blend(planes: Float32Array[]): void {
+    const tail = this.tail!;
+    const tailFrames = tail[0].length;
+    const count = Math.min(planes[0].length, tailFrames - this.tailPosition);
+    for (let frame = 0; frame < count; frame++) {
+      const fadeIn = (this.tailPosition + frame + 0.5) / tailFrames;
+      planes.forEach((plane, channel) => {
+        plane[frame] = plane[frame] * fadeIn + tail[channel][this.tailPosition + frame] * (1 - fadeIn);
+      });
+    }
+    this.tailPosition += count;
+    if (this.tailPosition >= tailFrames) {
+      this.tail = null;
+    }
+  }
+}
+
+function silence(channelCount: number, frames: number): Float32Array[] {
+  return Array.from({ length: channelCount }, () => new Float32Array(frames));
+}
+
+function joinPlanes(a: Float32Array, b: Float32Array): Float32Array {
+  const joined = new Float32Array(a.length + b.length);
+  joined.set(a);
+  joined.set(b, a.length);
+  return joined;
+}
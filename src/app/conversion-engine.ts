@@ -0,0 +1,1692 @@
+import {
+  ADTS,
+  AdtsOutputFormat,
+  AudioCodec,
+  BlobSource,
+  Conversion,
+  ConversionAudioOptions,
+  DiscardedTrack,
+  FLAC,
+  FlacOutputFormat,
+  Input,
+  InputAudioTrack,
+  InputTrack,
+  MATROSKA,
+  MP3 as MP3_CONTAINER,
+  MP4,
+  MetadataTags,
+  MkvOutputFormat,
+  Mp3OutputFormat,
+  Mp4OutputFormat,
+  OGG,
+  OggOutputFormat,
+  Output,
+  QTFF,
+  QUALITY_HIGH,
+  QUALITY_LOW,
+  QUALITY_MEDIUM,
+  QUALITY_VERY_HIGH,
+  QUALITY_VERY_LOW,
+  Quality,
+  StreamTarget,
+  StreamTargetChunk,
+  WAVE,
+  WavOutputFormat,
+  WEBM,
+  WebMOutputFormat,
+  canEncodeAudio
+} from 'mediabunny';
+import { SilenceFinder } from './audio-processing';
+import { AudioReplacement, runAudioReplacement } from './audio-replacement';
+import { AudioTags, TagSupport, buildOutputTags, hasTags, toAudioTags } from './audio-tags';
+import { Chapter, readChapters } from './chapters';
+import { ChunkedBlobSink } from './chunked-blob-sink';
+import { ConversionError, DiscardedTrackInfo, cancelledError, toConversionError } from './conversion-errors';
+import { ConversionProgress, ProgressReporter } from './conversion-progress';
+import { ConcatenationOptions, ConcatenationPart, runConcatenation } from './concatenation';
+import { remuxFlacToOgg } from './ogg-flac';
+import {
+  AudioProcessingOptions,
+  LoudnessReport,
+  hasProcessing,
+  readChunks,
+  runProcessedConversion
+} from './processed-conversion';
+
+export type { AudioReplacement } from './audio-replacement';
+export type { AudioTags, CoverImage, TagSupport } from './audio-tags';
+export type { Chapter } from './chapters';
+export * from './conversion-errors';
+export type { ConversionPhase, ConversionProgress } from './conversion-progress';
+export type { ConcatenationOptions } from './concatenation';
+export type { AudioProcessingOptions, LoudnessReport } from './processed-conversion';
+
+export interface ConversionResult {
+  fileName: string;
+  blob: Blob;
+  remoteUrl?: string;
+  mimeType: string;
+  /** True when the output was streamed straight into a user-picked file instead of kept in the tab. */
+  savedToDisk?: boolean;
+  /** Loudness measurements, present when the audio went through the processing stage. */
+  loudness?: LoudnessReport;
+}
+
+export type AudioOutputFormatId = 'mp3' | 'wav' | 'ogg' | 'aac' | 'm4a' | 'webm' | 'flac' | 'ogg-flac' | 'mka';
+
+export interface AudioOutputOption {
+  id: AudioOutputFormatId;
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+  supported?: boolean;
+  reason?: string;
+  /** The browser cannot encode this format, so conversions are sent to the server's endpoint. */
+  remote?: boolean;
+}
+
+/**
+ * Jobs that keep the video stream as it is: `remux` copies every track into another container, `silent`
+ * drops the audio, `transcode-audio` re-encodes only the audio and `replace-audio` swaps in the audio of
+ * a separate file.
+ */
+export type VideoConversionMode = 'remux' | 'silent' | 'transcode-audio' | 'replace-audio';
+
+export type VideoContainerId = 'mp4' | 'webm' | 'mkv';
+
+export interface VideoConversionOptions {
+  mode: VideoConversionMode;
+  container: VideoContainerId;
+  /** Bitrate of the re-encoded audio in bits per second, for `transcode-audio` and `replace-audio`. */
+  audioBitrate?: number;
+  /** The new soundtrack, for `replace-audio`. */
+  replacement?: AudioReplacement;
+}
+
+export interface VideoModeOption {
+  id: VideoConversionMode;
+  label: string;
+  description: string;
+}
+
+export interface VideoContainerOption {
+  id: VideoContainerId;
+  label: string;
+  extension: string;
+  mimeType: string;
+  /** Codec the audio is re-encoded to in `transcode-audio` mode. */
+  audioCodecLabel: string;
+  audioBitrates: number[];
+  defaultAudioBitrate: number;
+}
+
+export interface ProgressCallbacks {
+  onProgress?: (ratio: number) => void;
+  /** Phase, media time, bytes, speed and ETA; sent on every phase change and a few times a second otherwise. */
+  onProgressDetails?: (progress: ConversionProgress) => void;
+  onLog?: (message: string) => void;
+}
+
+export type EncoderQualityPreset = 'very-low' | 'low' | 'medium' | 'high' | 'very-high';
+
+export type WavBitDepth = 16 | 24 | 32;
+
+/** User overrides on top of a format's default encoder options. Unset fields keep the format default. */
+export interface EncoderSettings {
+  /** Constant bitrate in bits per second. Ignored when `quality` is set. */
+  bitrate?: number;
+  /** Lets the encoder pick a bitrate for a subjective quality level instead of a fixed one. */
+  quality?: EncoderQualityPreset;
+  sampleRate?: number;
+  numberOfChannels?: number;
+  /** PCM sample size for WAV output; 32 writes float samples. */
+  bitDepth?: WavBitDepth;
+}
+
+/** What a format's encoder accepts; empty lists mean the setting does not apply. */
+export interface EncoderCapabilities {
+  bitrates: number[];
+  qualityPresets: boolean;
+  sampleRates: number[];
+  channelCounts: number[];
+  bitDepths: WavBitDepth[];
+  defaults: EncoderSettings;
+}
+
+export const ENCODER_QUALITY_PRESETS: { id: EncoderQualityPreset; label: string }[] = [
+  { id: 'very-low', label: 'Very low (voice)' },
+  { id: 'low', label: 'Low' },
+  { id: 'medium', label: 'Medium' },
+  { id: 'high', label: 'High' },
+  { id: 'very-high', label: 'Very high' }
+];
+
+const QUALITY_BY_PRESET: Record<EncoderQualityPreset, Quality> = {
+  'very-low': QUALITY_VERY_LOW,
+  low: QUALITY_LOW,
+  medium: QUALITY_MEDIUM,
+  high: QUALITY_HIGH,
+  'very-high': QUALITY_VERY_HIGH
+};
+
+const PCM_CODEC_BY_BIT_DEPTH: Record<WavBitDepth, 'pcm-s16' | 'pcm-s24' | 'pcm-f32'> = {
+  16: 'pcm-s16',
+  24: 'pcm-s24',
+  32: 'pcm-f32'
+};
+
+export interface TrimRange {
+  /** Start of the extracted range, in seconds from the beginning of the source. */
+  start: number;
+  /** End of the extracted range, in seconds. Must be greater than `start`. */
+  end: number;
+}
+
+export interface ProbedTrack {
+  /** Container-level track id. */
+  id: number;
+  type: 'audio' | 'video' | 'subtitle';
+  /** 1-based position among the tracks of the same type. */
+  number: number;
+  codec: string | null;
+  languageCode: string;
+  name: string | null;
+  duration: number;
+  /** Average bitrate in bits per second, estimated from the first packets. */
+  bitrate: number | null;
+  /** Whether this browser can decode the track's codec. */
+  decodable: boolean;
+  sampleRate?: number;
+  numberOfChannels?: number;
+  width?: number;
+  height?: number;
+}
+
+export interface MediaProbe {
+  containerName: string;
+  mimeType: string | null;
+  /** Duration in seconds, i.e. the largest end timestamp across all tracks. */
+  duration: number;
+  tracks: ProbedTrack[];
+  /** Descriptive tags already present in the source, carried over to the output by default. */
+  tags: AudioTags;
+  /** Chapter markers from the container, in order; empty when it has none. */
+  chapters: Chapter[];
+}
+
+/** Picks one audio track of a multi-track source; without it Mediabunny keeps its default track. */
+export interface AudioTrackSelector {
+  /** 1-based position among the source's audio tracks, as reported by `probe()`. */
+  number?: number;
+  /** ISO 639-2 language code; the first audio track in that language is used. */
+  languageCode?: string;
+}
+
+export interface ConvertOptions {
+  /**
+   * Identifies the conversion so several can run side by side and be cancelled individually.
+   * Calls without an id share a single default slot.
+   */
+  jobId?: string;
+  /**
+   * Cancels the conversion when aborted, like `cancelConversion(jobId)`. The input, the output and
+   * anything written so far are released before the returned promise rejects.
+   */
+  signal?: AbortSignal;
+  /**
+   * File System Access handle to stream the output into. Without it the output is collected in
+   * Blob chunks, which the browser may page to disk.
+   */
+  saveHandle?: OutputFileHandle;
+  /** Only convert this part of the source. */
+  trim?: TrimRange;
+  /** Overrides for bitrate, sample rate, channels and bit depth; validated against the format. */
+  encoder?: EncoderSettings;
+  audioTrack?: AudioTrackSelector;
+  /** Optional loudness normalization, limiting, fades and silence trimming between decode and encode. */
+  processing?: AudioProcessingOptions;
+  /** Tag edits written on top of (or, without `keepSourceTags`, instead of) the source's tags. */
+  tags?: AudioTags;
+  /** Copy title, artist, cover art and the like from the source. Defaults to true. */
+  keepSourceTags?: boolean;
+}
+
+/** Options for joining several sources; tags come from the first one. */
+export type ConcatenateOptions = Pick<
+  ConvertOptions,
+  'jobId' | 'signal' | 'saveHandle' | 'encoder' | 'tags' | 'keepSourceTags'
+> &
+  ConcatenationOptions;
+
+export interface SilenceSearchOptions {
+  /** Same slot as a conversion's `jobId`; `cancelConversion(jobId)` stops the search. */
+  jobId?: string;
+  /** Level below which audio counts as silence, in dBFS. */
+  threshold: number;
+  /** Shortest pause worth reporting, in seconds. */
+  minDuration: number;
+  /** Only search this part of the source. */
+  range?: TrimRange;
+  audioTrack?: AudioTrackSelector;
+}
+
+export interface WaveformOptions {
+  /** Same slot as a conversion's `jobId`; `cancelConversion(jobId)` stops the analysis. */
+  jobId?: string;
+  /** Number of peaks to compute across the whole duration. */
+  buckets: number;
+  audioTrack?: AudioTrackSelector;
+}
+
+export interface Waveform {
+  /** Seconds covered by `peaks`. */
+  duration: number;
+  /** Highest absolute sample per bucket across all channels, from 0 to 1. */
+  peaks: Float32Array;
+}
+
+/**
+ * The parts of a `FileSystemFileHandle` the engine writes through, so Node can stream into a file on
+ * disk the same way the page streams into a picked one.
+ */
+export interface OutputFileHandle {
+  readonly name: string;
+  createWritable(): Promise<OutputFileStream>;
+  getFile(): Promise<File>;
+}
+
+export interface OutputFileStream {
+  write(data: Blob | StreamTargetChunk): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+/** The audio track a conversion would read, as `inspectAudioSource()` reports it. */
+export interface AudioSourceInfo {
+  codec: AudioCodec | null;
+  /** Whether this environment can decode the codec. */
+  decodable: boolean;
+}
+
+/** The parts of Mediabunny's `DiscardedTrack` that `describeDiscardedTracks()` reports on. */
+export interface DiscardedTrackSummary {
+  track: Pick<InputTrack, 'type' | 'codec'>;
+  reason: DiscardedTrack['reason'];
+}
+
+/** Whether this environment can encode a codec; Mediabunny's `canEncodeAudio` by default. */
+export type CodecSupportCheck = (codec: AudioCodec) => Promise<boolean>;
+
+interface OutputDestination {
+  target: StreamTarget;
+  /** Resolves with the finished output once the Mediabunny output has been finalized. */
+  collect: (mimeType: string) => Promise<Blob>;
+  /** Drops anything written so far; safe to call after `collect`. */
+  discard: () => Promise<void>;
+}
+
+const OUTPUT_CHUNK_SIZE = 4 * 1024 * 1024;
+const INPUT_CACHE_SIZE = 16 * 1024 * 1024;
+
+/** Job id used by callers that run a single conversion at a time. */
+export const DEFAULT_JOB_ID = 'default';
+
+/** Packets inspected per track when estimating bitrates for a probe. */
+const PROBE_PACKET_COUNT = 200;
+
+const INPUT_FORMATS = [MP4, QTFF, MATROSKA, WEBM, WAVE, OGG, FLAC, MP3_CONTAINER, ADTS];
+
+type AudioFormatSpec = {
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+  codec: 'mp3' | 'pcm-s16' | 'opus' | 'aac' | 'flac';
+  alwaysAvailable?: boolean;
+  unsupportedMessage?: string;
+  createFormat: () =>
+    | Mp3OutputFormat
+    | WavOutputFormat
+    | OggOutputFormat
+    | AdtsOutputFormat
+    | Mp4OutputFormat
+    | WebMOutputFormat
+    | FlacOutputFormat
+    | MkvOutputFormat;
+  /** Rewrites the muxed file into the final container, for containers Mediabunny cannot write itself. */
+  remux?: (blob: Blob) => Promise<Blob>;
+  audioOptions: ConversionAudioOptions;
+  encoder: EncoderCapabilities;
+  tags: TagSupport | null;
+};
+
+const LOSSY_BITRATES = [64_000, 96_000, 128_000, 160_000, 192_000, 256_000, 320_000];
+
+const AAC_ENCODER: EncoderCapabilities = {
+  bitrates: LOSSY_BITRATES,
+  qualityPresets: true,
+  sampleRates: [44_100, 48_000],
+  channelCounts: [1, 2],
+  bitDepths: [],
+  defaults: { bitrate: 192_000 }
+};
+
+const OPUS_ENCODER: EncoderCapabilities = {
+  bitrates: [32_000, 64_000, 96_000, 128_000, 160_000, 192_000, 256_000],
+  qualityPresets: true,
+  sampleRates: [48_000],
+  channelCounts: [1, 2],
+  bitDepths: [],
+  defaults: { bitrate: 128_000, sampleRate: 48_000 }
+};
+
+const FLAC_ENCODER: EncoderCapabilities = {
+  bitrates: [],
+  qualityPresets: false,
+  sampleRates: [44_100, 48_000, 96_000],
+  channelCounts: [1, 2],
+  bitDepths: [],
+  defaults: {}
+};
+
+const OPUS_UNSUPPORTED = 'This browser cannot encode Opus audio yet. Try Chrome 116+, Firefox 130+, or use MP3/WAV.';
+const AAC_UNSUPPORTED = 'AAC encoding needs native WebCodecs support (Safari 17+, Chrome 120+ with flags).';
+const FLAC_UNSUPPORTED = 'FLAC encoding is still experimental in WebCodecs. Use WAV for lossless audio in this browser.';
+
+const AUDIO_FORMAT_SPECS: Record<AudioOutputFormatId, AudioFormatSpec> = {
+  mp3: {
+    label: 'MP3',
+    description: 'Best compatibility and small file size.',
+    extension: '.mp3',
+    mimeType: 'audio/mpeg',
+    codec: 'mp3',
+    alwaysAvailable: true,
+    createFormat: () => new Mp3OutputFormat(),
+    audioOptions: { codec: 'mp3', bitrate: 192_000 },
+    encoder: {
+      bitrates: LOSSY_BITRATES,
+      qualityPresets: true,
+      sampleRates: [32_000, 44_100, 48_000],
+      channelCounts: [1, 2],
+      bitDepths: [],
+      defaults: { bitrate: 192_000 }
+    },
+    tags: { label: 'ID3v2', coverArt: true }
+  },
+  wav: {
+    label: 'WAV',
+    description: 'Uncompressed PCM for editing.',
+    extension: '.wav',
+    mimeType: 'audio/wav',
+    codec: 'pcm-s16',
+    alwaysAvailable: true,
+    createFormat: () => new WavOutputFormat({ large: true }),
+    audioOptions: { codec: 'pcm-s16', sampleRate: 48_000, numberOfChannels: 2 },
+    encoder: {
+      bitrates: [],
+      qualityPresets: false,
+      sampleRates: [22_050, 44_100, 48_000, 96_000],
+      channelCounts: [1, 2],
+      bitDepths: [16, 24, 32],
+      defaults: { sampleRate: 48_000, numberOfChannels: 2, bitDepth: 16 }
+    },
+    tags: { label: 'RIFF INFO', coverArt: false }
+  },
+  ogg: {
+    label: 'OGG (Opus)',
+    description: 'High quality streaming friendly files.',
+    extension: '.ogg',
+    mimeType: 'application/ogg',
+    codec: 'opus',
+    unsupportedMessage: OPUS_UNSUPPORTED,
+    createFormat: () => new OggOutputFormat(),
+    audioOptions: { codec: 'opus', bitrate: 128_000, sampleRate: 48_000 },
+    encoder: OPUS_ENCODER,
+    tags: { label: 'Vorbis comments', coverArt: true }
+  },
+  aac: {
+    label: 'AAC',
+    description: 'Raw ADTS stream, for tools that expect bare AAC.',
+    extension: '.aac',
+    mimeType: 'audio/aac',
+    codec: 'aac',
+    unsupportedMessage: AAC_UNSUPPORTED,
+    createFormat: () => new AdtsOutputFormat(),
+    audioOptions: { codec: 'aac', bitrate: 192_000 },
+    encoder: AAC_ENCODER,
+    tags: null
+  },
+  m4a: {
+    label: 'M4A (AAC)',
+    description: 'AAC in an MP4 container. Great for iOS, Safari and Apple Music.',
+    extension: '.m4a',
+    mimeType: 'audio/mp4',
+    codec: 'aac',
+    unsupportedMessage: AAC_UNSUPPORTED,
+    createFormat: () => new Mp4OutputFormat(),
+    audioOptions: { codec: 'aac', bitrate: 192_000 },
+    encoder: AAC_ENCODER,
+    tags: { label: 'iTunes metadata', coverArt: true }
+  },
+  webm: {
+    label: 'WebM (Opus)',
+    description: 'Opus in WebM, plays natively in every modern browser.',
+    extension: '.webm',
+    mimeType: 'audio/webm',
+    codec: 'opus',
+    unsupportedMessage: OPUS_UNSUPPORTED,
+    createFormat: () => new WebMOutputFormat(),
+    audioOptions: { codec: 'opus', bitrate: 128_000, sampleRate: 48_000 },
+    encoder: OPUS_ENCODER,
+    // WebM has no attachments, so players would not see a cover.
+    tags: { label: 'Matroska tags', coverArt: false }
+  },
+  flac: {
+    label: 'FLAC',
+    description: 'Lossless compression with smaller size than WAV.',
+    extension: '.flac',
+    mimeType: 'audio/flac',
+    codec: 'flac',
+    unsupportedMessage: FLAC_UNSUPPORTED,
+    createFormat: () => new FlacOutputFormat(),
+    audioOptions: { codec: 'flac' },
+    encoder: FLAC_ENCODER,
+    tags: { label: 'Vorbis comments', coverArt: true }
+  },
+  'ogg-flac': {
+    label: 'OGG (FLAC)',
+    description: 'Lossless FLAC in an Ogg container.',
+    extension: '.oga',
+    mimeType: 'audio/ogg',
+    codec: 'flac',
+    unsupportedMessage: FLAC_UNSUPPORTED,
+    createFormat: () => new FlacOutputFormat(),
+    remux: remuxFlacToOgg,
+    audioOptions: { codec: 'flac' },
+    encoder: FLAC_ENCODER,
+    tags: { label: 'Vorbis comments', coverArt: true }
+  },
+  mka: {
+    label: 'MKA (FLAC)',
+    description: 'Lossless FLAC in a Matroska audio container.',
+    extension: '.mka',
+    mimeType: 'audio/x-matroska',
+    codec: 'flac',
+    unsupportedMessage: FLAC_UNSUPPORTED,
+    createFormat: () => new MkvOutputFormat(),
+    audioOptions: { codec: 'flac' },
+    encoder: FLAC_ENCODER,
+    tags: { label: 'Matroska tags', coverArt: true }
+  }
+};
+
+export const VIDEO_MODE_OPTIONS: VideoModeOption[] = [
+  { id: 'remux', label: 'Change container', description: 'Copies video and audio into a new container without re-encoding.' },
+  { id: 'silent', label: 'Remove audio', description: 'Keeps the video untouched and drops every audio track.' },
+  { id: 'transcode-audio', label: 'Re-encode audio', description: 'Converts the audio and copies the video as it is.' },
+  {
+    id: 'replace-audio',
+    label: 'Replace audio',
+    description: 'Copies the video and puts a separate audio file, such as a voice-over, underneath it.'
+  }
+];
+
+type VideoContainerSpec = Omit<VideoContainerOption, 'id'> & {
+  audioCodec: 'aac' | 'opus';
+  createFormat: () => Mp4OutputFormat | WebMOutputFormat | MkvOutputFormat;
+};
+
+const VIDEO_CONTAINER_SPECS: Record<VideoContainerId, VideoContainerSpec> = {
+  mp4: {
+    label: 'MP4',
+    extension: '.mp4',
+    mimeType: 'video/mp4',
+    audioCodec: 'aac',
+    audioCodecLabel: 'AAC',
+    audioBitrates: AAC_ENCODER.bitrates,
+    defaultAudioBitrate: 192_000,
+    createFormat: () => new Mp4OutputFormat()
+  },
+  webm: {
+    label: 'WebM',
+    extension: '.webm',
+    mimeType: 'video/webm',
+    audioCodec: 'opus',
+    audioCodecLabel: 'Opus',
+    audioBitrates: OPUS_ENCODER.bitrates,
+    defaultAudioBitrate: 128_000,
+    createFormat: () => new WebMOutputFormat()
+  },
+  mkv: {
+    label: 'MKV',
+    extension: '.mkv',
+    mimeType: 'video/x-matroska',
+    audioCodec: 'opus',
+    audioCodecLabel: 'Opus',
+    audioBitrates: OPUS_ENCODER.bitrates,
+    defaultAudioBitrate: 128_000,
+    createFormat: () => new MkvOutputFormat()
+  }
+};
+
+/** Added to the output name so a copy in the source's own container does not look like the original. */
+const VIDEO_MODE_SUFFIXES: Record<VideoConversionMode, string> = {
+  remux: '',
+  silent: '_silent',
+  'transcode-audio': '_reencoded',
+  'replace-audio': '_new_audio'
+};
+
+/** Sample rate of audio encoded for video containers; both AAC and Opus encoders accept it. */
+const VIDEO_AUDIO_SAMPLE_RATE = 48_000;
+
+export const VIDEO_CONTAINER_OPTIONS: VideoContainerOption[] = Object.entries(VIDEO_CONTAINER_SPECS).map(
+  ([id, { label, extension, mimeType, audioCodecLabel, audioBitrates, defaultAudioBitrate }]) => ({
+    id: id as VideoContainerId,
+    label,
+    extension,
+    mimeType,
+    audioCodecLabel,
+    audioBitrates,
+    defaultAudioBitrate
+  })
+);
+
+export const AUDIO_OUTPUT_OPTIONS: AudioOutputOption[] = Object.entries(AUDIO_FORMAT_SPECS).map(
+  ([id, spec]) => ({
+    id: id as AudioOutputFormatId,
+    label: spec.label,
+    description: spec.description,
+    extension: spec.extension,
+    mimeType: spec.mimeType
+  })
+);
+
+/** True for cancelled jobs and for aborts elsewhere, such as a dismissed save dialog. */
+export function isCancellationError(error: unknown): boolean {
+  if (error instanceof ConversionError) {
+    return error.code === 'cancelled';
+  }
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+export function describeConversionError(error: unknown): string {
+  const normalized = toConversionError(error);
+  return normalized instanceof Error ? normalized.message : 'Unexpected error during conversion.';
+}
+
+interface EngineJob {
+  signal: AbortSignal;
+  onAbort: (listener: () => void) => void;
+  throwIfAborted: () => void;
+  /** Settles like `work`, or rejects with a `cancelled` error as soon as the job is aborted. */
+  race: <T>(work: Promise<T>) => Promise<T>;
+  /** Frees the job slot; call once the job's resources have been released. */
+  end: () => void;
+}
+
+/**
+ * Mediabunny's `Conversion.execute()` never settles once cancelled, so aborted work is abandoned
+ * instead of awaited; its own rejection is swallowed since nobody listens for it anymore.
+ */
+function abortable<T>(work: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    work.catch(() => undefined);
+    return Promise.reject(cancelledError());
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      work.catch(() => undefined);
+      reject(cancelledError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    work.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * The actual demux/decode/encode work, free of Angular so it can run inside the conversion worker.
+ * `MediabunnyConversionService` drives it from the page.
+ */
+export class ConversionEngine {
+  /** Aborting a job's controller cancels it; `cancelConversion()` and callers' own signals both go through it. */
+  private readonly activeJobs = new Map<string, AbortController>();
+  private readonly supportChecks = new Map<AudioOutputFormatId, Promise<boolean>>();
+
+  constructor(private readonly canEncode: CodecSupportCheck = canEncodeAudio) {}
+
+  async convert(
+    file: File,
+    formatId: AudioOutputFormatId,
+    callbacks?: ProgressCallbacks,
+    options: ConvertOptions = {}
+  ): Promise<ConversionResult> {
+    const jobId = options.jobId ?? DEFAULT_JOB_ID;
+    if (this.activeJobs.has(jobId)) {
+      throw new Error('Another conversion is already in progress.');
+    }
+
+    const spec = AUDIO_FORMAT_SPECS[formatId];
+    if (!spec) {
+      throw new Error(`Unsupported output format: ${formatId}`);
+    }
+
+    if (!(await this.isFormatSupported(formatId))) {
+      throw this.encoderUnavailableError(formatId, spec);
+    }
+
+    const settingsProblem = this.validateEncoderSettings(formatId, options.encoder ?? {});
+    if (settingsProblem) {
+      throw new Error(settingsProblem);
+    }
+    const audioOptions = this.resolveAudioOptions(spec, options.encoder ?? {});
+
+    const trim = options.trim;
+    if (trim && !(trim.start >= 0 && trim.end > trim.start)) {
+      throw new Error('The trim range must start at 0 or later and end after its start.');
+    }
+
+    const job = this.startJob(jobId, options.signal);
+    const progress = new ProgressReporter(callbacks?.onProgress, callbacks?.onProgressDetails);
+
+    callbacks?.onLog?.('Streaming file from disk for Mediabunny analysis...');
+    const input = this.createInput(file);
+    progress.watchSource(input.source);
+
+    let destination: OutputDestination;
+    try {
+      // Remuxed formats are rewritten in memory first, so only the finished file reaches the picked handle.
+      destination = await this.createDestination(spec.remux ? undefined : options.saveHandle, () => job.signal.aborted);
+    } catch (error) {
+      job.end();
+      input.dispose();
+      throw error;
+    }
+    progress.watchTarget(destination.target);
+
+    const outputFormat = spec.createFormat();
+    const output = new Output({
+      format: outputFormat,
+      target: destination.target
+    });
+
+    let conversion: Conversion | null = null;
+    let loudness: LoudnessReport | undefined;
+    let finished = false;
+    job.onAbort(() => {
+      callbacks?.onLog?.('Cancel requested. Stopping conversion...');
+      void conversion?.cancel().catch(() => undefined);
+    });
+
+    try {
+      progress.update(0);
+      callbacks?.onLog?.(`Loading "${file.name}" with Mediabunny...`);
+
+      await this.detectContainer(input, file, callbacks);
+      progress.setPhase('probing');
+
+      const tags = await this.resolveOutputTags(input, spec, options, callbacks);
+      const selected = options.audioTrack ? await this.selectAudioTrack(input, options.audioTrack) : null;
+      if (selected) {
+        callbacks?.onLog?.(`Using audio track #${selected.number} (${selected.track.languageCode}).`);
+      }
+      if (trim) {
+        callbacks?.onLog?.(`Extracting ${trim.start.toFixed(1)}s to ${trim.end.toFixed(1)}s of the source.`);
+      }
+
+      if (hasProcessing(options.processing)) {
+        const track = selected?.track ?? (await input.getPrimaryAudioTrack());
+        if (!track) {
+          throw new Error('This file does not contain any audio tracks.');
+        }
+        if (!(await track.canDecode())) {
+          throw this.undecodableError(
+            track,
+            `Unable to convert this file: audio track discarded (${this.humanizeReason('undecodable_source_codec')}).`,
+            file
+          );
+        }
+
+        if (hasTags(tags)) {
+          output.setMetadataTags(tags);
+        }
+        const range = { start: trim?.start ?? 0, end: trim?.end ?? (await track.computeDuration()) };
+        progress.setDuration(range.end - range.start);
+        job.throwIfAborted();
+        loudness = await job.race(
+          runProcessedConversion({
+            track,
+            output,
+            codec: audioOptions.codec ?? spec.codec,
+            bitrate: audioOptions.bitrate,
+            sampleRate: this.encoderSampleRate(spec, audioOptions.sampleRate, track.sampleRate),
+            numberOfChannels: audioOptions.numberOfChannels,
+            processing: options.processing,
+            range,
+            isCancelled: () => job.signal.aborted,
+            onPhase: (phase) => progress.setPhase(phase),
+            onProgress: (ratio) => progress.update(ratio),
+            onLog: callbacks?.onLog
+          })
+        );
+      } else {
+        const audio = selected
+          ? (track: InputAudioTrack) => (track.id === selected.track.id ? audioOptions : { discard: true })
+          : audioOptions;
+
+        conversion = await Conversion.init({
+          input,
+          output,
+          video: { discard: true },
+          audio,
+          trim,
+          tags
+        });
+
+        if (!conversion.isValid) {
+          if (conversion.discardedTracks.length === 0) {
+            throw new Error('Mediabunny rejected the file: unrecognized or unsupported audio/video tracks.');
+          }
+          throw this.describeDiscardedTracks(conversion.discardedTracks, file);
+        }
+        job.throwIfAborted();
+
+        progress.setDuration(trim ? trim.end - trim.start : await input.computeDuration());
+        conversion.onProgress = (ratio: number) => {
+          if (!job.signal.aborted) {
+            progress.update(ratio);
+          }
+        };
+
+        callbacks?.onLog?.(`Transcoding audio to ${spec.label} with Mediabunny...`);
+        progress.setPhase('encoding');
+        await job.race(conversion.execute());
+      }
+
+      job.throwIfAborted();
+      progress.setPhase('finalizing');
+      let blob = await destination.collect(spec.mimeType);
+      if (!blob.size) {
+        throw new ConversionError('empty-output', 'Mediabunny did not return any audio bytes.');
+      }
+      if (spec.remux) {
+        callbacks?.onLog?.(`Repackaging as ${spec.label}...`);
+        blob = await spec.remux(blob);
+        if (options.saveHandle) {
+          blob = await this.writeToHandle(blob, options.saveHandle);
+        }
+      }
+      finished = true;
+
+      progress.complete(blob.size);
+      callbacks?.onLog?.('Conversion finished.');
+
+      return {
+        fileName: options.saveHandle?.name ?? this.buildOutputName(file.name, spec.extension),
+        blob,
+        mimeType: spec.mimeType,
+        savedToDisk: Boolean(options.saveHandle),
+        loudness
+      };
+    } catch (error) {
+      throw toConversionError(error);
+    } finally {
+      job.end();
+      input.dispose();
+      if (!finished) {
+        this.releaseOutput(output);
+        await destination.discard();
+      }
+    }
+  }
+
+  /**
+   * Writes a new video file without re-encoding the video stream. Fails up front, instead of silently
+   * transcoding, when the target container cannot hold a track as it is.
+   */
+  async convertVideo(
+    file: File,
+    video: VideoConversionOptions,
+    callbacks?: ProgressCallbacks,
+    options: Pick<ConvertOptions, 'jobId' | 'signal' | 'saveHandle'> = {}
+  ): Promise<ConversionResult> {
+    const jobId = options.jobId ?? DEFAULT_JOB_ID;
+    if (this.activeJobs.has(jobId)) {
+      throw new Error('Another conversion is already in progress.');
+    }
+
+    const spec = VIDEO_CONTAINER_SPECS[video.container];
+    if (!spec) {
+      throw new Error(`Unsupported video container: ${video.container}`);
+    }
+    const audioBitrate = video.audioBitrate ?? spec.defaultAudioBitrate;
+    const replacement = video.replacement;
+    if (video.mode === 'replace-audio' && !replacement) {
+      throw new Error('Choose the audio file to put under the video.');
+    }
+    if (video.mode === 'transcode-audio' || video.mode === 'replace-audio') {
+      if (!spec.audioBitrates.includes(audioBitrate)) {
+        throw new Error(
+          `${spec.audioCodecLabel} supports bitrates of ${spec.audioBitrates.map((rate) => rate / 1000).join(', ')} kbps.`
+        );
+      }
+      if (!(await this.checkCodecSupport(spec.audioCodec))) {
+        throw new ConversionError(
+          'encoder-unavailable',
+          `This browser cannot encode ${spec.audioCodecLabel} audio for ${spec.label} files.`,
+          { codec: spec.audioCodec, formatId: video.container }
+        );
+      }
+    }
+
+    const job = this.startJob(jobId, options.signal);
+    const progress = new ProgressReporter(callbacks?.onProgress, callbacks?.onProgressDetails);
+    const input = this.createInput(file);
+    const replacementInput = replacement ? this.createInput(replacement.file) : null;
+    progress.watchSource(input.source);
+    if (replacementInput) {
+      progress.watchSource(replacementInput.source);
+    }
+    let destination: OutputDestination;
+    try {
+      destination = await this.createDestination(options.saveHandle, () => job.signal.aborted);
+    } catch (error) {
+      job.end();
+      input.dispose();
+      replacementInput?.dispose();
+      throw error;
+    }
+    progress.watchTarget(destination.target);
+    const output = new Output({ format: spec.createFormat(), target: destination.target });
+
+    let conversion: Conversion | null = null;
+    let finished = false;
+    job.onAbort(() => {
+      callbacks?.onLog?.('Cancel requested. Stopping conversion...');
+      void conversion?.cancel().catch(() => undefined);
+    });
+
+    try {
+      progress.update(0);
+      callbacks?.onLog?.(`Loading "${file.name}" with Mediabunny...`);
+      await this.detectContainer(input, file, callbacks);
+      progress.setPhase('probing');
+
+      const videoTracks = await input.getVideoTracks();
+      if (!videoTracks.length) {
+        throw new Error('This file has no video track to keep. Pick an audio format instead.');
+      }
+      for (const track of videoTracks) {
+        if (!track.codec || !output.format.getSupportedVideoCodecs().includes(track.codec)) {
+          throw new Error(
+            `${spec.label} cannot hold this ${track.codec?.toUpperCase() ?? 'unknown'} video without re-encoding it. Try another container.`
+          );
+        }
+      }
+      if (video.mode === 'remux') {
+        for (const track of await input.getAudioTracks()) {
+          if (!track.codec || !output.format.getSupportedAudioCodecs().includes(track.codec)) {
+            throw new Error(
+              `${spec.label} cannot hold this ${track.codec?.toUpperCase() ?? 'unknown'} audio as it is. Re-encode the audio to ${spec.audioCodecLabel} instead.`
+            );
+          }
+        }
+      }
+
+      const mode = VIDEO_MODE_OPTIONS.find((option) => option.id === video.mode)!;
+      const onProgress = (ratio: number) => {
+        if (!job.signal.aborted) {
+          progress.update(ratio);
+        }
+      };
+      progress.setDuration(await input.computeDuration());
+
+      if (replacementInput && replacement) {
+        callbacks?.onLog?.(`${mode.label} → ${spec.label}: using "${replacement.file.name}" as the soundtrack.`);
+        await this.detectContainer(replacementInput, replacement.file, callbacks);
+        job.throwIfAborted();
+        progress.setPhase('encoding');
+        await job.race(
+          runAudioReplacement({
+            video: input,
+            audio: replacementInput,
+            output,
+            codec: spec.audioCodec,
+            bitrate: audioBitrate,
+            sampleRate: VIDEO_AUDIO_SAMPLE_RATE,
+            offset: replacement.offset ?? 0,
+            volume: replacement.volume ?? 1,
+            isCancelled: () => job.signal.aborted,
+            onProgress,
+            onLog: callbacks?.onLog
+          })
+        );
+      } else {
+        const audio: ConversionAudioOptions =
+          video.mode === 'silent'
+            ? { discard: true }
+            : video.mode === 'transcode-audio'
+              ? { codec: spec.audioCodec, bitrate: audioBitrate, forceTranscode: true }
+              : {};
+        conversion = await Conversion.init({ input, output, video: {}, audio });
+        if (!conversion.isValid) {
+          throw this.describeDiscardedTracks(conversion.discardedTracks, file);
+        }
+        job.throwIfAborted();
+
+        conversion.onProgress = onProgress;
+        callbacks?.onLog?.(`${mode.label} → ${spec.label}: copying the video stream...`);
+        progress.setPhase('encoding');
+        await job.race(conversion.execute());
+      }
+
+      job.throwIfAborted();
+      progress.setPhase('finalizing');
+      const blob = await destination.collect(spec.mimeType);
+      if (!blob.size) {
+        throw new ConversionError('empty-output', 'Mediabunny did not return any bytes.');
+      }
+      finished = true;
+
+      progress.complete(blob.size);
+      callbacks?.onLog?.('Conversion finished.');
+      return {
+        fileName: options.saveHandle?.name ?? this.suggestVideoOutputName(file.name, video),
+        blob,
+        mimeType: spec.mimeType,
+        savedToDisk: Boolean(options.saveHandle)
+      };
+    } catch (error) {
+      throw toConversionError(error);
+    } finally {
+      job.end();
+      input.dispose();
+      replacementInput?.dispose();
+      if (!finished) {
+        this.releaseOutput(output);
+        await destination.discard();
+      }
+    }
+  }
+
+  /**
+   * Joins the audio of several files, in order, into one track. Sources with other sample rates or
+   * channel layouts are converted to the output's; progress covers all of them together.
+   */
+  async concatenate(
+    files: File[],
+    formatId: AudioOutputFormatId,
+    callbacks?: ProgressCallbacks,
+    options: ConcatenateOptions = {}
+  ): Promise<ConversionResult> {
+    const jobId = options.jobId ?? DEFAULT_JOB_ID;
+    if (this.activeJobs.has(jobId)) {
+      throw new Error('Another conversion is already in progress.');
+    }
+    if (files.length < 2) {
+      throw new Error('Pick at least two files to join.');
+    }
+
+    const spec = AUDIO_FORMAT_SPECS[formatId];
+    if (!spec) {
+      throw new Error(`Unsupported output format: ${formatId}`);
+    }
+    if (!(await this.isFormatSupported(formatId))) {
+      throw this.encoderUnavailableError(formatId, spec);
+    }
+    const settingsProblem = this.validateEncoderSettings(formatId, options.encoder ?? {});
+    if (settingsProblem) {
+      throw new Error(settingsProblem);
+    }
+    if (options.crossfade !== undefined && !(options.crossfade >= 0)) {
+      throw new Error('The crossfade cannot be negative.');
+    }
+    const audioOptions = this.resolveAudioOptions(spec, options.encoder ?? {});
+
+    const job = this.startJob(jobId, options.signal);
+    const progress = new ProgressReporter(callbacks?.onProgress, callbacks?.onProgressDetails);
+    const inputs = files.map((file) => this.createInput(file));
+    inputs.forEach((input) => progress.watchSource(input.source));
+    let destination: OutputDestination;
+    try {
+      destination = await this.createDestination(spec.remux ? undefined : options.saveHandle, () => job.signal.aborted);
+    } catch (error) {
+      job.end();
+      inputs.forEach((input) => input.dispose());
+      throw error;
+    }
+    progress.watchTarget(destination.target);
+    const output = new Output({ format: spec.createFormat(), target: destination.target });
+
+    let finished = false;
+    job.onAbort(() => callbacks?.onLog?.('Cancel requested. Stopping conversion...'));
+
+    try {
+      progress.update(0);
+      const parts: ConcatenationPart[] = [];
+      let totalDuration = 0;
+      for (const [index, input] of inputs.entries()) {
+        const file = files[index];
+        callbacks?.onLog?.(`Loading "${file.name}" with Mediabunny...`);
+        await this.detectContainer(input, file, callbacks);
+        const track = await input.getPrimaryAudioTrack();
+        if (!track) {
+          throw new Error(`"${file.name}" does not contain any audio tracks.`);
+        }
+        if (!(await track.canDecode())) {
+          throw this.undecodableError(
+            track,
+            `Unable to read "${file.name}": ${this.humanizeReason('undecodable_source_codec')}.`,
+            file
+          );
+        }
+        parts.push({ track, name: file.name });
+        totalDuration += await track.computeDuration();
+      }
+      progress.setPhase('probing');
+      progress.setDuration(totalDuration);
+
+      // Keep the first part's rate when the encoder takes it, so at least that one is not resampled.
+      const { channelCounts } = spec.encoder;
+      const sampleRate = this.encoderSampleRate(spec, audioOptions.sampleRate, parts[0].track.sampleRate);
+      const numberOfChannels = audioOptions.numberOfChannels ?? Math.min(Math.max(...channelCounts), 2);
+
+      const tags = await this.resolveOutputTags(inputs[0], spec, options, callbacks);
+      if (hasTags(tags)) {
+        output.setMetadataTags(tags);
+      }
+      callbacks?.onLog?.(`Joining ${files.length} files into one ${spec.label} file...`);
+      job.throwIfAborted();
+      const duration = await job.race(
+        runConcatenation({
+          parts,
+          output,
+          codec: audioOptions.codec ?? spec.codec,
+          bitrate: audioOptions.bitrate,
+          sampleRate,
+          numberOfChannels,
+          options: { crossfade: options.crossfade, gapThreshold: options.gapThreshold },
+          isCancelled: () => job.signal.aborted,
+          onPhase: (phase) => progress.setPhase(phase),
+          onProgress: (ratio) => progress.update(ratio),
+          onLog: callbacks?.onLog
+        })
+      );
+
+      job.throwIfAborted();
+      progress.setPhase('finalizing');
+      let blob = await destination.collect(spec.mimeType);
+      if (!blob.size) {
+        throw new ConversionError('empty-output', 'Mediabunny did not return any audio bytes.');
+      }
+      if (spec.remux) {
+        callbacks?.onLog?.(`Repackaging as ${spec.label}...`);
+        blob = await spec.remux(blob);
+        if (options.saveHandle) {
+          blob = await this.writeToHandle(blob, options.saveHandle);
+        }
+      }
+      finished = true;
+
+      progress.complete(blob.size);
+      callbacks?.onLog?.(`Joined ${duration.toFixed(1)}s of audio.`);
+      return {
+        fileName: options.saveHandle?.name ?? this.suggestJoinedOutputName(files[0].name, formatId),
+        blob,
+        mimeType: spec.mimeType,
+        savedToDisk: Boolean(options.saveHandle)
+      };
+    } catch (error) {
+      throw toConversionError(error);
+    } finally {
+      job.end();
+      inputs.forEach((input) => input.dispose());
+      if (!finished) {
+        this.releaseOutput(output);
+        await destination.discard();
+      }
+    }
+  }
+
+  /** Whether the modes that encode audio can run for the container; the others only copy and always can. */
+  canReencodeVideoAudio(container: VideoContainerId): Promise<boolean> {
+    const spec = VIDEO_CONTAINER_SPECS[container];
+    return spec ? this.checkCodecSupport(spec.audioCodec) : Promise.resolve(false);
+  }
+
+  getEncoderCapabilities(formatId: AudioOutputFormatId): EncoderCapabilities | null {
+    return AUDIO_FORMAT_SPECS[formatId]?.encoder ?? null;
+  }
+
+  /** How the format stores tags, or null for containers (like raw AAC) that cannot carry any. */
+  getTagSupport(formatId: AudioOutputFormatId): TagSupport | null {
+    return AUDIO_FORMAT_SPECS[formatId]?.tags ?? null;
+  }
+
+  /** Returns a user-facing explanation when the settings do not fit the format, otherwise null. */
+  validateEncoderSettings(formatId: AudioOutputFormatId, settings: EncoderSettings): string | null {
+    const spec = AUDIO_FORMAT_SPECS[formatId];
+    if (!spec) {
+      return `Unsupported output format: ${formatId}`;
+    }
+
+    const { encoder } = spec;
+    if (settings.bitrate !== undefined && !encoder.bitrates.includes(settings.bitrate)) {
+      return encoder.bitrates.length
+        ? `${spec.label} supports bitrates of ${encoder.bitrates.map((rate) => rate / 1000).join(', ')} kbps.`
+        : `${spec.label} is lossless and has no bitrate setting.`;
+    }
+    if (settings.quality !== undefined && !encoder.qualityPresets) {
+      return `${spec.label} has no quality presets.`;
+    }
+    if (settings.sampleRate !== undefined && !encoder.sampleRates.includes(settings.sampleRate)) {
+      return `${spec.label} supports sample rates of ${encoder.sampleRates.map((rate) => `${rate / 1000} kHz`).join(', ')}.`;
+    }
+    if (settings.numberOfChannels !== undefined && !encoder.channelCounts.includes(settings.numberOfChannels)) {
+      return `${spec.label} supports ${encoder.channelCounts.join(' or ')} channel output.`;
+    }
+    if (settings.bitDepth !== undefined && !encoder.bitDepths.includes(settings.bitDepth)) {
+      return encoder.bitDepths.length
+        ? `${spec.label} supports ${encoder.bitDepths.join(', ')}-bit samples.`
+        : `${spec.label} does not expose a bit depth setting.`;
+    }
+    return null;
+  }
+
+  /**
+   * Inspects the container and every track without decoding media, so the file can be described (and a
+   * trim range picked) before converting.
+   */
+  async probe(file: File, callbacks?: Pick<ProgressCallbacks, 'onLog'>): Promise<MediaProbe> {
+    const input = this.createInput(file);
+    try {
+      const containerName = await this.detectContainer(input, file, callbacks);
+      const [duration, mimeType, inputTracks, sourceTags, chapters] = await Promise.all([
+        input.computeDuration(),
+        input.getMimeType().catch(() => null),
+        input.getTracks(),
+        input.getMetadataTags().catch((): MetadataTags => ({})),
+        readChapters(file).catch((): Chapter[] => [])
+      ]);
+
+      const counters = { audio: 0, video: 0, subtitle: 0 };
+      const tracks: ProbedTrack[] = [];
+      for (const track of inputTracks) {
+        const [trackDuration, stats, decodable] = await Promise.all([
+          track.computeDuration().catch(() => duration),
+          track.computePacketStats(PROBE_PACKET_COUNT).catch(() => null),
+          track.canDecode().catch(() => false)
+        ]);
+        const probed: ProbedTrack = {
+          id: track.id,
+          type: track.type,
+          number: ++counters[track.type],
+          codec: track.codec ?? this.describeInternalCodec(track.internalCodecId),
+          languageCode: track.languageCode,
+          name: track.name,
+          duration: trackDuration,
+          bitrate: stats?.averageBitrate || null,
+          decodable
+        };
+        if (track.isAudioTrack()) {
+          probed.sampleRate = track.sampleRate;
+          probed.numberOfChannels = track.numberOfChannels;
+        } else if (track.isVideoTrack()) {
+          probed.width = track.displayWidth;
+          probed.height = track.displayHeight;
+        }
+        tracks.push(probed);
+      }
+
+      return { containerName, mimeType, duration, tracks, tags: toAudioTags(sourceTags), chapters };
+    } finally {
+      input.dispose();
+    }
+  }
+
+  suggestOutputName(originalName: string, formatId: AudioOutputFormatId): string {
+    return this.buildOutputName(originalName, this.getExtension(formatId));
+  }
+
+  /** Joined files are named after their first part. */
+  suggestJoinedOutputName(firstName: string, formatId: AudioOutputFormatId): string {
+    return this.buildOutputName(firstName, `_joined${this.getExtension(formatId)}`);
+  }
+
+  suggestVideoOutputName(originalName: string, video: VideoConversionOptions): string {
+    const extension = VIDEO_CONTAINER_SPECS[video.container]?.extension ?? '.video';
+    return this.buildOutputName(originalName, VIDEO_MODE_SUFFIXES[video.mode] + extension);
+  }
+
+  getExtension(formatId: AudioOutputFormatId): string {
+    return AUDIO_FORMAT_SPECS[formatId]?.extension ?? '.audio';
+  }
+
+  /**
+   * Codec of the audio track a conversion with this selector would read, and whether this environment
+   * can decode it, so callers can turn a source away before uploading or queueing it. Null when the
+   * source has no audio.
+   */
+  async inspectAudioSource(file: File, audioTrack?: AudioTrackSelector): Promise<AudioSourceInfo | null> {
+    const input = this.createInput(file);
+    try {
+      const track = audioTrack
+        ? (await this.selectAudioTrack(input, audioTrack)).track
+        : await input.getPrimaryAudioTrack();
+      return track && { codec: track.codec, decodable: await track.canDecode() };
+    } finally {
+      input.dispose();
+    }
+  }
+
+  /** Language codes of the source's audio tracks, in track order. */
+  async getAudioTrackLanguages(file: File): Promise<string[]> {
+    const input = this.createInput(file);
+    try {
+      return (await input.getAudioTracks()).map((track) => track.languageCode);
+    } finally {
+      input.dispose();
+    }
+  }
+
+  /**
+   * Decodes the audio once and returns its pauses, e.g. to split a lecture into parts. Shares the job
+   * slots with `convert()`, so `cancelConversion(jobId)` stops it too.
+   */
+  async findSilences(file: File, options: SilenceSearchOptions, callbacks?: ProgressCallbacks): Promise<TrimRange[]> {
+    const jobId = options.jobId ?? DEFAULT_JOB_ID;
+    if (this.activeJobs.has(jobId)) {
+      throw new Error('Another conversion is already in progress.');
+    }
+
+    const job = this.startJob(jobId, undefined);
+    const input = this.createInput(file);
+    try {
+      const selected = options.audioTrack ? await this.selectAudioTrack(input, options.audioTrack) : null;
+      const track = selected?.track ?? (await input.getPrimaryAudioTrack());
+      if (!track) {
+        throw new Error('This file does not contain any audio tracks.');
+      }
+      if (!(await track.canDecode())) {
+        throw this.undecodableError(track, `Unable to analyze this file: ${this.humanizeReason('undecodable_source_codec')}.`, file);
+      }
+
+      const range = options.range ?? { start: 0, end: await track.computeDuration() };
+      const length = range.end - range.start || 1;
+      callbacks?.onLog?.(`Looking for pauses longer than ${options.minDuration}s below ${options.threshold} dBFS...`);
+
+      const finder = new SilenceFinder(options.threshold, options.minDuration);
+      for await (const chunk of readChunks(track, range, () => job.signal.aborted)) {
+        finder.push(chunk.planes, chunk.time, chunk.sampleRate);
+        callbacks?.onProgress?.(Math.min(Math.max((chunk.time - range.start) / length, 0), 1));
+      }
+
+      const silences = finder.finish(range.end);
+      callbacks?.onLog?.(`Found ${silences.length} pause${silences.length === 1 ? '' : 's'}.`);
+      return silences;
+    } finally {
+      job.end();
+      input.dispose();
+    }
+  }
+
+  /** Decodes the whole audio track once and reduces it to evenly spaced peaks for drawing. */
+  async computeWaveform(file: File, options: WaveformOptions, callbacks?: ProgressCallbacks): Promise<Waveform> {
+    const jobId = options.jobId ?? DEFAULT_JOB_ID;
+    if (this.activeJobs.has(jobId)) {
+      throw new Error('Another conversion is already in progress.');
+    }
+
+    const job = this.startJob(jobId, undefined);
+    const input = this.createInput(file);
+    try {
+      const selected = options.audioTrack ? await this.selectAudioTrack(input, options.audioTrack) : null;
+      const track = selected?.track ?? (await input.getPrimaryAudioTrack());
+      if (!track) {
+        throw new Error('This file does not contain any audio tracks.');
+      }
+      if (!(await track.canDecode())) {
+        throw this.undecodableError(track, `Unable to draw a waveform: ${this.humanizeReason('undecodable_source_codec')}.`, file);
+      }
+
+      const duration = await track.computeDuration();
+      const peaks = new Float32Array(Math.max(Math.round(options.buckets), 1));
+      const bucketsPerSecond = duration > 0 ? peaks.length / duration : 0;
+      for await (const chunk of readChunks(track, { start: 0, end: duration }, () => job.signal.aborted)) {
+        const frames = chunk.planes[0]?.length ?? 0;
+        for (let frame = 0; frame < frames; frame++) {
+          const bucket = Math.min(Math.floor((chunk.time + frame / chunk.sampleRate) * bucketsPerSecond), peaks.length - 1);
+          for (const plane of chunk.planes) {
+            const value = Math.abs(plane[frame]);
+            if (value > peaks[bucket]) {
+              peaks[bucket] = Math.min(value, 1);
+            }
+          }
+        }
+        callbacks?.onProgress?.(duration > 0 ? Math.min(chunk.time / duration, 1) : 1);
+      }
+      return { duration, peaks };
+    } finally {
+      job.end();
+      input.dispose();
+    }
+  }
+
+  cancelConversion(jobId: string = DEFAULT_JOB_ID): void {
+    this.activeJobs.get(jobId)?.abort();
+  }
+
+  /** Claims the job slot; aborting `signal` cancels the job like `cancelConversion(jobId)` does. */
+  private startJob(jobId: string, signal: AbortSignal | undefined): EngineJob {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    this.activeJobs.set(jobId, controller);
+
+    return {
+      signal: controller.signal,
+      onAbort: (listener) => controller.signal.addEventListener('abort', listener, { once: true }),
+      throwIfAborted: () => {
+        if (controller.signal.aborted) {
+          throw cancelledError();
+        }
+      },
+      race: (work) => abortable(work, controller.signal),
+      end: () => {
+        signal?.removeEventListener('abort', abort);
+        this.activeJobs.delete(jobId);
+      }
+    };
+  }
+
+  /** Stops an output that never got finalized, so its encoders and writer close. */
+  private releaseOutput(output: Output): void {
+    if (output.state === 'pending' || output.state === 'started') {
+      void output.cancel().catch(() => undefined);
+    }
+  }
+
+  async getFormatOptionsWithSupport(): Promise<AudioOutputOption[]> {
+    const options: AudioOutputOption[] = [];
+    for (const option of AUDIO_OUTPUT_OPTIONS) {
+      const spec = AUDIO_FORMAT_SPECS[option.id];
+      const supported = await this.isFormatSupported(option.id);
+      options.push({
+        ...option,
+        supported,
+        reason: supported ? undefined : spec.unsupportedMessage ?? 'Not supported by this browser yet.'
+      });
+    }
+    return options;
+  }
+
+  async isFormatSupported(formatId: AudioOutputFormatId): Promise<boolean> {
+    const spec = AUDIO_FORMAT_SPECS[formatId];
+    if (!spec) {
+      return false;
+    }
+
+    if (spec.alwaysAvailable) {
+      return true;
+    }
+
+    if (this.supportChecks.has(formatId)) {
+      return this.supportChecks.get(formatId)!;
+    }
+
+    const promise = this.checkCodecSupport(spec.codec).catch(() => false);
+    this.supportChecks.set(formatId, promise);
+    return promise;
+  }
+
+  private resolveAudioOptions(spec: AudioFormatSpec, settings: EncoderSettings): ConversionAudioOptions {
+    const options: ConversionAudioOptions = { ...spec.audioOptions };
+    if (settings.quality) {
+      options.bitrate = QUALITY_BY_PRESET[settings.quality];
+    } else if (settings.bitrate !== undefined) {
+      options.bitrate = settings.bitrate;
+    }
+    if (settings.sampleRate !== undefined) {
+      options.sampleRate = settings.sampleRate;
+    }
+    if (settings.numberOfChannels !== undefined) {
+      options.numberOfChannels = settings.numberOfChannels;
+    }
+    if (settings.bitDepth !== undefined) {
+      options.codec = PCM_CODEC_BY_BIT_DEPTH[settings.bitDepth];
+    }
+    return options;
+  }
+
+  /**
+   * The rate to encode at when audio is decoded here: the requested one, else the source rate when the
+   * encoder takes it, else 48 kHz or the highest rate the encoder supports.
+   */
+  private encoderSampleRate(spec: AudioFormatSpec, requested: number | undefined, sourceRate: number): number {
+    const { sampleRates } = spec.encoder;
+    if (requested !== undefined) {
+      return requested;
+    }
+    return sampleRates.includes(sourceRate) ? sourceRate : sampleRates.includes(48_000) ? 48_000 : Math.max(...sampleRates);
+  }
+
+  private async resolveOutputTags(
+    input: Input,
+    spec: AudioFormatSpec,
+    options: ConvertOptions,
+    callbacks?: ProgressCallbacks
+  ): Promise<MetadataTags> {
+    const keepSourceTags = options.keepSourceTags ?? true;
+    const source = keepSourceTags ? await input.getMetadataTags().catch((): MetadataTags => ({})) : {};
+    const hasCover = Boolean(options.tags?.cover || (options.tags?.cover !== null && source.images?.length));
+
+    if (!spec.tags) {
+      if (hasTags(source) || Object.values(options.tags ?? {}).some((value) => value !== undefined)) {
+        callbacks?.onLog?.(`${spec.label} files cannot carry tags; the output will have none.`);
+      }
+      return {};
+    }
+
+    const tags = buildOutputTags(spec.tags, source, options.tags, keepSourceTags);
+    if (hasCover && !spec.tags.coverArt) {
+      callbacks?.onLog?.(`${spec.tags.label} has no room for cover art; the image is left out.`);
+    }
+    if (hasTags(tags)) {
+      callbacks?.onLog?.(`Writing ${spec.tags.label} tags: ${Object.keys(tags).join(', ')}.`);
+    }
+    return tags;
+  }
+
+  private async detectContainer(
+    input: Input,
+    file: File,
+    callbacks?: Pick<ProgressCallbacks, 'onLog'>
+  ): Promise<string> {
+    try {
+      const detectedFormat = await input.getFormat();
+      const detectedFormatName = detectedFormat?.name ?? detectedFormat?.constructor?.name ?? 'unknown';
+      callbacks?.onLog?.(`Detected container: ${detectedFormatName}.`);
+      return detectedFormatName;
+    } catch (formatError) {
+      // Read failures come from the file itself as DOMExceptions; anything else means no demuxer matched.
+      if (formatError instanceof DOMException) {
+        throw formatError;
+      }
+      const headerBytes = Array.from(new Uint8Array(await file.slice(0, 32).arrayBuffer()))
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join(' ');
+      callbacks?.onLog?.(
+        `Unable to detect the container format from the file header. First 32 bytes: ${headerBytes}`
+      );
+      throw new ConversionError('unsupported-container', undefined, { fileName: file.name, headerBytes }, { cause: formatError });
+    }
+  }
+
+  private async selectAudioTrack(
+    input: Input,
+    selector: AudioTrackSelector
+  ): Promise<{ track: InputAudioTrack; number: number }> {
+    const tracks = await input.getAudioTracks();
+    const index =
+      selector.number !== undefined
+        ? selector.number - 1
+        : tracks.findIndex((track) => track.languageCode === selector.languageCode);
+    const track = tracks[index];
+    if (!track) {
+      const wanted = selector.number !== undefined ? `#${selector.number}` : `in "${selector.languageCode}"`;
+      throw new Error(`No audio track ${wanted} was found; the file has ${tracks.length} audio track(s).`);
+    }
+    return { track, number: index + 1 };
+  }
+
+  private describeInternalCodec(internalCodecId: string | number | Uint8Array | null): string | null {
+    if (typeof internalCodecId === 'string' || typeof internalCodecId === 'number') {
+      return `unknown (${internalCodecId})`;
+    }
+    return null;
+  }
+
+  createInput(file: File): Input {
+    return new Input({
+      source: new BlobSource(file, { maxCacheSize: INPUT_CACHE_SIZE }),
+      formats: INPUT_FORMATS
+    });
+  }
+
+  private async createDestination(
+    saveHandle: OutputFileHandle | undefined,
+    isCancelled: () => boolean
+  ): Promise<OutputDestination> {
+    if (!saveHandle) {
+      const sink = new ChunkedBlobSink();
+      return {
+        target: new StreamTarget(sink.writable, { chunked: true, chunkSize: OUTPUT_CHUNK_SIZE }),
+        collect: async (mimeType) => sink.toBlob(mimeType),
+        discard: async () => undefined
+      };
+    }
+
+    const fileStream = await saveHandle.createWritable();
+    let settled = false;
+    const settle = async (commit: boolean) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      await (commit ? fileStream.close() : fileStream.abort());
+    };
+
+    // Mediabunny closes the stream on cancel too; only commit the file when the conversion went through.
+    const writable = new WritableStream<StreamTargetChunk>({
+      write: (chunk) => fileStream.write(chunk),
+      close: () => settle(!isCancelled()),
+      abort: () => settle(false)
+    });
+
+    return {
+      target: new StreamTarget(writable, { chunked: true, chunkSize: OUTPUT_CHUNK_SIZE }),
+      collect: () => saveHandle.getFile(),
+      discard: () => settle(false).catch(() => undefined)
+    };
+  }
+
+  private async writeToHandle(blob: Blob, saveHandle: OutputFileHandle): Promise<File> {
+    const fileStream = await saveHandle.createWritable();
+    try {
+      await fileStream.write(blob);
+      await fileStream.close();
+    } catch (error) {
+      await fileStream.abort().catch(() => undefined);
+      throw error;
+    }
+    return saveHandle.getFile();
+  }
+
+  private async checkCodecSupport(codec: AudioFormatSpec['codec']): Promise<boolean> {
+    if (codec === 'pcm-s16') {
+      return true;
+    }
+
+    try {
+      return await this.canEncode(codec);
+    } catch {
+      return false;
+    }
+  }
+
+  /** Names the discarded tracks; the code follows the first track that failed for lack of a codec. */
+  describeDiscardedTracks(discarded: DiscardedTrackSummary[], file: File): Error {
+    if (!discarded.length) {
+      return new Error('Unable to convert this file with Mediabunny.');
+    }
+
+    const details = discarded
+      .map(({ track, reason }) => `${track.type} track discarded (${this.humanizeReason(reason)})`)
+      .join('; ');
+    const message = `Unable to convert this file: ${details}.`;
+    const discardedTracks: DiscardedTrackInfo[] = discarded.map(({ track, reason }) => ({
+      type: track.type,
+      codec: track.codec,
+      reason
+    }));
+
+    const failed = discarded.find(({ reason }) => reason !== 'discarded_by_user');
+    switch (failed?.reason) {
+      case 'unknown_source_codec':
+      case 'undecodable_source_codec':
+        return new ConversionError('undecodable-codec', message, {
+          fileName: file.name,
+          codec: failed.track.codec ?? undefined,
+          discardedTracks
+        });
+      case 'no_encodable_target_codec':
+        return new ConversionError('encoder-unavailable', message, { fileName: file.name, discardedTracks });
+      default:
+        return new Error(message);
+    }
+  }
+
+  private undecodableError(track: InputAudioTrack, message: string, file: File): ConversionError {
+    return new ConversionError('undecodable-codec', message, { fileName: file.name, codec: track.codec ?? undefined });
+  }
+
+  private encoderUnavailableError(formatId: AudioOutputFormatId, spec: AudioFormatSpec): ConversionError {
+    return new ConversionError(
+      'encoder-unavailable',
+      spec.unsupportedMessage ?? `${spec.label} encoding is not supported in this browser yet. Try MP3, WAV, or OGG instead.`,
+      { formatId, codec: spec.codec }
+    );
+  }
+
+  humanizeReason(reason: DiscardedTrack['reason']): string {
+    const mapping: Record<DiscardedTrack['reason'], string> = {
+      discarded_by_user: 'discarded by configuration',
+      max_track_count_reached: 'output format limit reached',
+      max_track_count_of_type_reached: 'too many tracks of this type for the output format',
+      unknown_source_codec: 'unknown source codec',
+      undecodable_source_codec: 'source codec not decodable in this browser',
+      no_encodable_target_codec: 'no compatible encoder available'
+    };
+
+    return mapping[reason] ?? 'unsupported track';
+  }
+
+  buildOutputName(originalName: string, extension: string): string {
+    const safeBase = this.sanitizeBaseName(originalName) || 'audio';
+    return `${safeBase}${extension}`;
+  }
+
+  sanitizeBaseName(name: string): string {
+    return name
+      .replace(/\.[^/.]+$/, '')
+      .replace(/[^a-zA-Z0-9-_]+/g, '_')
+      .replace(/_{2,}/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .toLowerCase()
+      .slice(0, 64);
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Errors the conversion engine raises on purpose. Each carries a stable `code` so callers can react
+ * (offer another format, suggest saving to disk) or show their own, translated text instead of
+ * `message`, plus whatever diagnostics were at hand when it was thrown.
+ */
+
+export type ConversionErrorCode =
+  | 'unsupported-container'
+  | 'undecodable-codec'
+  | 'encoder-unavailable'
+  | 'cancelled'
+  | 'out-of-memory'
+  | 'empty-output';
+
+export interface DiscardedTrackInfo {
+  type: 'audio' | 'video' | 'subtitle';
+  /** Codec as Mediabunny names it, or null when it did not recognize the codec at all. */
+  codec: string | null;
+  reason: string;
+}
+
+/** Only plain data, so the diagnostics survive being posted from the worker or sent by the server. */
+export interface ConversionErrorDiagnostics {
+  fileName?: string;
+  /** First bytes of the source in hex, for containers that could not be identified. */
+  headerBytes?: string;
+  discardedTracks?: DiscardedTrackInfo[];
+  /** Codec that could not be decoded or encoded. */
+  codec?: string;
+  formatId?: string;
+}
+
+export const CONVERSION_ERROR_CODES: ConversionErrorCode[] = [
+  'unsupported-container',
+  'undecodable-codec',
+  'encoder-unavailable',
+  'cancelled',
+  'out-of-memory',
+  'empty-output'
+];
+
+/** Generic English text per code; `message` on the error itself is usually more specific. */
+export const CONVERSION_ERROR_MESSAGES: Record<ConversionErrorCode, string> = {
+  'unsupported-container':
+    'We could not detect any supported audio/video streams in this file. Make sure you selected the actual media file and that the container is MP4, MOV, WebM, MKV, WAV, OGG, FLAC, MP3, or ADTS.',
+  'undecodable-codec': 'This browser cannot decode the audio in this file.',
+  'encoder-unavailable': 'This browser cannot encode the selected format.',
+  cancelled: 'Conversion cancelled.',
+  'out-of-memory':
+    'The browser ran out of memory while converting this file. Unless it is saved straight to disk, the converted audio has to fit in memory.',
+  'empty-output': 'The conversion finished without producing any audio.'
+};
+
+export class ConversionError extends Error {
+  override readonly name = 'ConversionError';
+
+  constructor(
+    readonly code: ConversionErrorCode,
+    message: string = CONVERSION_ERROR_MESSAGES[code],
+    readonly diagnostics: ConversionErrorDiagnostics = {},
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+  }
+}
+
+export function cancelledError(): ConversionError {
+  return new ConversionError('cancelled', 'Conversion cancelled.');
+}
+
+export function isConversionErrorCode(value: unknown): value is ConversionErrorCode {
+  return CONVERSION_ERROR_CODES.includes(value as ConversionErrorCode);
+}
+
+/**
+ * Gives the failures that arrive from outside the engine a code too: aborts become `cancelled` and
+ * failed allocations `out-of-memory`. Anything else is returned as it is.
+ */
+export function toConversionError(error: unknown): unknown {
+  if (error instanceof ConversionError) {
+    return error;
+  }
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new ConversionError('cancelled', error.message || undefined, {}, { cause: error });
+  }
+  if (isOutOfMemory(error)) {
+    return new ConversionError('out-of-memory', undefined, {}, { cause: error });
+  }
+  return error;
+}
+
+function isOutOfMemory(error: unknown): boolean {
+  if (!(error instanceof Error || error instanceof DOMException)) {
+    return false;
+  }
+  // Chrome: "Array buffer allocation failed"; Firefox: "out of memory"; Safari: "Out of memory".
+  return (
+    (error.name === 'RangeError' && /allocation failed|out of memory|invalid array buffer length/i.test(error.message)) ||
+    /out of memory/i.test(error.message)
+  );
+}
@@ -0,0 +1,263 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { AudioOutputFormatId, ConversionResult, ConvertOptions } from './mediabunny-conversion.service';
+
+/** Settings needed to run a past job again; everything except where the output went. */
+export type HistorySettings = Pick<
+  ConvertOptions,
+  'encoder' | 'processing' | 'trim' | 'audioTrack' | 'tags' | 'keepSourceTags'
+>;
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  sourceName: string;
+  sourceSize: number;
+  formatId: AudioOutputFormatId;
+  settings: HistorySettings;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  /** Length of the converted audio in seconds, when known. */
+  duration: number | null;
+  /** True while the output itself is kept in IndexedDB and can be downloaded again. */
+  hasOutput: boolean;
+}
+
+export type HistoryDetails = Pick<HistoryEntry, 'sourceName' | 'sourceSize' | 'formatId' | 'settings' | 'duration'>;
+
+const DATABASE_NAME = 'audio-conventor';
+const DATABASE_VERSION = 1;
+const ENTRY_STORE = 'history';
+const OUTPUT_STORE = 'outputs';
+const QUOTA_STORAGE_KEY = 'audio-conventor.history-quota';
+/** Metadata is tiny, but the list is only useful for recent work. */
+const MAX_ENTRIES = 50;
+export const DEFAULT_HISTORY_QUOTA = 200 * 1024 * 1024;
+
+/**
+ * Keeps recent conversions across page loads. Entries always survive; outputs are stored next to them
+ * until they no longer fit in the user's quota, oldest first.
+ */
+@Injectable({ providedIn: 'root' })
+export class ConversionHistoryService {
+  readonly entries = signal<HistoryEntry[]>([]);
+  readonly quotaBytes = signal(DEFAULT_HISTORY_QUOTA);
+  readonly usedBytes = computed(() =>
+    this.entries().reduce((total, entry) => total + (entry.hasOutput ? entry.size : 0), 0)
+  );
+  /** False during server rendering and in browsers that block IndexedDB. */
+  readonly available = typeof indexedDB !== 'undefined';
+
+  private database: Promise<IDBDatabase> | null = null;
+  /** Settles once the stored entries are loaded, so nothing recorded earlier gets overwritten. */
+  private readonly ready: Promise<void>;
+  /**
+   * Tail of the queue every change goes through. Quota checks read `entries` before writing, so two
+   * changes running side by side would each think the space is still free.
+   */
+  private updates: Promise<unknown>;
+
+  constructor() {
+    if (!this.available) {
+      this.ready = Promise.resolve();
+      this.updates = this.ready;
+      return;
+    }
+    this.quotaBytes.set(this.loadQuota());
+    this.ready = this.loadEntries().catch((error) =>
+      console.warn('[History] Unable to read the conversion history.', error)
+    );
+    this.updates = this.ready;
+  }
+
+  /** Adds a finished conversion, keeping its output when it fits in the quota. */
+  async record(result: ConversionResult, details: HistoryDetails): Promise<void> {
+    if (!this.available) {
+      return;
+    }
+    return this.enqueue(() => this.store(result, details));
+  }
+
+  /** Looks an entry up once the stored history has loaded. */
+  async find(id: string): Promise<HistoryEntry | null> {
+    await this.ready;
+    return this.entries().find((entry) => entry.id === id) ?? null;
+  }
+
+  async getOutput(id: string): Promise<Blob | null> {
+    const blob = await this.request<Blob | undefined>(OUTPUT_STORE, (outputs) => outputs.get(id));
+    return blob ?? null;
+  }
+
+  remove(id: string): Promise<void> {
+    return this.enqueue(async () => {
+      await this.transaction([ENTRY_STORE, OUTPUT_STORE], 'readwrite', (entries, outputs) => {
+        entries.delete(id);
+        outputs.delete(id);
+      });
+      this.entries.update((current) => current.filter((entry) => entry.id !== id));
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.enqueue(async () => {
+      await this.transaction([ENTRY_STORE, OUTPUT_STORE], 'readwrite', (entries, outputs) => {
+        entries.clear();
+        outputs.clear();
+      });
+      this.entries.set([]);
+    });
+  }
+
+  /** Changes how much space outputs may take; a lower quota drops the oldest outputs right away. */
+  setQuota(bytes: number): Promise<void> {
+    return this.enqueue(async () => {
+      const quota = Math.max(0, Math.floor(bytes));
+      this.quotaBytes.set(quota);
+      try {
+        localStorage.setItem(QUOTA_STORAGE_KEY, String(quota));
+      } catch {
+        // The quota still applies for this visit.
+      }
+      await this.makeRoomFor(0);
+    });
+  }
+
+  /** Runs `change` after the history has loaded and every earlier change has settled. */
+  private enqueue(change: () => Promise<void>): Promise<void> {
+    const run = this.updates.then(change);
+    this.updates = run.catch(() => undefined);
+    return run;
+  }
+
+  private async store(result: ConversionResult, details: HistoryDetails): Promise<void> {
+    const entry: HistoryEntry = {
+      ...details,
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: Date.now(),
+      fileName: result.fileName,
+      mimeType: result.mimeType,
+      size: result.blob.size,
+      hasOutput: result.blob.size <= this.quotaBytes()
+    };
+
+    try {
+      await this.makeRoomFor(entry.hasOutput ? entry.size : 0);
+      await this.transaction([ENTRY_STORE, OUTPUT_STORE], 'readwrite', (entries, outputs) => {
+        entries.put(entry);
+        if (entry.hasOutput) {
+          outputs.put(result.blob, entry.id);
+        }
+      });
+    } catch (error) {
+      if (!entry.hasOutput) {
+        throw error;
+      }
+      // Usually the browser's own storage limit; keep the entry so the job can still be re-run.
+      console.warn('[History] Unable to keep the converted file; saving the entry only.', error);
+      entry.hasOutput = false;
+      await this.transaction([ENTRY_STORE], 'readwrite', (entries) => entries.put(entry));
+    }
+    this.entries.update((current) => [entry, ...current]);
+    await this.trimEntries();
+  }
+
+  /** Drops stored outputs, oldest first, until `incoming` more bytes fit in the quota. */
+  private async makeRoomFor(incoming: number): Promise<void> {
+    const stored = this.entries()
+      .filter((entry) => entry.hasOutput)
+      .sort((a, b) => a.createdAt - b.createdAt);
+    let used = this.usedBytes();
+    const evicted: HistoryEntry[] = [];
+    for (const entry of stored) {
+      if (used + incoming <= this.quotaBytes()) {
+        break;
+      }
+      used -= entry.size;
+      evicted.push({ ...entry, hasOutput: false });
+    }
+    if (!evicted.length) {
+      return;
+    }
+
+    await this.transaction([ENTRY_STORE, OUTPUT_STORE], 'readwrite', (entries, outputs) => {
+      for (const entry of evicted) {
+        entries.put(entry);
+        outputs.delete(entry.id);
+      }
+    });
+    const byId = new Map(evicted.map((entry) => [entry.id, entry]));
+    this.entries.update((current) => current.map((entry) => byId.get(entry.id) ?? entry));
+  }
+
+  private async trimEntries(): Promise<void> {
+    const overflow = this.entries().slice(MAX_ENTRIES);
+    if (!overflow.length) {
+      return;
+    }
+    await this.transaction([ENTRY_STORE, OUTPUT_STORE], 'readwrite', (entries, outputs) => {
+      for (const entry of overflow) {
+        entries.delete(entry.id);
+        outputs.delete(entry.id);
+      }
+    });
+    this.entries.update((current) => current.slice(0, MAX_ENTRIES));
+  }
+
+  private async loadEntries(): Promise<void> {
+    const entries = await this.request<HistoryEntry[]>(ENTRY_STORE, (store) => store.getAll());
+    this.entries.set(entries.sort((a, b) => b.createdAt - a.createdAt));
+  }
+
+  private loadQuota(): number {
+    try {
+      const stored = Number(localStorage.getItem(QUOTA_STORAGE_KEY) ?? NaN);
+      return Number.isFinite(stored) && stored >= 0 ? stored : DEFAULT_HISTORY_QUOTA;
+    } catch {
+      return DEFAULT_HISTORY_QUOTA;
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(ENTRY_STORE)) {
+          database.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+        }
+        if (!database.objectStoreNames.contains(OUTPUT_STORE)) {
+          database.createObjectStore(OUTPUT_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.database;
+  }
+
+  /** Runs `work` in one transaction and resolves once it has been committed. */
+  private async transaction(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    work: (...stores: IDBObjectStore[]) => void
+  ): Promise<void> {
+    const database = await this.open();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = database.transaction(storeNames, mode);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('The history update was aborted.'));
+      work(...storeNames.map((name) => transaction.objectStore(name)));
+    });
+  }
+
+  private async request<T>(storeName: string, read: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const database = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = read(database.transaction(storeName, 'readonly').objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -0,0 +1,198 @@
+import { Injectable, signal } from '@angular/core';
+import {
+  AUDIO_OUTPUT_OPTIONS,
+  AudioOutputFormatId,
+  EncoderSettings,
+  MediabunnyConversionService
+} from './mediabunny-conversion.service';
+
+/** A named combination of output format and encoder settings, e.g. "Podcast mono 64k MP3". */
+export interface ConversionPreset {
+  id: string;
+  name: string;
+  formatId: AudioOutputFormatId;
+  encoder: EncoderSettings;
+}
+
+/** Shape of exported preset files; `version` guards against importing something else. */
+interface PresetFile {
+  version: typeof PRESET_FILE_VERSION;
+  presets: Omit<ConversionPreset, 'id'>[];
+}
+
+export interface PresetImportSummary {
+  added: number;
+  replaced: number;
+  /** One line per preset that was left out, with the reason. */
+  skipped: string[];
+}
+
+const STORAGE_KEY = 'audio-conventor.presets';
+const DEFAULT_FORMAT_STORAGE_KEY = 'audio-conventor.default-format';
+const PRESET_FILE_VERSION = 1;
+const MAX_NAME_LENGTH = 60;
+const ENCODER_KEYS: (keyof EncoderSettings)[] = ['bitrate', 'quality', 'sampleRate', 'numberOfChannels', 'bitDepth'];
+
+@Injectable({ providedIn: 'root' })
+export class ConversionPresetsService {
+  readonly presets = signal<ConversionPreset[]>([]);
+  /** Output format the converter starts with, unless the page asks for another one. */
+  readonly defaultFormatId = signal<AudioOutputFormatId>('mp3');
+
+  private nextId = 0;
+
+  constructor(private readonly conversionService: MediabunnyConversionService) {
+    this.presets.set(this.load());
+    const storedFormat = this.storage()?.getItem(DEFAULT_FORMAT_STORAGE_KEY);
+    if (AUDIO_OUTPUT_OPTIONS.some((option) => option.id === storedFormat)) {
+      this.defaultFormatId.set(storedFormat as AudioOutputFormatId);
+    }
+  }
+
+  setDefaultFormat(formatId: AudioOutputFormatId): void {
+    this.defaultFormatId.set(formatId);
+    try {
+      this.storage()?.setItem(DEFAULT_FORMAT_STORAGE_KEY, formatId);
+    } catch (error) {
+      console.warn('[Presets] Unable to save the default format.', error);
+    }
+  }
+
+  /** Saves the settings under `name`, replacing an existing preset with the same name. */
+  save(name: string, formatId: AudioOutputFormatId, encoder: EncoderSettings): ConversionPreset {
+    const trimmed = name.trim().slice(0, MAX_NAME_LENGTH);
+    if (!trimmed) {
+      throw new Error('Give the preset a name.');
+    }
+    const problem = this.conversionService.validateEncoderSettings(formatId, encoder);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const existing = this.findByName(trimmed);
+    const preset: ConversionPreset = { id: existing?.id ?? this.createId(), name: trimmed, formatId, encoder: { ...encoder } };
+    this.update((presets) =>
+      existing ? presets.map((candidate) => (candidate.id === existing.id ? preset : candidate)) : [...presets, preset]
+    );
+    return preset;
+  }
+
+  remove(id: string): void {
+    this.update((presets) => presets.filter((preset) => preset.id !== id));
+  }
+
+  get(id: string): ConversionPreset | undefined {
+    return this.presets().find((preset) => preset.id === id);
+  }
+
+  exportJson(): string {
+    const file: PresetFile = {
+      version: PRESET_FILE_VERSION,
+      presets: this.presets().map(({ name, formatId, encoder }) => ({ name, formatId, encoder }))
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /** Merges presets from an exported file; presets with a known name replace the existing one. */
+  importJson(text: string): PresetImportSummary {
+    let file: Partial<PresetFile>;
+    try {
+      file = JSON.parse(text) as Partial<PresetFile>;
+    } catch {
+      throw new Error('This file is not valid JSON.');
+    }
+    if (!file || file.version !== PRESET_FILE_VERSION || !Array.isArray(file.presets)) {
+      throw new Error('This file does not contain conversion presets.');
+    }
+
+    const summary: PresetImportSummary = { added: 0, replaced: 0, skipped: [] };
+    for (const [index, entry] of file.presets.entries()) {
+      const label = typeof entry?.name === 'string' && entry.name.trim() ? `"${entry.name.trim()}"` : `#${index + 1}`;
+      const problem = this.checkEntry(entry);
+      if (problem) {
+        summary.skipped.push(`${label}: ${problem}`);
+        continue;
+      }
+      const replacing = Boolean(this.findByName(entry.name.trim().slice(0, MAX_NAME_LENGTH)));
+      this.save(entry.name, entry.formatId, this.pickEncoder(entry.encoder));
+      summary[replacing ? 'replaced' : 'added']++;
+    }
+    return summary;
+  }
+
+  private checkEntry(entry: Omit<ConversionPreset, 'id'> | undefined): string | null {
+    if (!entry || typeof entry.name !== 'string' || !entry.name.trim()) {
+      return 'it has no name';
+    }
+    if (!AUDIO_OUTPUT_OPTIONS.some((option) => option.id === entry.formatId)) {
+      return `unknown format "${entry.formatId}"`;
+    }
+    if (entry.encoder !== undefined && (typeof entry.encoder !== 'object' || entry.encoder === null)) {
+      return 'its encoder settings are malformed';
+    }
+    return this.conversionService.validateEncoderSettings(entry.formatId, this.pickEncoder(entry.encoder));
+  }
+
+  /** Keeps only known encoder fields, so hand-edited files cannot smuggle anything else in. */
+  private pickEncoder(encoder: EncoderSettings | undefined): EncoderSettings {
+    const picked: EncoderSettings = {};
+    for (const key of ENCODER_KEYS) {
+      if (encoder?.[key] !== undefined) {
+        Object.assign(picked, { [key]: encoder[key] });
+      }
+    }
+    return picked;
+  }
+
+  private findByName(name: string): ConversionPreset | undefined {
+    const wanted = name.toLowerCase();
+    return this.presets().find((preset) => preset.name.toLowerCase() === wanted);
+  }
+
+  private update(change: (presets: ConversionPreset[]) => ConversionPreset[]): void {
+    this.presets.update(change);
+    this.persist();
+  }
+
+  private load(): ConversionPreset[] {
+    const storage = this.storage();
+    const stored = storage?.getItem(STORAGE_KEY);
+    if (!stored) {
+      return [];
+    }
+    try {
+      const presets = (JSON.parse(stored) as Omit<ConversionPreset, 'id'>[]).filter((entry) => !this.checkEntry(entry));
+      return presets.map(({ name, formatId, encoder }) => ({
+        id: this.createId(),
+        name,
+        formatId,
+        encoder: this.pickEncoder(encoder)
+      }));
+    } catch {
+      console.warn('[Presets] Ignoring unreadable saved presets.');
+      return [];
+    }
+  }
+
+  private persist(): void {
+    const presets = this.presets().map(({ name, formatId, encoder }) => ({ name, formatId, encoder }));
+    try {
+      this.storage()?.setItem(STORAGE_KEY, JSON.stringify(presets));
+    } catch (error) {
+      console.warn('[Presets] Unable to save presets.', error);
+    }
+  }
+
+  /** Null during server rendering and when storage is blocked (e.g. some private modes). */
+  private storage(): Storage | null {
+    try {
+      return typeof localStorage === 'undefined' ? null : localStorage;
+    } catch {
+      return null;
+    }
+  }
+
+  private createId(): string {
+    return `preset-${++this.nextId}`;
+  }
+}
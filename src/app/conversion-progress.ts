@@ -0,0 +1,120 @@
+import { Source, Target } from 'mediabunny';
+
+export type ConversionPhase = 'loading' | 'probing' | 'decoding' | 'encoding' | 'finalizing';
+
+export interface ConversionProgress {
+  phase: ConversionPhase;
+  /** Share of the whole job that is done, from 0 to 1; the value `onProgress` receives. */
+  ratio: number;
+  /**
+   * Seconds of media the job has worked through, `ratio × duration`. Jobs that decode the source twice
+   * (normalization, gap removal) move through it at half the pace of a single pass.
+   */
+  mediaTime: number;
+  /** Seconds of media the job covers, or null until the source has been read. */
+  duration: number | null;
+  /** Source bytes read so far. */
+  bytesIn: number;
+  /** Size of the output written so far, in bytes. */
+  bytesOut: number;
+  /** Media seconds processed per second of wall-clock time; null until it can be estimated. */
+  speed: number | null;
+  /** Estimated seconds until the job is done; null until it can be estimated. */
+  eta: number | null;
+}
+
+/** Detailed events are spaced at least this far apart; the plain ratio still arrives on every update. */
+const DETAILS_INTERVAL_MS = 250;
+/** Below this share of the work, speed and ETA swing too much to be worth showing. */
+const MIN_ESTIMATE_RATIO = 0.02;
+
+/**
+ * Keeps the figures behind `ConversionProgress` for one job and forwards them: every ratio to
+ * `onProgress`, and throttled snapshots plus every phase change to `onDetails`.
+ */
+export class ProgressReporter {
+  private phase: ConversionPhase = 'loading';
+  private ratio = 0;
+  private duration: number | null = null;
+  private bytesIn = 0;
+  private bytesOut = 0;
+  /** When decoding or encoding began; the speed only counts time spent on the media itself. */
+  private workStartedAt: number | null = null;
+  private lastDetailsAt = -Infinity;
+
+  constructor(
+    private readonly onProgress?: (ratio: number) => void,
+    private readonly onDetails?: (progress: ConversionProgress) => void
+  ) {}
+
+  setPhase(phase: ConversionPhase): void {
+    if (phase === this.phase) {
+      return;
+    }
+    this.phase = phase;
+    if ((phase === 'decoding' || phase === 'encoding') && this.workStartedAt === null) {
+      this.workStartedAt = performance.now();
+    }
+    this.emitDetails(true);
+  }
+
+  setDuration(duration: number): void {
+    this.duration = Number.isFinite(duration) && duration > 0 ? duration : null;
+  }
+
+  /** Counts the bytes Mediabunny reads from `source`. */
+  watchSource(source: Source): void {
+    source.onread = (start, end) => {
+      this.bytesIn += end - start;
+    };
+  }
+
+  /** Tracks the end of the furthest write into `target`; header fix-ups do not grow the file. */
+  watchTarget(target: Target): void {
+    target.onwrite = (_start, end) => {
+      this.bytesOut = Math.max(this.bytesOut, end);
+    };
+  }
+
+  update(ratio: number): void {
+    this.ratio = Math.min(Math.max(ratio, 0), 1);
+    this.onProgress?.(this.ratio);
+    this.emitDetails(false);
+  }
+
+  /** The output has been written in full; `bytesOut` becomes the final size. */
+  complete(size: number): void {
+    this.bytesOut = size;
+    this.ratio = 1;
+    this.onProgress?.(1);
+    this.emitDetails(true);
+  }
+
+  snapshot(): ConversionProgress {
+    const mediaTime = this.duration !== null ? this.ratio * this.duration : 0;
+    const elapsed = this.workStartedAt !== null ? (performance.now() - this.workStartedAt) / 1000 : 0;
+    const estimating = elapsed > 0 && this.ratio >= MIN_ESTIMATE_RATIO;
+    return {
+      phase: this.phase,
+      ratio: this.ratio,
+      mediaTime,
+      duration: this.duration,
+      bytesIn: this.bytesIn,
+      bytesOut: this.bytesOut,
+      speed: estimating && this.duration !== null ? mediaTime / elapsed : null,
+      eta: this.ratio >= 1 ? 0 : estimating ? (elapsed * (1 - this.ratio)) / this.ratio : null
+    };
+  }
+
+  private emitDetails(force: boolean): void {
+    if (!this.onDetails) {
+      return;
+    }
+    const now = performance.now();
+    if (!force && now - this.lastDetailsAt < DETAILS_INTERVAL_MS) {
+      return;
+    }
+    this.lastDetailsAt = now;
+    this.onDetails(this.snapshot());
+  }
+}
@@ -0,0 +1,81 @@
+import { TestBed } from '@angular/core/testing';
+import { ConversionHistoryService } from './conversion-history.service';
+import { ConversionQueueService, QueueSettings } from './conversion-queue.service';
+import { ConversionResult, MediabunnyConversionService } from './mediabunny-conversion.service';
+
+describe('ConversionQueueService', () => {
+  let queue: ConversionQueueService;
+  let convert: jasmine.Spy<MediabunnyConversionService['convert']>;
+  let createObjectUrl: jasmine.Spy<typeof URL.createObjectURL>;
+  let revokeObjectUrl: jasmine.Spy<typeof URL.revokeObjectURL>;
+
+  const result: ConversionResult = {
+    fileName: 'take.mp3',
+    blob: new Blob(['mp3'], { type: 'audio/mpeg' }),
+    mimeType: 'audio/mpeg'
+  };
+
+  /** Lets the queued conversions settle. */
+  const settle = () => new Promise((resolve) => setTimeout(resolve));
+
+  beforeEach(() => {
+    convert = jasmine.createSpy<MediabunnyConversionService['convert']>('convert').and.resolveTo(result);
+    createObjectUrl = spyOn(URL, 'createObjectURL').and.returnValue('blob:take');
+    revokeObjectUrl = spyOn(URL, 'revokeObjectURL');
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: MediabunnyConversionService, useValue: { convert, cancelConversion: () => undefined } },
+        { provide: ConversionHistoryService, useValue: { record: () => Promise.resolve() } }
+      ]
+    });
+    queue = TestBed.inject(ConversionQueueService);
+  });
+
+  it('converts each item with the settings it was queued with', async () => {
+    const settings: QueueSettings = {
+      encoder: { bitrate: 128_000 },
+      processing: { fadeIn: 1 },
+      trim: { start: 2, end: 10 },
+      tags: { artist: 'Band' },
+      keepSourceTags: false
+    };
+
+    queue.enqueue([new File(['a'], 'take.wav')], 'mp3', settings);
+    await settle();
+
+    expect(convert).toHaveBeenCalledOnceWith(
+      jasmine.any(File),
+      'mp3',
+      jasmine.any(Object),
+      jasmine.objectContaining({ ...settings, jobId: queue.items()[0].id })
+    );
+  });
+
+  it('creates the download link once and revokes it when the item is removed', async () => {
+    queue.enqueue([new File(['a'], 'take.wav')], 'mp3');
+    await settle();
+    const [item] = queue.items();
+
+    expect(item.downloadUrl).toBe('blob:take');
+    expect(createObjectUrl).toHaveBeenCalledTimes(1);
+
+    queue.remove(item.id);
+
+    expect(revokeObjectUrl).toHaveBeenCalledOnceWith('blob:take');
+    expect(queue.items()).toEqual([]);
+  });
+
+  it('revokes the links of cleared items but not remote ones', async () => {
+    convert.and.returnValues(Promise.resolve(result), Promise.resolve({ ...result, remoteUrl: '/api/convert/jobs/1' }));
+
+    queue.enqueue([new File(['a'], 'a.wav'), new File(['b'], 'b.wav')], 'mp3');
+    await settle();
+    await settle();
+
+    expect(queue.items().map((item) => item.downloadUrl)).toEqual(['blob:take', '/api/convert/jobs/1']);
+
+    queue.clearFinished();
+
+    expect(revokeObjectUrl).toHaveBeenCalledOnceWith('blob:take');
+  });
+});
@@ -0,0 +1,211 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { ConversionHistoryService } from './conversion-history.service';
+import {
+  AudioOutputFormatId,
+  AudioProcessingOptions,
+  AudioTags,
+  ConversionResult,
+  ConvertOptions,
+  EncoderSettings,
+  MediabunnyConversionService,
+  TrimRange,
+  describeConversionError,
+  isCancellationError
+} from './mediabunny-conversion.service';
+
+export type ConversionQueueStatus = 'pending' | 'converting' | 'done' | 'failed' | 'cancelled';
+
+export interface ConversionQueueItem {
+  id: string;
+  file: File;
+  formatId: AudioOutputFormatId;
+  encoder: EncoderSettings;
+  processing: AudioProcessingOptions;
+  trim?: TrimRange;
+  tags?: AudioTags;
+  keepSourceTags?: boolean;
+  status: ConversionQueueStatus;
+  progress: number;
+  error?: string;
+  result?: ConversionResult;
+  /** Link to the result, created once when the item finishes and revoked when it leaves the queue. */
+  downloadUrl?: string;
+}
+
+/** Settings copied into each queued item, so later changes to the form do not alter waiting jobs. */
+export type QueueSettings = Pick<ConvertOptions, 'encoder' | 'processing' | 'trim' | 'tags' | 'keepSourceTags'>;
+
+export const MAX_QUEUE_CONCURRENCY = 4;
+
+@Injectable({ providedIn: 'root' })
+export class ConversionQueueService {
+  readonly items = signal<ConversionQueueItem[]>([]);
+  readonly concurrency = signal(1);
+  readonly activeCount = computed(() => this.items().filter((item) => item.status === 'converting').length);
+  readonly pendingCount = computed(() => this.items().filter((item) => item.status === 'pending').length);
+  readonly hasFinished = computed(() =>
+    this.items().some((item) => item.status === 'done' || item.status === 'failed' || item.status === 'cancelled')
+  );
+
+  private nextId = 0;
+
+  constructor(
+    private readonly conversionService: MediabunnyConversionService,
+    private readonly history: ConversionHistoryService
+  ) {}
+
+  enqueue(files: File[], formatId: AudioOutputFormatId, settings: QueueSettings = {}): void {
+    if (!files.length) {
+      return;
+    }
+
+    const added = files.map<ConversionQueueItem>((file) => ({
+      id: `queue-${++this.nextId}`,
+      file,
+      formatId,
+      encoder: settings.encoder ?? {},
+      processing: settings.processing ?? {},
+      trim: settings.trim,
+      tags: settings.tags,
+      keepSourceTags: settings.keepSourceTags,
+      status: 'pending',
+      progress: 0
+    }));
+    this.items.update((current) => [...current, ...added]);
+    this.pump();
+  }
+
+  setConcurrency(value: number): void {
+    const clamped = Math.min(Math.max(Math.round(value) || 1, 1), MAX_QUEUE_CONCURRENCY);
+    this.concurrency.set(clamped);
+    this.pump();
+  }
+
+  /** Moves an item up (negative offset) or down (positive offset) the queue. */
+  move(id: string, offset: number): void {
+    this.items.update((current) => {
+      const index = current.findIndex((item) => item.id === id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= current.length) {
+        return current;
+      }
+      const next = [...current];
+      const [item] = next.splice(index, 1);
+      next.splice(target, 0, item);
+      return next;
+    });
+  }
+
+  cancel(id: string): void {
+    const item = this.find(id);
+    if (!item) {
+      return;
+    }
+
+    if (item.status === 'converting') {
+      this.conversionService.cancelConversion(id);
+    } else if (item.status === 'pending') {
+      this.patch(id, { status: 'cancelled' });
+    }
+  }
+
+  retry(id: string): void {
+    const item = this.find(id);
+    if (!item || (item.status !== 'failed' && item.status !== 'cancelled')) {
+      return;
+    }
+
+    this.releaseDownload(item);
+    this.patch(id, { status: 'pending', progress: 0, error: undefined, result: undefined, downloadUrl: undefined });
+    this.pump();
+  }
+
+  remove(id: string): void {
+    this.cancel(id);
+    const item = this.find(id);
+    if (item) {
+      this.releaseDownload(item);
+    }
+    this.items.update((current) => current.filter((candidate) => candidate.id !== id));
+  }
+
+  clearFinished(): void {
+    const isActive = (item: ConversionQueueItem) => item.status === 'pending' || item.status === 'converting';
+    this.items().filter((item) => !isActive(item)).forEach((item) => this.releaseDownload(item));
+    this.items.update((current) => current.filter(isActive));
+  }
+
+  cancelAll(): void {
+    for (const item of this.items()) {
+      this.cancel(item.id);
+    }
+  }
+
+  private pump(): void {
+    while (this.activeCount() < this.concurrency()) {
+      const next = this.items().find((item) => item.status === 'pending');
+      if (!next) {
+        return;
+      }
+      this.patch(next.id, { status: 'converting', progress: 0 });
+      void this.run(next);
+    }
+  }
+
+  private async run(item: ConversionQueueItem): Promise<void> {
+    const { encoder, processing, trim, tags, keepSourceTags } = item;
+    const settings: QueueSettings = { encoder, processing, trim, tags, keepSourceTags };
+    try {
+      const result = await this.conversionService.convert(
+        item.file,
+        item.formatId,
+        {
+          onProgress: (ratio) => {
+            this.patch(item.id, { progress: Math.round(Math.min(Math.max(ratio, 0), 1) * 100) });
+          }
+        },
+        { jobId: item.id, ...settings }
+      );
+      // An item removed while it finished has nothing left to hold the link, so none is created.
+      if (this.find(item.id)) {
+        this.patch(item.id, {
+          status: 'done',
+          progress: 100,
+          result,
+          downloadUrl: result.remoteUrl ?? URL.createObjectURL(result.blob)
+        });
+      }
+      void this.history
+        .record(result, {
+          sourceName: item.file.name,
+          sourceSize: item.file.size,
+          formatId: item.formatId,
+          settings,
+          duration: item.trim ? item.trim.end - item.trim.start : null
+        })
+        .catch((error) => console.warn('[History] Unable to record the conversion.', error));
+    } catch (error: unknown) {
+      if (isCancellationError(error)) {
+        this.patch(item.id, { status: 'cancelled' });
+      } else {
+        this.patch(item.id, { status: 'failed', error: describeConversionError(error) });
+      }
+    } finally {
+      this.pump();
+    }
+  }
+
+  private releaseDownload(item: ConversionQueueItem): void {
+    if (item.downloadUrl && !item.result?.remoteUrl) {
+      URL.revokeObjectURL(item.downloadUrl);
+    }
+  }
+
+  private find(id: string): ConversionQueueItem | undefined {
+    return this.items().find((item) => item.id === id);
+  }
+
+  private patch(id: string, changes: Partial<ConversionQueueItem>): void {
+    this.items.update((current) => current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }
+}
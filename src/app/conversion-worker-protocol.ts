@@ -0,0 +1,82 @@
+import {
+  AudioOutputFormatId,
+  ConcatenateOptions,
+  ConversionProgress,
+  ConversionResult,
+  ConvertOptions,
+  SilenceSearchOptions,
+  TrimRange,
+  VideoConversionOptions,
+  Waveform,
+  WaveformOptions
+} from './conversion-engine';
+import {
+  ConversionError,
+  ConversionErrorCode,
+  ConversionErrorDiagnostics,
+  isConversionErrorCode,
+  toConversionError
+} from './conversion-errors';
+
+/**
+ * Messages the page sends to the conversion worker. Abort signals cannot be posted; the page turns an
+ * aborted signal into a `cancel` message instead.
+ */
+export type ConversionWorkerRequest =
+  | { type: 'start'; jobId: string; file: File; formatId: AudioOutputFormatId; options: Omit<ConvertOptions, 'signal'> }
+  | {
+      type: 'convert-video';
+      jobId: string;
+      file: File;
+      video: VideoConversionOptions;
+      options: Pick<ConvertOptions, 'jobId' | 'saveHandle'>;
+    }
+  | {
+      type: 'concatenate';
+      jobId: string;
+      files: File[];
+      formatId: AudioOutputFormatId;
+      options: Omit<ConcatenateOptions, 'signal'>;
+    }
+  | { type: 'find-silences'; jobId: string; file: File; options: SilenceSearchOptions }
+  | { type: 'waveform'; jobId: string; file: File; options: WaveformOptions }
+  | { type: 'cancel'; jobId: string };
+
+/** Messages the conversion worker sends back; every one belongs to a single job. */
+export type ConversionWorkerResponse =
+  | { type: 'progress'; jobId: string; ratio: number }
+  | { type: 'progress-details'; jobId: string; progress: ConversionProgress }
+  | { type: 'log'; jobId: string; message: string }
+  | { type: 'result'; jobId: string; result: ConversionResult }
+  | { type: 'silences'; jobId: string; silences: TrimRange[] }
+  | { type: 'waveform'; jobId: string; waveform: Waveform }
+  | { type: 'error'; jobId: string; error: SerializedError };
+
+/** Errors lose their prototype when posted, so only the parts callers look at are sent. */
+export interface SerializedError {
+  name: string;
+  message: string;
+  code?: ConversionErrorCode;
+  diagnostics?: ConversionErrorDiagnostics;
+}
+
+export function serializeError(error: unknown): SerializedError {
+  const normalized = toConversionError(error);
+  if (normalized instanceof ConversionError) {
+    return { name: normalized.name, message: normalized.message, code: normalized.code, diagnostics: normalized.diagnostics };
+  }
+  if (normalized instanceof Error || normalized instanceof DOMException) {
+    return { name: normalized.name, message: normalized.message };
+  }
+  return { name: 'Error', message: typeof error === 'string' ? error : 'Unexpected error during conversion.' };
+}
+
+/** Rebuilds a posted error; coded errors come back as `ConversionError` so `error.code` still works. */
+export function deserializeError(error: SerializedError): Error {
+  if (isConversionErrorCode(error.code)) {
+    return new ConversionError(error.code, error.message, error.diagnostics);
+  }
+  const rebuilt = new Error(error.message);
+  rebuilt.name = error.name;
+  return rebuilt;
+}
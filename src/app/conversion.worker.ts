@@ -0,0 +1,117 @@
+/// <reference lib="webworker" />
+
+import { canEncodeAudio } from 'mediabunny';
+import { AudioOutputFormatId, ConversionEngine, ProgressCallbacks } from './conversion-engine';
+import { cancelledError } from './conversion-errors';
+import { ConversionWorkerRequest, ConversionWorkerResponse, serializeError } from './conversion-worker-protocol';
+
+const engine = new ConversionEngine();
+let mp3EncoderReady: Promise<void> | null = null;
+/** Jobs still waiting for their encoder; a cancel for one of these removes it before the engine sees it. */
+const startingJobs = new Set<string>();
+
+// Encoder extensions register per realm, so the worker needs its own copy of the MP3 fallback.
+function ensureMp3Encoder(): Promise<void> {
+  mp3EncoderReady ??= (async () => {
+    try {
+      if (!(await canEncodeAudio('mp3'))) {
+        const module = await import('@mediabunny/mp3-encoder');
+        module.registerMp3Encoder();
+      }
+    } catch (error) {
+      console.warn('[Mediabunny] Unable to register the MP3 encoder in the conversion worker.', error);
+    }
+  })();
+  return mp3EncoderReady;
+}
+
+function post(message: ConversionWorkerResponse): void {
+  postMessage(message);
+}
+
+/** Callbacks that forward an engine job's progress and log lines to the page. */
+function reportTo(jobId: string): ProgressCallbacks {
+  return {
+    onProgress: (ratio) => post({ type: 'progress', jobId, ratio }),
+    onProgressDetails: (progress) => post({ type: 'progress-details', jobId, progress }),
+    onLog: (message) => post({ type: 'log', jobId, message })
+  };
+}
+
+/** Runs one job and posts either its answer or the error it failed with. */
+async function run(jobId: string, task: (callbacks: ProgressCallbacks) => Promise<ConversionWorkerResponse>): Promise<void> {
+  try {
+    post(await task(reportTo(jobId)));
+  } catch (error: unknown) {
+    startingJobs.delete(jobId);
+    post({ type: 'error', jobId, error: serializeError(error) });
+  }
+}
+
+/** Loads the encoder the job needs; throws when the job was cancelled in the meantime. */
+async function prepareEncoder(jobId: string, formatId: AudioOutputFormatId): Promise<void> {
+  startingJobs.add(jobId);
+  if (formatId === 'mp3') {
+    await ensureMp3Encoder();
+  }
+  if (!startingJobs.delete(jobId)) {
+    throw cancelledError();
+  }
+}
+
+async function convert(
+  request: Extract<ConversionWorkerRequest, { type: 'start' }>,
+  callbacks: ProgressCallbacks
+): Promise<ConversionWorkerResponse> {
+  const { jobId } = request;
+  await prepareEncoder(jobId, request.formatId);
+  const result = await engine.convert(request.file, request.formatId, callbacks, { ...request.options, jobId });
+  return { type: 'result', jobId, result };
+}
+
+async function concatenate(
+  request: Extract<ConversionWorkerRequest, { type: 'concatenate' }>,
+  callbacks: ProgressCallbacks
+): Promise<ConversionWorkerResponse> {
+  const { jobId } = request;
+  await prepareEncoder(jobId, request.formatId);
+  const result = await engine.concatenate(request.files, request.formatId, callbacks, { ...request.options, jobId });
+  return { type: 'result', jobId, result };
+}
+
+addEventListener('message', ({ data }: MessageEvent<ConversionWorkerRequest>) => {
+  switch (data.type) {
+    case 'start':
+      void run(data.jobId, (callbacks) => convert(data, callbacks));
+      break;
+    case 'convert-video':
+      void run(data.jobId, async (callbacks) => ({
+        type: 'result',
+        jobId: data.jobId,
+        result: await engine.convertVideo(data.file, data.video, callbacks, { ...data.options, jobId: data.jobId })
+      }));
+      break;
+    case 'concatenate':
+      void run(data.jobId, (callbacks) => concatenate(data, callbacks));
+      break;
+    case 'find-silences':
+      void run(data.jobId, async (callbacks) => ({
+        type: 'silences',
+        jobId: data.jobId,
+        silences: await engine.findSilences(data.file, { ...data.options, jobId: data.jobId }, callbacks)
+      }));
+      break;
+    case 'waveform':
+      void run(data.jobId, async (callbacks) => ({
+        type: 'waveform',
+        jobId: data.jobId,
+        waveform: await engine.computeWaveform(data.file, { ...data.options, jobId: data.jobId }, callbacks)
+      }));
+      break;
+    case 'cancel':
+      if (!startingJobs.delete(data.jobId)) {
+        engine.cancelConversion(data.jobId);
+      }
+      break;
+  }
+});
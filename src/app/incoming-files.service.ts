@@ -0,0 +1,88 @@
+import { Injectable } from '@angular/core';
+
+/** Must match `public/sw.js`, which stores shared files here before opening the app. */
+const SHARED_FILES_CACHE = 'shared-files';
+/** Query parameter the service worker adds when it opens the app with shared files. */
+const SHARED_FILES_PARAM = 'shared';
+
+/**
+ * Files that reach the installed app from outside the page: opened with it as the OS file handler, or
+ * sent to it with "Share". Files that arrive before anyone listens are held until a listener is set.
+ */
+@Injectable({ providedIn: 'root' })
+export class IncomingFilesService {
+  private listener: ((files: File[]) => void) | null = null;
+  private pending: File[] = [];
+  private started = false;
+
+  /** Hands every batch of incoming files to `listener`; the returned function stops listening. */
+  listen(listener: (files: File[]) => void): () => void {
+    this.listener = listener;
+    this.start();
+    if (this.pending.length) {
+      const files = this.pending;
+      this.pending = [];
+      listener(files);
+    }
+    return () => {
+      if (this.listener === listener) {
+        this.listener = null;
+      }
+    };
+  }
+
+  private start(): void {
+    if (this.started || typeof window === 'undefined') {
+      return;
+    }
+    this.started = true;
+
+    window.launchQueue?.setConsumer((params) => {
+      const handles = params.files.filter((handle): handle is FileSystemFileHandle => handle.kind === 'file');
+      void Promise.all(handles.map((handle) => handle.getFile())).then(
+        (files) => this.deliver(files),
+        (error: unknown) => console.warn('[PWA] Unable to read the files the app was opened with.', error)
+      );
+    });
+
+    const url = new URL(window.location.href);
+    if (url.searchParams.has(SHARED_FILES_PARAM)) {
+      url.searchParams.delete(SHARED_FILES_PARAM);
+      history.replaceState(history.state, '', url.pathname + url.search + url.hash);
+      this.takeSharedFiles().then(
+        (files) => this.deliver(files),
+        (error: unknown) => console.warn('[PWA] Unable to read the shared files.', error)
+      );
+    }
+  }
+
+  private async takeSharedFiles(): Promise<File[]> {
+    if (typeof caches === 'undefined') {
+      return [];
+    }
+    const cache = await caches.open(SHARED_FILES_CACHE);
+    const requests = await cache.keys();
+    const files: File[] = [];
+    for (const request of requests) {
+      const response = await cache.match(request);
+      if (response) {
+        const name = decodeURIComponent(response.headers.get('X-File-Name') ?? '') || 'shared-media';
+        const blob = await response.blob();
+        files.push(new File([blob], name, { type: blob.type }));
+      }
+      await cache.delete(request);
+    }
+    return files;
+  }
+
+  private deliver(files: File[]): void {
+    if (!files.length) {
+      return;
+    }
+    if (this.listener) {
+      this.listener(files);
+    } else {
+      this.pending.push(...files);
+    }
+  }
+}
@@ -0,0 +1,314 @@
+import { TestBed } from '@angular/core/testing';
+import { createMp4File, createUnreadableFile, createWavFile, summarizeAudio } from '../testing/media-fixtures';
+import {
+  AUDIO_OUTPUT_OPTIONS,
+  CONVERSION_ENGINE,
+  CONVERSION_WORKER_FACTORY,
+  CodecSupportCheck,
+  ConversionEngine,
+  ConversionError,
+  DiscardedTrackSummary,
+  MediabunnyConversionService,
+  SERVER_CONVERSION_CLIENT
+} from './mediabunny-conversion.service';
+import { ServerConversionClient } from './server-conversion-client';
+
+describe('MediabunnyConversionService', () => {
+  let service: MediabunnyConversionService;
+  let engine: ConversionEngine;
+  let canEncode: jasmine.Spy<CodecSupportCheck>;
+  let server: ServerConversionClient;
+  let serverFormats: jasmine.Spy<ServerConversionClient['getFormats']>;
+
+  beforeEach(() => {
+    // Only the formats that need no WebCodecs encoder, unless a test says otherwise, so results do not
+    // depend on the test browser.
+    canEncode = jasmine.createSpy<CodecSupportCheck>('canEncode').and.resolveTo(false);
+    engine = new ConversionEngine(canEncode);
+    server = new ServerConversionClient();
+    serverFormats = spyOn(server, 'getFormats').and.resolveTo([]);
+    TestBed.configureTestingModule({
+      providers: [
+        // Convert on the page so failures point at the engine rather than the worker messaging, and keep
+        // the optional server endpoints out of the picture.
+        { provide: CONVERSION_ENGINE, useValue: engine },
+        { provide: CONVERSION_WORKER_FACTORY, useValue: () => null },
+        { provide: SERVER_CONVERSION_CLIENT, useValue: server }
+      ]
+    });
+    service = TestBed.inject(MediabunnyConversionService);
+  });
+
+  describe('format specs', () => {
+    it('lists every output format with its extension and MIME type', () => {
+      const wav = AUDIO_OUTPUT_OPTIONS.find((option) => option.id === 'wav');
+      const m4a = AUDIO_OUTPUT_OPTIONS.find((option) => option.id === 'm4a');
+
+      expect(AUDIO_OUTPUT_OPTIONS.map((option) => option.id)).toEqual([
+        'mp3',
+        'wav',
+        'ogg',
+        'aac',
+        'm4a',
+        'webm',
+        'flac',
+        'ogg-flac',
+        'mka'
+      ]);
+      expect(wav).toEqual(jasmine.objectContaining({ extension: '.wav', mimeType: 'audio/wav' }));
+      expect(m4a).toEqual(jasmine.objectContaining({ extension: '.m4a', mimeType: 'audio/mp4' }));
+    });
+
+    it('exposes the encoder settings each format accepts', () => {
+      expect(service.getEncoderCapabilities('wav')?.bitDepths).toEqual([16, 24, 32]);
+      expect(service.getEncoderCapabilities('ogg')?.sampleRates).toEqual([48_000]);
+      expect(service.getEncoderCapabilities('flac')?.bitrates).toEqual([]);
+    });
+
+    it('rejects settings the format cannot use', () => {
+      expect(service.validateEncoderSettings('mp3', { bitrate: 192_000 })).toBeNull();
+      expect(service.validateEncoderSettings('mp3', { bitrate: 100_000 })).toContain('MP3 supports bitrates of');
+      expect(service.validateEncoderSettings('wav', { bitrate: 128_000 })).toBe('WAV is lossless and has no bitrate setting.');
+      expect(service.validateEncoderSettings('ogg', { sampleRate: 44_100 })).toBe('OGG (Opus) supports sample rates of 48 kHz.');
+      expect(service.validateEncoderSettings('mp3', { bitDepth: 24 })).toBe('MP3 does not expose a bit depth setting.');
+    });
+
+    it('writes WAV as 48 kHz stereo 16-bit PCM by default', async () => {
+      const result = await service.convert(createWavFile({ sampleRate: 44_100, numberOfChannels: 1 }), 'wav');
+
+      const summary = await summarizeAudio(result.blob);
+
+      expect(result.fileName).toBe('tone.wav');
+      expect(result.mimeType).toBe('audio/wav');
+      expect(summary).toEqual(jasmine.objectContaining({ codec: 'pcm-s16', sampleRate: 48_000, numberOfChannels: 2 }));
+      expect(summary.duration).toBeCloseTo(1, 2);
+    });
+
+    it('applies bit depth, sample rate and channel settings to the output', async () => {
+      const source = await createMp4File({ duration: 0.5 });
+
+      const result = await service.convert(source, 'wav', undefined, {
+        encoder: { bitDepth: 24, sampleRate: 22_050, numberOfChannels: 1 }
+      });
+
+      const summary = await summarizeAudio(result.blob);
+
+      expect(result.fileName).toBe('tone.wav');
+      expect(summary).toEqual(jasmine.objectContaining({ codec: 'pcm-s24', sampleRate: 22_050, numberOfChannels: 1 }));
+      expect(summary.duration).toBeCloseTo(0.5, 2);
+    });
+
+    it('refuses settings outside the format before reading the file', async () => {
+      const createInput = spyOn(engine, 'createInput').and.callThrough();
+
+      await expectAsync(
+        service.convert(createWavFile(), 'wav', undefined, { encoder: { sampleRate: 8_000 } })
+      ).toBeRejectedWithError('WAV supports sample rates of 22.05 kHz, 44.1 kHz, 48 kHz, 96 kHz.');
+      expect(createInput).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isFormatSupported', () => {
+    it('reports always-available formats without asking the browser', async () => {
+      expect(await service.isFormatSupported('wav')).toBeTrue();
+      expect(await service.isFormatSupported('mp3')).toBeTrue();
+      expect(canEncode).not.toHaveBeenCalled();
+    });
+
+    it('asks the browser once per format and caches the answer', async () => {
+      canEncode.and.resolveTo(true);
+
+      expect(await service.isFormatSupported('ogg')).toBeTrue();
+      expect(await service.isFormatSupported('ogg')).toBeTrue();
+      expect(await service.isFormatSupported('webm')).toBeTrue();
+      expect(canEncode.calls.allArgs()).toEqual([['opus'], ['opus']]);
+    });
+
+    it('treats a failed check as unsupported and keeps that answer', async () => {
+      canEncode.and.rejectWith(new Error('WebCodecs crashed'));
+
+      expect(await service.isFormatSupported('flac')).toBeFalse();
+      expect(await service.isFormatSupported('flac')).toBeFalse();
+      expect(canEncode).toHaveBeenCalledTimes(1);
+    });
+
+    it('marks unsupported formats with the reason in the format list', async () => {
+      const options = await service.getFormatOptionsWithSupport();
+      const aac = options.find((option) => option.id === 'aac');
+
+      expect(options.find((option) => option.id === 'wav')?.supported).toBeTrue();
+      expect(aac?.supported).toBeFalse();
+      expect(aac?.reason).toContain('AAC encoding needs native WebCodecs support');
+    });
+
+    it('fails conversions to unsupported formats with encoder-unavailable', async () => {
+      const error = await service.convert(createWavFile(), 'ogg').catch((failure: unknown) => failure);
+
+      expect(error).toEqual(jasmine.any(ConversionError));
+      expect((error as ConversionError).code).toBe('encoder-unavailable');
+      expect((error as ConversionError).diagnostics).toEqual({ formatId: 'ogg', codec: 'opus' });
+    });
+  });
+
+  describe('server fallback', () => {
+    let upload: jasmine.Spy<ServerConversionClient['convert']>;
+
+    beforeEach(() => {
+      serverFormats.and.resolveTo(['ogg']);
+      spyOn(server, 'getInputCodecs').and.resolveTo(['pcm-s16']);
+      upload = spyOn(server, 'convert').and.resolveTo({ fileName: 'tone.ogg', blob: new Blob(), mimeType: 'audio/ogg' });
+    });
+
+    it('sends sources the server can decode to the server', async () => {
+      const result = await service.convert(createWavFile(), 'ogg');
+
+      expect(upload).toHaveBeenCalledTimes(1);
+      expect(result.fileName).toBe('tone.ogg');
+    });
+
+    it('refuses sources the server cannot decode before uploading them', async () => {
+      spyOn(engine, 'inspectAudioSource').and.resolveTo({ codec: 'aac', decodable: true });
+
+      const error = await service.convert(createWavFile(), 'ogg').catch((failure: unknown) => failure);
+
+      expect(upload).not.toHaveBeenCalled();
+      expect(error).toEqual(jasmine.any(ConversionError));
+      expect((error as ConversionError).code).toBe('undecodable-codec');
+      expect((error as ConversionError).diagnostics).toEqual(
+        jasmine.objectContaining({ codec: 'aac', formatId: 'ogg' })
+      );
+    });
+  });
+
+  describe('invalid conversions', () => {
+    const file = new File([], 'talk.mkv');
+
+    function describeInvalidConversion(discardedTracks: DiscardedTrackSummary[]): Error {
+      return engine.describeDiscardedTracks(discardedTracks, file);
+    }
+
+    it('reports undecodable source tracks with their codec', () => {
+      const error = describeInvalidConversion([
+        { track: { type: 'video', codec: 'avc' }, reason: 'discarded_by_user' },
+        { track: { type: 'audio', codec: 'ac3' }, reason: 'undecodable_source_codec' }
+      ]);
+
+      expect(error).toEqual(jasmine.any(ConversionError));
+      expect((error as ConversionError).code).toBe('undecodable-codec');
+      expect(error.message).toBe(
+        'Unable to convert this file: video track discarded (discarded by configuration); ' +
+          'audio track discarded (source codec not decodable in this browser).'
+      );
+      expect((error as ConversionError).diagnostics).toEqual({
+        fileName: 'talk.mkv',
+        codec: 'ac3',
+        discardedTracks: [
+          { type: 'video', codec: 'avc', reason: 'discarded_by_user' },
+          { type: 'audio', codec: 'ac3', reason: 'undecodable_source_codec' }
+        ]
+      });
+    });
+
+    it('treats unknown source codecs as undecodable', () => {
+      const error = describeInvalidConversion([{ track: { type: 'audio', codec: null }, reason: 'unknown_source_codec' }]);
+
+      expect((error as ConversionError).code).toBe('undecodable-codec');
+      expect((error as ConversionError).diagnostics.codec).toBeUndefined();
+      expect(error.message).toContain('audio track discarded (unknown source codec)');
+    });
+
+    it('reports a missing encoder as encoder-unavailable', () => {
+      const error = describeInvalidConversion([
+        { track: { type: 'audio', codec: 'opus' }, reason: 'no_encodable_target_codec' }
+      ]);
+
+      expect((error as ConversionError).code).toBe('encoder-unavailable');
+      expect(error.message).toContain('no compatible encoder available');
+    });
+
+    it('falls back to a plain error when no track failed for lack of a codec', () => {
+      const limited = describeInvalidConversion([
+        { track: { type: 'audio', codec: 'aac' }, reason: 'max_track_count_reached' }
+      ]);
+      const empty = describeInvalidConversion([]);
+
+      expect(limited).not.toEqual(jasmine.any(ConversionError));
+      expect(limited.message).toBe('Unable to convert this file: audio track discarded (output format limit reached).');
+      expect(empty.message).toBe('Unable to convert this file with Mediabunny.');
+    });
+
+    it('fails unreadable files with unsupported-container', async () => {
+      const error = await service.convert(createUnreadableFile(), 'wav').catch((failure: unknown) => failure);
+
+      expect((error as ConversionError).code).toBe('unsupported-container');
+      expect((error as ConversionError).diagnostics.fileName).toBe('broken.mp4');
+    });
+  });
+
+  describe('sanitizeBaseName', () => {
+    it('drops the extension and replaces unsafe characters', () => {
+      expect(engine.sanitizeBaseName('My Holiday Video (final).MP4')).toBe('my_holiday_video_final');
+      expect(engine.sanitizeBaseName('Ünïcode – talk.mov')).toBe('n_code_talk');
+    });
+
+    it('collapses and trims underscores', () => {
+      expect(engine.sanitizeBaseName('__a  b__.mkv')).toBe('a_b');
+      expect(engine.sanitizeBaseName('a___b')).toBe('a_b');
+    });
+
+    it('keeps dashes and only the last extension', () => {
+      expect(engine.sanitizeBaseName('2024-05-01.meeting.webm')).toBe('2024-05-01_meeting');
+    });
+
+    it('caps the name at 64 characters', () => {
+      expect(engine.sanitizeBaseName(`${'x'.repeat(80)}.mp4`)).toBe('x'.repeat(64));
+    });
+
+    it('names outputs with nothing safe left "audio"', () => {
+      expect(service.suggestOutputName('???.mp4', 'mp3')).toBe('audio.mp3');
+      expect(service.suggestOutputName('Interview.MOV', 'ogg-flac')).toBe('interview.oga');
+    });
+  });
+
+  describe('cancellation', () => {
+    it('stops a running conversion with a cancelled error', async () => {
+      const error = await service
+        .convert(createWavFile(), 'wav', { onProgress: () => service.cancelConversion() })
+        .catch((failure: unknown) => failure);
+
+      expect(error).toEqual(jasmine.any(ConversionError));
+      expect((error as ConversionError).code).toBe('cancelled');
+    });
+
+    it('honours an abort signal passed with the options', async () => {
+      const controller = new AbortController();
+
+      const error = await service
+        .convert(createWavFile(), 'wav', { onProgress: () => controller.abort() }, { signal: controller.signal })
+        .catch((failure: unknown) => failure);
+
+      expect((error as ConversionError).code).toBe('cancelled');
+    });
+
+    it('only cancels the job it is asked to', async () => {
+      const source = createWavFile();
+
+      const [cancelled, finished] = await Promise.allSettled([
+        service.convert(source, 'wav', { onProgress: () => service.cancelConversion('first') }, { jobId: 'first' }),
+        service.convert(source, 'wav', undefined, { jobId: 'second' })
+      ]);
+
+      expect(cancelled.status).toBe('rejected');
+      expect(finished.status).toBe('fulfilled');
+    });
+
+    it('frees the job slot for the next conversion', async () => {
+      const source = createWavFile();
+      await service.convert(source, 'wav', { onProgress: () => service.cancelConversion() }).catch(() => undefined);
+
+      const result = await service.convert(source, 'wav');
+
+      expect(result.blob.size).toBeGreaterThan(0);
+    });
+  });
+});
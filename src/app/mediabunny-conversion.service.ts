@@ -1,351 +1,593 @@
-import { Injectable } from '@angular/core';
+import { Inject, Injectable, InjectionToken, OnDestroy } from '@angular/core';
+import { CanvasSink } from 'mediabunny';
 import {
-  ADTS,
-  AdtsOutputFormat,
-  BufferSource as MediabunnyBufferSource,
-  BufferTarget,
-  Conversion,
-  ConversionAudioOptions,
-  DiscardedTrack,
-  FLAC,
-  FlacOutputFormat,
-  Input,
-  MATROSKA,
-  MP3 as MP3_CONTAINER,
-  MP4,
-  Mp3OutputFormat,
-  OGG,
-  OggOutputFormat,
-  Output,
-  QTFF,
-  WAVE,
-  WavOutputFormat,
-  WEBM,
-  canEncodeAudio
-} from 'mediabunny';
-
-export interface ConversionResult {
-  fileName: string;
-  blob: Blob;
-  remoteUrl?: string;
-  mimeType: string;
-}
-
-export type AudioOutputFormatId = 'mp3' | 'wav' | 'ogg' | 'aac' | 'flac';
-
-export interface AudioOutputOption {
-  id: AudioOutputFormatId;
-  label: string;
-  description: string;
-  extension: string;
-  supported?: boolean;
-  reason?: string;
+  AudioOutputFormatId,
+  AudioOutputOption,
+  ConcatenateOptions,
+  ConversionEngine,
+  ConversionError,
+  ConversionResult,
+  ConvertOptions,
+  CoverImage,
+  DEFAULT_JOB_ID,
+  EncoderCapabilities,
+  EncoderSettings,
+  MediaProbe,
+  ProgressCallbacks,
+  SilenceSearchOptions,
+  TagSupport,
+  TrimRange,
+  VideoContainerId,
+  VideoConversionOptions,
+  Waveform,
+  WaveformOptions,
+  cancelledError
+} from './conversion-engine';
+import {
+  ConversionWorkerRequest,
+  ConversionWorkerResponse,
+  deserializeError
+} from './conversion-worker-protocol';
+import { RemoteMediaClient } from './remote-media-client';
+import { RemoteMediaCapabilities } from './remote-media-protocol';
+import {
+  AudioSegment,
+  DEFAULT_MIN_SILENCE,
+  DEFAULT_SEGMENT_LENGTH,
+  DEFAULT_SPLIT_SILENCE_THRESHOLD,
+  SplitOptions,
+  fixedSegments,
+  segmentsFromChapters,
+  segmentsFromSilences
+} from './segments';
+import { ServerConversionClient } from './server-conversion-client';
+import { createZip } from './zip-archive';
+
+export * from './conversion-engine';
+export * from './segments';
+
+type WorkerAnswer = ConversionResult | TrimRange[] | Waveform;
+
+interface WorkerJob {
+  callbacks?: ProgressCallbacks;
+  resolve: (value: WorkerAnswer) => void;
+  reject: (error: unknown) => void;
 }
 
-interface ProgressCallbacks {
-  onProgress?: (ratio: number) => void;
-  onLog?: (message: string) => void;
+export interface SegmentedConversion {
+  /** One file per part, in order. */
+  parts: ConversionResult[];
+  /** All parts bundled into a single ZIP download. */
+  archive: ConversionResult;
 }
 
-type AudioFormatSpec = {
-  label: string;
-  description: string;
-  extension: string;
-  mimeType: string;
-  codec: 'mp3' | 'pcm-s16' | 'opus' | 'aac' | 'flac';
-  alwaysAvailable?: boolean;
-  unsupportedMessage?: string;
-  createFormat: () => Mp3OutputFormat | WavOutputFormat | OggOutputFormat | AdtsOutputFormat | FlacOutputFormat;
-  audioOptions: ConversionAudioOptions;
-};
-
-const AUDIO_FORMAT_SPECS: Record<AudioOutputFormatId, AudioFormatSpec> = {
-  mp3: {
-    label: 'MP3',
-    description: 'Best compatibility and small file size.',
-    extension: '.mp3',
-    mimeType: 'audio/mpeg',
-    codec: 'mp3',
-    alwaysAvailable: true,
-    createFormat: () => new Mp3OutputFormat(),
-    audioOptions: { codec: 'mp3', bitrate: 192_000 }
-  },
-  wav: {
-    label: 'WAV',
-    description: 'Uncompressed PCM for editing.',
-    extension: '.wav',
-    mimeType: 'audio/wav',
-    codec: 'pcm-s16',
-    alwaysAvailable: true,
-    createFormat: () => new WavOutputFormat({ large: true }),
-    audioOptions: { codec: 'pcm-s16', sampleRate: 48_000, numberOfChannels: 2 }
-  },
-  ogg: {
-    label: 'OGG (Opus)',
-    description: 'High quality streaming friendly files.',
-    extension: '.ogg',
-    mimeType: 'application/ogg',
-    codec: 'opus',
-    unsupportedMessage: 'This browser cannot encode Opus audio yet. Try Chrome 116+, Firefox 130+, or use MP3/WAV.',
-    createFormat: () => new OggOutputFormat(),
-    audioOptions: { codec: 'opus', bitrate: 128_000, sampleRate: 48_000 }
-  },
-  aac: {
-    label: 'AAC',
-    description: 'Great for iOS and Safari playback.',
-    extension: '.aac',
-    mimeType: 'audio/aac',
-    codec: 'aac',
-    unsupportedMessage: 'AAC encoding needs native WebCodecs support (Safari 17+, Chrome 120+ with flags).',
-    createFormat: () => new AdtsOutputFormat(),
-    audioOptions: { codec: 'aac', bitrate: 192_000 }
-  },
-  flac: {
-    label: 'FLAC',
-    description: 'Lossless compression with smaller size than WAV.',
-    extension: '.flac',
-    mimeType: 'audio/flac',
-    codec: 'flac',
-    unsupportedMessage: 'FLAC encoding is still experimental in WebCodecs. Use WAV for lossless audio in this browser.',
-    createFormat: () => new FlacOutputFormat(),
-    audioOptions: { codec: 'flac' }
-  }
-};
-
-export const AUDIO_OUTPUT_OPTIONS: AudioOutputOption[] = Object.entries(AUDIO_FORMAT_SPECS).map(
-  ([id, spec]) => ({
-    id: id as AudioOutputFormatId,
-    label: spec.label,
-    description: spec.description,
-    extension: spec.extension
-  })
-);
+/** Engine for the work done on the page; tests provide one with their own codec support check. */
+export const CONVERSION_ENGINE = new InjectionToken<ConversionEngine>('CONVERSION_ENGINE', {
+  providedIn: 'root',
+  factory: () => new ConversionEngine()
+});
+
+/** Fallback for formats this browser cannot encode, when the server offers `/api/convert`. */
+export const SERVER_CONVERSION_CLIENT = new InjectionToken<ServerConversionClient>('SERVER_CONVERSION_CLIENT', {
+  providedIn: 'root',
+  factory: () => new ServerConversionClient()
+});
+
+/** Starts the conversion worker, or returns null to convert on the page (SSR, tests). */
+export const CONVERSION_WORKER_FACTORY = new InjectionToken<() => Worker | null>('CONVERSION_WORKER_FACTORY', {
+  providedIn: 'root',
+  factory: () => () =>
+    typeof Worker === 'undefined'
+      ? null
+      : new Worker(new URL('./conversion.worker', import.meta.url), { type: 'module' })
+});
+
+/** Edge length of covers captured from a video frame; square like album art. */
+const COVER_SIZE = 600;
+const COVER_JPEG_QUALITY = 0.9;
 
 @Injectable({ providedIn: 'root' })
-export class MediabunnyConversionService {
-  private activeCancel?: () => void;
-  private readonly supportChecks = new Map<AudioOutputFormatId, Promise<boolean>>();
+export class MediabunnyConversionService implements OnDestroy {
+  private readonly workerJobs = new Map<string, WorkerJob>();
+  private readonly serverJobs = new Map<string, AbortController>();
+  /** Downloads direct media links through the server's `/api/remote-media` proxy, when it has one. */
+  private readonly remoteMedia = new RemoteMediaClient();
+  /** Lazily created; null once creation failed or the environment (e.g. SSR) has no workers. */
+  private worker: Worker | null | undefined;
+
+  constructor(
+    /** Runs the light work (probing, validation) on the page and conversions when no worker is available. */
+    @Inject(CONVERSION_ENGINE) private readonly engine: ConversionEngine,
+    @Inject(SERVER_CONVERSION_CLIENT) private readonly server: ServerConversionClient,
+    @Inject(CONVERSION_WORKER_FACTORY) private readonly createWorker: () => Worker | null
+  ) {}
+
+  ngOnDestroy(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
 
+  /**
+   * Converts in the conversion worker so demuxing and encoding never block the page; progress and log
+   * callbacks fire on the page as the worker reports back. Formats the browser cannot encode go to the
+   * server's conversion endpoint instead, when it has one.
+   */
   async convert(
     file: File,
     formatId: AudioOutputFormatId,
-    callbacks?: ProgressCallbacks
+    callbacks?: ProgressCallbacks,
+    options: ConvertOptions = {}
   ): Promise<ConversionResult> {
-    if (this.activeCancel) {
-      throw new Error('Another conversion is already in progress.');
+    if (!(await this.engine.isFormatSupported(formatId)) && (await this.server.supports(formatId))) {
+      return this.convertOnServer(file, formatId, callbacks, options);
     }
 
-    const spec = AUDIO_FORMAT_SPECS[formatId];
-    if (!spec) {
-      throw new Error(`Unsupported output format: ${formatId}`);
+    const worker = this.getWorker();
+    if (!worker) {
+      return this.engine.convert(file, formatId, callbacks, options);
     }
 
-    if (!(await this.isFormatSupported(formatId))) {
-      const message = spec.unsupportedMessage
-        ?? `${spec.label} encoding is not supported in this browser yet. Try MP3, WAV, or OGG instead.`;
-      throw new Error(message);
+    const { signal, ...workerOptions } = options;
+    const jobId = options.jobId ?? DEFAULT_JOB_ID;
+    return this.runInWorker<ConversionResult>(
+      worker,
+      { type: 'start', jobId, file, formatId, options: { ...workerOptions, jobId } },
+      callbacks,
+      signal
+    );
+  }
+
+  /**
+   * Remuxes the source, strips its audio or re-encodes only its audio, always copying the video stream.
+   * Runs in the conversion worker like `convert()`; there is no server fallback for video.
+   */
+  convertVideo(
+    file: File,
+    video: VideoConversionOptions,
+    callbacks?: ProgressCallbacks,
+    options: Pick<ConvertOptions, 'jobId' | 'signal' | 'saveHandle'> = {}
+  ): Promise<ConversionResult> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return this.engine.convertVideo(file, video, callbacks, options);
     }
 
-    callbacks?.onLog?.('Loading file into memory for Mediabunny analysis...');
-    const inMemoryCopy = await file.arrayBuffer();
-
-    const input = new Input({
-      source: new MediabunnyBufferSource(inMemoryCopy),
-      formats: [MP4, QTFF, MATROSKA, WEBM, WAVE, OGG, FLAC, MP3_CONTAINER, ADTS]
-    });
-    const target = new BufferTarget();
-    const outputFormat = spec.createFormat();
-    const output = new Output({
-      format: outputFormat,
-      target
-    });
-
-    let conversion: Conversion | null = null;
-    let cancelRequested = false;
-    let cancelReject: ((reason?: unknown) => void) | undefined;
-
-    const cancelPromise = new Promise<never>((_, reject) => {
-      cancelReject = reject;
-    });
-
-    const cancel = () => {
-      if (cancelRequested) {
-        return;
-      }
-      cancelRequested = true;
-      callbacks?.onLog?.('Cancel requested. Stopping conversion...');
-      if (conversion) {
-        void conversion.cancel().catch(() => undefined);
-      }
-      if (cancelReject) {
-        cancelReject(new DOMException('Conversion cancelled.', 'AbortError'));
-        cancelReject = undefined;
-      }
-    };
+    const { signal, ...workerOptions } = options;
+    const jobId = options.jobId ?? DEFAULT_JOB_ID;
+    return this.runInWorker<ConversionResult>(
+      worker,
+      { type: 'convert-video', jobId, file, video, options: { ...workerOptions, jobId } },
+      callbacks,
+      signal
+    );
+  }
 
-    this.activeCancel = cancel;
+  /**
+   * Joins the audio of `files`, in order, into one file with optional crossfades and gap removal. Runs in
+   * the conversion worker like `convert()`; formats only the server can encode are not available here.
+   */
+  concatenate(
+    files: File[],
+    formatId: AudioOutputFormatId,
+    callbacks?: ProgressCallbacks,
+    options: ConcatenateOptions = {}
+  ): Promise<ConversionResult> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return this.engine.concatenate(files, formatId, callbacks, options);
+    }
 
-    try {
-      callbacks?.onProgress?.(0);
-      callbacks?.onLog?.(`Loading "${file.name}" with Mediabunny...`);
-
-      let detectedFormatName = 'unknown';
-      try {
-        const detectedFormat = await input.getFormat();
-        detectedFormatName = detectedFormat?.name ?? detectedFormat?.constructor?.name ?? 'unknown';
-        callbacks?.onLog?.(`Detected container: ${detectedFormatName}.`);
-      } catch (formatError) {
-        const headerBytes = Array.from(new Uint8Array(inMemoryCopy.slice(0, 32)))
-          .map((byte) => byte.toString(16).padStart(2, '0'))
-          .join(' ');
-        callbacks?.onLog?.(
-          `Unable to detect the container format from the file header. First 32 bytes: ${headerBytes}`
+    const { signal, ...workerOptions } = options;
+    const jobId = options.jobId ?? DEFAULT_JOB_ID;
+    return this.runInWorker<ConversionResult>(
+      worker,
+      { type: 'concatenate', jobId, files, formatId, options: { ...workerOptions, jobId } },
+      callbacks,
+      signal
+    );
+  }
+
+  canReencodeVideoAudio(container: VideoContainerId): Promise<boolean> {
+    return this.engine.canReencodeVideoAudio(container);
+  }
+
+  suggestVideoOutputName(originalName: string, video: VideoConversionOptions): string {
+    return this.engine.suggestVideoOutputName(originalName, video);
+  }
+
+  /** Finds the pauses in the source's audio, in the worker when one is available. */
+  findSilences(file: File, options: SilenceSearchOptions, callbacks?: ProgressCallbacks): Promise<TrimRange[]> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return this.engine.findSilences(file, options, callbacks);
+    }
+
+    const jobId = options.jobId ?? DEFAULT_JOB_ID;
+    return this.runInWorker<TrimRange[]>(
+      worker,
+      { type: 'find-silences', jobId, file, options: { ...options, jobId } },
+      callbacks
+    );
+  }
+
+  /** Reduces the source's audio to peaks for a waveform view, decoding it in the worker when possible. */
+  computeWaveform(file: File, options: WaveformOptions, callbacks?: ProgressCallbacks): Promise<Waveform> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return this.engine.computeWaveform(file, options, callbacks);
+    }
+
+    const jobId = options.jobId ?? DEFAULT_JOB_ID;
+    return this.runInWorker<Waveform>(worker, { type: 'waveform', jobId, file, options: { ...options, jobId } }, callbacks);
+  }
+
+  /**
+   * Works out where to cut the source (or its trimmed `range`) for the given split mode. Chapter splits
+   * use the markers from `probe()`; silence splits decode the audio once to find pauses.
+   */
+  async planSegments(
+    file: File,
+    probe: MediaProbe,
+    split: SplitOptions,
+    options: Pick<ConvertOptions, 'jobId' | 'trim' | 'audioTrack'> = {},
+    callbacks?: ProgressCallbacks
+  ): Promise<AudioSegment[]> {
+    const range = options.trim ?? { start: 0, end: probe.duration };
+    let segments: AudioSegment[];
+    switch (split.mode) {
+      case 'chapters':
+        if (!probe.chapters.length) {
+          throw new Error('This file has no chapter markers. Split by length or at pauses instead.');
+        }
+        segments = segmentsFromChapters(probe.chapters, range);
+        break;
+      case 'fixed':
+        segments = fixedSegments(range, split.segmentLength ?? DEFAULT_SEGMENT_LENGTH);
+        break;
+      case 'silence': {
+        const silences = await this.findSilences(
+          file,
+          {
+            jobId: options.jobId,
+            threshold: split.silenceThreshold ?? DEFAULT_SPLIT_SILENCE_THRESHOLD,
+            minDuration: split.minSilence ?? DEFAULT_MIN_SILENCE,
+            range,
+            audioTrack: options.audioTrack
+          },
+          callbacks
         );
-        throw formatError;
+        segments = segmentsFromSilences(silences, range);
+        break;
       }
+    }
 
-      conversion = await Conversion.init({
-        input,
-        output,
-        video: { discard: true },
-        audio: spec.audioOptions
-      });
+    if (!segments.length) {
+      throw new Error('Nothing to split: the selected range is shorter than a single part.');
+    }
+    return segments;
+  }
 
-      if (!conversion.isValid) {
-        if (conversion.discardedTracks.length === 0) {
-          throw new Error('Mediabunny rejected the file: unrecognized or unsupported audio/video tracks.');
+  /**
+   * Converts each segment into its own file, titled and numbered after the segment, and bundles them
+   * into a ZIP. Progress spans all parts.
+   */
+  async convertSegments(
+    file: File,
+    formatId: AudioOutputFormatId,
+    segments: AudioSegment[],
+    callbacks?: ProgressCallbacks,
+    options: Omit<ConvertOptions, 'trim' | 'saveHandle'> = {}
+  ): Promise<SegmentedConversion> {
+    const extension = this.engine.getExtension(formatId);
+    const digits = Math.max(String(segments.length).length, 2);
+    const parts: ConversionResult[] = [];
+
+    for (const [index, segment] of segments.entries()) {
+      const number = String(index + 1).padStart(digits, '0');
+      callbacks?.onLog?.(`Exporting part ${index + 1} of ${segments.length}: ${segment.title}...`);
+      const result = await this.convert(
+        file,
+        formatId,
+        {
+          onLog: callbacks?.onLog,
+          onProgress: (ratio) => callbacks?.onProgress?.((index + ratio) / segments.length)
+        },
+        {
+          ...options,
+          trim: { start: segment.start, end: segment.end },
+          tags: { ...options.tags, title: segment.title, trackNumber: index + 1 }
         }
-        throw new Error(this.describeInvalidConversion(conversion));
-      }
+      );
+      const title = this.engine.sanitizeBaseName(segment.title);
+      parts.push({
+        ...result,
+        fileName: this.engine.buildOutputName(file.name, `_${number}${title ? `_${title}` : ''}${extension}`)
+      });
+    }
 
-      if (cancelRequested) {
-        cancel();
+    callbacks?.onLog?.(`Bundling ${parts.length} parts into a ZIP archive...`);
+    const blob = await createZip(parts.map((part) => ({ name: part.fileName, blob: part.blob })));
+    return {
+      parts,
+      archive: {
+        fileName: this.engine.buildOutputName(file.name, '_parts.zip'),
+        blob,
+        mimeType: 'application/zip'
       }
+    };
+  }
 
-      conversion.onProgress = (progress: number) => {
-        if (cancelRequested) {
-          return;
-        }
-        const clamped = Math.min(Math.max(progress, 0), 1);
-        callbacks?.onProgress?.(clamped);
-      };
+  cancelConversion(jobId: string = DEFAULT_JOB_ID): void {
+    const serverJob = this.serverJobs.get(jobId);
+    if (serverJob) {
+      serverJob.abort();
+      return;
+    }
+    if (this.workerJobs.has(jobId) && this.worker) {
+      this.postToWorker(this.worker, { type: 'cancel', jobId });
+      return;
+    }
+    this.engine.cancelConversion(jobId);
+  }
 
-      callbacks?.onLog?.('Transcoding audio to MP3 with Mediabunny...');
+  /**
+   * Converts every audio track of the source into its own file, one after another. Progress spans all
+   * tracks; the results are named after the track number and language.
+   */
+  async convertAllAudioTracks(
+    file: File,
+    formatId: AudioOutputFormatId,
+    callbacks?: ProgressCallbacks,
+    options: Omit<ConvertOptions, 'audioTrack' | 'saveHandle'> = {}
+  ): Promise<ConversionResult[]> {
+    const trackLanguages = await this.engine.getAudioTrackLanguages(file);
+    if (!trackLanguages.length) {
+      throw new Error('This file does not contain any audio tracks.');
+    }
 
-      await Promise.race([conversion.execute(), cancelPromise]);
+    const extension = this.engine.getExtension(formatId);
+    const results: ConversionResult[] = [];
+    for (const [index, languageCode] of trackLanguages.entries()) {
+      const number = index + 1;
+      callbacks?.onLog?.(`Exporting audio track ${number} of ${trackLanguages.length}...`);
+      const result = await this.convert(
+        file,
+        formatId,
+        {
+          onLog: callbacks?.onLog,
+          onProgress: (ratio) => callbacks?.onProgress?.((index + ratio) / trackLanguages.length)
+        },
+        { ...options, audioTrack: { number } }
+      );
+      const language = languageCode && languageCode !== 'und' ? `_${languageCode}` : '';
+      results.push({
+        ...result,
+        fileName: this.engine.buildOutputName(file.name, `_track${number}${language}${extension}`)
+      });
+    }
+    return results;
+  }
 
-      if (cancelRequested) {
-        throw new DOMException('Conversion cancelled.', 'AbortError');
-      }
+  probe(file: File, callbacks?: Pick<ProgressCallbacks, 'onLog'>): Promise<MediaProbe> {
+    return this.engine.probe(file, callbacks);
+  }
 
-      const buffer = target.buffer;
-      if (!buffer) {
-        throw new Error('Mediabunny did not return any audio bytes.');
+  /** Grabs a square frame of the source video at `timestamp` (seconds) as JPEG cover art. */
+  async captureCoverFrame(file: File, timestamp: number): Promise<CoverImage> {
+    const input = this.engine.createInput(file);
+    try {
+      const track = await input.getPrimaryVideoTrack();
+      if (!track) {
+        throw new Error('This file has no video track to take a cover image from.');
+      }
+      if (!(await track.canDecode())) {
+        throw new Error(`Unable to capture a frame: ${this.engine.humanizeReason('undecodable_source_codec')}.`);
       }
 
-      const blob = new Blob([buffer], { type: spec.mimeType });
-      target.buffer = null;
-
-      callbacks?.onProgress?.(1);
-      callbacks?.onLog?.('Conversion finished.');
+      const sink = new CanvasSink(track, { width: COVER_SIZE, height: COVER_SIZE, fit: 'cover' });
+      const frame = await sink.getCanvas(Math.max(timestamp, await track.getFirstTimestamp()));
+      if (!frame) {
+        throw new Error('No video frame was found at that position.');
+      }
 
-      return {
-        fileName: this.buildOutputName(file.name, spec.extension),
-        blob,
-        mimeType: spec.mimeType
-      };
+      const { canvas } = frame;
+      const blob =
+        typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas
+          ? await canvas.convertToBlob({ type: 'image/jpeg', quality: COVER_JPEG_QUALITY })
+          : await new Promise<Blob | null>((resolve) =>
+              (canvas as HTMLCanvasElement).toBlob(resolve, 'image/jpeg', COVER_JPEG_QUALITY)
+            );
+      if (!blob) {
+        throw new Error('The browser could not encode the captured frame.');
+      }
+      return { data: new Uint8Array(await blob.arrayBuffer()), mimeType: 'image/jpeg' };
     } finally {
-      this.activeCancel = undefined;
       input.dispose();
     }
   }
 
-  cancelConversion(): void {
-    this.activeCancel?.();
+  getEncoderCapabilities(formatId: AudioOutputFormatId): EncoderCapabilities | null {
+    return this.engine.getEncoderCapabilities(formatId);
+  }
+
+  /** How the format stores tags, or null for containers (like raw AAC) that cannot carry any. */
+  getTagSupport(formatId: AudioOutputFormatId): TagSupport | null {
+    return this.engine.getTagSupport(formatId);
+  }
+
+  /** Returns a user-facing explanation when the settings do not fit the format, otherwise null. */
+  validateEncoderSettings(formatId: AudioOutputFormatId, settings: EncoderSettings): string | null {
+    return this.engine.validateEncoderSettings(formatId, settings);
+  }
+
+  suggestOutputName(originalName: string, formatId: AudioOutputFormatId): string {
+    return this.engine.suggestOutputName(originalName, formatId);
+  }
+
+  suggestJoinedOutputName(firstName: string, formatId: AudioOutputFormatId): string {
+    return this.engine.suggestJoinedOutputName(firstName, formatId);
   }
 
+  /** The engine's verdict per format, with formats only the server can encode marked as `remote`. */
   async getFormatOptionsWithSupport(): Promise<AudioOutputOption[]> {
-    const options: AudioOutputOption[] = [];
-    for (const option of AUDIO_OUTPUT_OPTIONS) {
-      const spec = AUDIO_FORMAT_SPECS[option.id];
-      const supported = await this.isFormatSupported(option.id);
-      options.push({
-        ...option,
-        supported,
-        reason: supported ? undefined : spec.unsupportedMessage ?? 'Not supported by this browser yet.'
-      });
-    }
-    return options;
+    const [options, serverFormats] = await Promise.all([
+      this.engine.getFormatOptionsWithSupport(),
+      this.server.getFormats()
+    ]);
+    return options.map((option) =>
+      !option.supported && serverFormats.includes(option.id)
+        ? { ...option, supported: true, remote: true, reason: undefined }
+        : option
+    );
   }
 
-  async isFormatSupported(formatId: AudioOutputFormatId): Promise<boolean> {
-    const spec = AUDIO_FORMAT_SPECS[formatId];
-    if (!spec) {
-      return false;
-    }
+  isFormatSupported(formatId: AudioOutputFormatId): Promise<boolean> {
+    return this.engine.isFormatSupported(formatId);
+  }
 
-    if (spec.alwaysAvailable) {
-      return true;
+  /** Hosts the server fetches media from, or null when it has no remote media proxy. */
+  getRemoteMediaCapabilities(): Promise<RemoteMediaCapabilities | null> {
+    return this.remoteMedia.getCapabilities();
+  }
+
+  /** Downloads a direct media link through the server into a `File` that converts like a local one. */
+  fetchRemoteMedia(
+    url: string,
+    signal: AbortSignal,
+    onProgress?: (received: number, total: number | null) => void
+  ): Promise<File> {
+    return this.remoteMedia.download(url, signal, onProgress);
+  }
+
+  private async convertOnServer(
+    file: File,
+    formatId: AudioOutputFormatId,
+    callbacks?: ProgressCallbacks,
+    options: ConvertOptions = {}
+  ): Promise<ConversionResult> {
+    const jobId = options.jobId ?? DEFAULT_JOB_ID;
+    if (this.serverJobs.has(jobId)) {
+      throw new Error('Another conversion is already in progress.');
     }
 
-    if (this.supportChecks.has(formatId)) {
-      return this.supportChecks.get(formatId)!;
+    // Checked here rather than after the upload: the server decodes far fewer codecs than the browser.
+    const source = await this.engine.inspectAudioSource(file, options.audioTrack);
+    const inputCodecs = await this.server.getInputCodecs();
+    if (source?.codec && !inputCodecs.includes(source.codec)) {
+      throw new ConversionError(
+        'undecodable-codec',
+        `This browser cannot encode ${formatId.toUpperCase()}, and the conversion server cannot decode ` +
+          `${source.codec.toUpperCase()} audio. Choose another format.`,
+        { fileName: file.name, codec: source.codec, formatId }
+      );
     }
 
-    const promise = this.checkCodecSupport(spec.codec).catch(() => false);
-    this.supportChecks.set(formatId, promise);
-    return promise;
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    options.signal?.addEventListener('abort', abort, { once: true });
+    if (options.signal?.aborted) {
+      controller.abort();
+    }
+    this.serverJobs.set(jobId, controller);
+    try {
+      return await this.server.convert(file, formatId, controller.signal, callbacks, options);
+    } finally {
+      options.signal?.removeEventListener('abort', abort);
+      this.serverJobs.delete(jobId);
+    }
   }
 
-  private async checkCodecSupport(codec: AudioFormatSpec['codec']): Promise<boolean> {
-    if (codec === 'pcm-s16') {
-      return true;
+  private getWorker(): Worker | null {
+    if (this.worker !== undefined) {
+      return this.worker;
     }
-
     try {
-      return await canEncodeAudio(codec);
-    } catch {
-      return false;
+      const worker = this.createWorker();
+      if (!worker) {
+        this.worker = null;
+        return null;
+      }
+      worker.addEventListener('message', (event: MessageEvent<ConversionWorkerResponse>) =>
+        this.handleWorkerMessage(event.data)
+      );
+      worker.addEventListener('error', (event) => this.handleWorkerCrash(event));
+      this.worker = worker;
+    } catch (error) {
+      console.warn('[Mediabunny] Conversion worker unavailable; converting on the main thread.', error);
+      this.worker = null;
     }
+    return this.worker;
   }
 
-  private describeInvalidConversion(conversion: Conversion): string {
-    if (!conversion.discardedTracks.length) {
-      return 'Unable to convert this file with Mediabunny.';
+  /** Aborting `signal` posts a `cancel` for the job, the same as `cancelConversion(jobId)`. */
+  private runInWorker<T extends WorkerAnswer>(
+    worker: Worker,
+    request: Exclude<ConversionWorkerRequest, { type: 'cancel' }>,
+    callbacks?: ProgressCallbacks,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (this.workerJobs.has(request.jobId)) {
+      return Promise.reject(new Error('Another conversion is already in progress.'));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(cancelledError());
     }
 
-    const details = conversion.discardedTracks
-      .map(({ track, reason }) => `${track.type} track discarded (${this.humanizeReason(reason)})`)
-      .join('; ');
-
-    return `Unable to convert this file: ${details}.`;
+    const cancel = () => this.cancelConversion(request.jobId);
+    signal?.addEventListener('abort', cancel, { once: true });
+    return new Promise<T>((resolve, reject) => {
+      this.workerJobs.set(request.jobId, { callbacks, resolve: resolve as WorkerJob['resolve'], reject });
+      this.postToWorker(worker, request);
+    }).finally(() => signal?.removeEventListener('abort', cancel));
   }
 
-  private humanizeReason(reason: DiscardedTrack['reason']): string {
-    const mapping: Record<DiscardedTrack['reason'], string> = {
-      discarded_by_user: 'discarded by configuration',
-      max_track_count_reached: 'output format limit reached',
-      max_track_count_of_type_reached: 'too many tracks of this type for the output format',
-      unknown_source_codec: 'unknown source codec',
-      undecodable_source_codec: 'source codec not decodable in this browser',
-      no_encodable_target_codec: 'no compatible encoder available'
-    };
-
-    return mapping[reason] ?? 'unsupported track';
+  private postToWorker(worker: Worker, message: ConversionWorkerRequest): void {
+    worker.postMessage(message);
   }
 
-  private buildOutputName(originalName: string, extension: string): string {
-    const safeBase = this.sanitizeBaseName(originalName) || 'audio';
-    return `${safeBase}${extension}`;
+  private handleWorkerMessage(message: ConversionWorkerResponse): void {
+    const job = this.workerJobs.get(message.jobId);
+    if (!job) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'progress':
+        job.callbacks?.onProgress?.(message.ratio);
+        break;
+      case 'progress-details':
+        job.callbacks?.onProgressDetails?.(message.progress);
+        break;
+      case 'log':
+        job.callbacks?.onLog?.(message.message);
+        break;
+      case 'result':
+        this.workerJobs.delete(message.jobId);
+        job.resolve(message.result);
+        break;
+      case 'silences':
+        this.workerJobs.delete(message.jobId);
+        job.resolve(message.silences);
+        break;
+      case 'waveform':
+        this.workerJobs.delete(message.jobId);
+        job.resolve(message.waveform);
+        break;
+      case 'error':
+        this.workerJobs.delete(message.jobId);
+        job.reject(deserializeError(message.error));
+        break;
+    }
   }
 
-  private sanitizeBaseName(name: string): string {
-    return name
-      .replace(/\.[^/.]+$/, '')
-      .replace(/[^a-zA-Z0-9-_]+/g, '_')
-      .replace(/_{2,}/g, '_')
-      .replace(/^_+|_+$/g, '')
-      .toLowerCase()
-      .slice(0, 64);
+  /** A worker that failed to load or threw outside a job cannot be trusted; fail its jobs and start over. */
+  private handleWorkerCrash(event: ErrorEvent): void {
+    const reason = new Error(`The conversion worker stopped unexpectedly${event.message ? `: ${event.message}` : '.'}`);
+    for (const job of this.workerJobs.values()) {
+      job.reject(reason);
+    }
+    this.workerJobs.clear();
+    this.worker?.terminate();
+    this.worker = undefined;
   }
 }
@@ -0,0 +1,119 @@
+import { createFlacFile } from '../testing/media-fixtures';
+import { remuxFlacToOgg } from './ogg-flac';
+
+interface OggPage {
+  flags: number;
+  granule: bigint;
+  serial: number;
+  sequence: number;
+  crcMatches: boolean;
+}
+
+interface OggStream {
+  pages: OggPage[];
+  packets: Uint8Array[];
+}
+
+/** Splits an Ogg stream into pages and joins the segments back into packets. */
+async function readOgg(blob: Blob): Promise<OggStream> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const pages: OggPage[] = [];
+  const packets: Uint8Array[] = [];
+  let packet: number[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    expect(view.getUint32(offset, true)).toBe(0x5367674f);
+    const segments = bytes.subarray(offset + 27, offset + 27 + bytes[offset + 26]);
+    const size = 27 + segments.length + segments.reduce((total, length) => total + length, 0);
+    const page = bytes.slice(offset, offset + size);
+    const storedCrc = view.getUint32(offset + 22, true);
+    page.fill(0, 22, 26);
+    pages.push({
+      flags: bytes[offset + 5],
+      granule: view.getBigInt64(offset + 6, true),
+      serial: view.getUint32(offset + 14, true),
+      sequence: view.getUint32(offset + 18, true),
+      crcMatches: oggCrc(page) === storedCrc
+    });
+
+    let position = offset + 27 + segments.length;
+    for (const length of segments) {
+      packet.push(...bytes.subarray(position, position + length));
+      position += length;
+      if (length < 255) {
+        packets.push(new Uint8Array(packet));
+        packet = [];
+      }
+    }
+    offset += size;
+  }
+  return { pages, packets };
+}
+
+function oggCrc(page: Uint8Array): number {
+  let crc = 0;
+  for (const byte of page) {
+    crc ^= byte << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    crc >>>= 0;
+  }
+  return crc;
+}
+
+function ascii(bytes: Uint8Array): string {
+  return String.fromCharCode(...bytes);
+}
+
+describe('remuxFlacToOgg', () => {
+  const source = createFlacFile({ duration: 1.5 });
+  /** The fixture has a single metadata block, STREAMINFO, right after the `fLaC` marker. */
+  const METADATA_END = 4 + 4 + 34;
+
+  it('writes valid pages of a single logical stream', async () => {
+    const { pages } = await readOgg(await remuxFlacToOgg(source));
+
+    expect(pages.every((page) => page.crcMatches)).toBeTrue();
+    expect(pages.map((page) => page.sequence)).toEqual(pages.map((_, index) => index));
+    expect(new Set(pages.map((page) => page.serial)).size).toBe(1);
+    expect(pages.map((page) => page.flags & 0x02)).toEqual([0x02, ...pages.slice(1).map(() => 0)]);
+    expect(pages[pages.length - 1].flags & 0x04).toBe(0x04);
+  });
+
+  it('starts with the Ogg FLAC mapping header around the source STREAMINFO', async () => {
+    const { packets } = await readOgg(await remuxFlacToOgg(source));
+    const streamInfo = new Uint8Array(await source.slice(4, METADATA_END).arrayBuffer());
+
+    const [first] = packets;
+    expect(first[0]).toBe(0x7f);
+    expect(ascii(first.subarray(1, 5))).toBe('FLAC');
+    expect([first[5], first[6]]).toEqual([1, 0]);
+    expect((first[7] << 8) | first[8]).toBe(1);
+    expect(ascii(first.subarray(9, 13))).toBe('fLaC');
+    expect(first[13]).toBe(0);
+    expect(first.subarray(14)).toEqual(streamInfo.subarray(1));
+  });
+
+  it('adds a Vorbis comment as the last metadata packet', async () => {
+    const { packets } = await readOgg(await remuxFlacToOgg(source));
+
+    expect(packets[1][0]).toBe(0x80 | 4);
+  });
+
+  it('copies the audio frames untouched and ends on the total sample count', async () => {
+    const { pages, packets } = await readOgg(await remuxFlacToOgg(source));
+    const frames = new Uint8Array(await source.slice(METADATA_END).arrayBuffer());
+
+    const audio = packets.slice(2);
+    const copied = new Uint8Array(await new Blob(audio).arrayBuffer());
+    expect(audio.length).toBe(Math.ceil((1.5 * 44_100) / 4096));
+    expect(copied).toEqual(frames);
+    expect(pages[pages.length - 1].granule).toBe(BigInt(1.5 * 44_100));
+  });
+
+  it('refuses input that is not native FLAC', async () => {
+    await expectAsync(remuxFlacToOgg(new Blob(['OggS']))).toBeRejectedWithError(/malformed/);
+  });
+});
@@ -0,0 +1,202 @@
+import { BlobSource, EncodedPacketSink, FLAC, Input } from 'mediabunny';
+
+/**
+ * Repackages a native FLAC file as Ogg FLAC (the Ogg mapping from the FLAC specification). Mediabunny's
+ * Ogg muxer only takes Vorbis and Opus, so FLAC is encoded as usual and its metadata blocks and frames
+ * are moved into Ogg pages afterwards; the audio itself is copied untouched.
+ */
+
+const STREAMINFO = 0;
+const PADDING = 1;
+const VORBIS_COMMENT = 4;
+const LAST_BLOCK_FLAG = 0x80;
+/** Ogg FLAC mapping version 1.0. */
+const MAPPING_VERSION = [1, 0];
+
+const BEGINNING_OF_STREAM = 0x02;
+const CONTINUED_PACKET = 0x01;
+const END_OF_STREAM = 0x04;
+const MAX_SEGMENTS = 255;
+/** Pages are flushed once they hold this much audio, like libogg does. */
+const TARGET_PAGE_BYTES = 4096;
+/** Granule position of pages on which no packet ends. */
+const NO_GRANULE = -1n;
+
+let crcTable: Uint32Array | null = null;
+
+export async function remuxFlacToOgg(flac: Blob): Promise<Blob> {
+  const blocks = await readMetadataBlocks(flac);
+  const writer = new OggPageWriter(crypto.getRandomValues(new Uint32Array(1))[0]);
+
+  const [streamInfo, ...rest] = blocks;
+  // The mapping wants the Vorbis comment right after STREAMINFO; players read tags from there.
+  const others = rest.filter((block) => blockType(block) !== PADDING);
+  const comment = others.find((block) => blockType(block) === VORBIS_COMMENT) ?? emptyVorbisComment();
+  const headers = [comment, ...others.filter((block) => block !== comment)].map((block, index, all) =>
+    withLastFlag(block, index === all.length - 1)
+  );
+
+  const first = new Uint8Array(13 + streamInfo.length);
+  first.set([0x7f, ...ascii('FLAC'), ...MAPPING_VERSION, headers.length >> 8, headers.length & 0xff]);
+  first.set(ascii('fLaC'), 9);
+  first.set(withLastFlag(streamInfo, false), 13);
+  writer.write(first, 0n);
+  writer.flush();
+  for (const header of headers) {
+    writer.write(header, 0n);
+  }
+  writer.flush();
+
+  const input = new Input({ source: new BlobSource(flac), formats: [FLAC] });
+  try {
+    const track = await input.getPrimaryAudioTrack();
+    if (!track) {
+      throw new Error('The encoded FLAC stream has no audio.');
+    }
+    for await (const packet of new EncodedPacketSink(track).packets()) {
+      if (writer.pendingBytes >= TARGET_PAGE_BYTES) {
+        writer.flush();
+      }
+      writer.write(packet.data, BigInt(Math.round((packet.timestamp + packet.duration) * track.sampleRate)));
+    }
+  } finally {
+    input.dispose();
+  }
+  writer.flush(true);
+
+  return new Blob(writer.pages, { type: 'audio/ogg' });
+}
+
+/** Returns each metadata block of a native FLAC file, including its 4-byte header; STREAMINFO comes first. */
+async function readMetadataBlocks(flac: Blob): Promise<Uint8Array[]> {
+  const signature = new Uint8Array(await flac.slice(0, 4).arrayBuffer());
+  if (String.fromCharCode(...signature) !== 'fLaC') {
+    throw new Error('The encoded FLAC stream is malformed.');
+  }
+
+  const blocks: Uint8Array[] = [];
+  let offset = 4;
+  for (;;) {
+    const header = new Uint8Array(await flac.slice(offset, offset + 4).arrayBuffer());
+    if (header.length < 4) {
+      throw new Error('The encoded FLAC stream is malformed.');
+    }
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    blocks.push(new Uint8Array(await flac.slice(offset, offset + 4 + length).arrayBuffer()));
+    offset += 4 + length;
+    if (header[0] & LAST_BLOCK_FLAG) {
+      break;
+    }
+  }
+
+  if (blockType(blocks[0]) !== STREAMINFO) {
+    throw new Error('The encoded FLAC stream is malformed.');
+  }
+  return blocks;
+}
+
+function blockType(block: Uint8Array): number {
+  return block[0] & ~LAST_BLOCK_FLAG;
+}
+
+function withLastFlag(block: Uint8Array, last: boolean): Uint8Array {
+  const copy = block.slice();
+  copy[0] = blockType(block) | (last ? LAST_BLOCK_FLAG : 0);
+  return copy;
+}
+
+/** A Vorbis comment block with an empty vendor string and no fields. */
+function emptyVorbisComment(): Uint8Array {
+  return new Uint8Array([VORBIS_COMMENT, 0, 0, 8, 0, 0, 0, 0, 0, 0, 0, 0]);
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, (char) => char.charCodeAt(0));
+}
+
+/** Lays packets out over Ogg pages of one logical stream. */
+class OggPageWriter {
+  readonly pages: Uint8Array[] = [];
+  pendingBytes = 0;
+
+  private sequence = 0;
+  private lacing: number[] = [];
+  private body: Uint8Array[] = [];
+  /** Granule position of the last packet that ends on the pending page. */
+  private granule = NO_GRANULE;
+  /** True when the pending page starts with the rest of a packet begun on the previous one. */
+  private continued = false;
+
+  constructor(private readonly serial: number) {}
+
+  write(packet: Uint8Array, granule: bigint): void {
+    // A packet is split into 255-byte segments and ends with a shorter one, which may be empty.
+    const segments = Math.floor(packet.length / 255) + 1;
+    for (let index = 0; index < segments; index++) {
+      if (this.lacing.length === MAX_SEGMENTS) {
+        this.emit(false, index > 0);
+      }
+      const segment = packet.subarray(index * 255, Math.min((index + 1) * 255, packet.length));
+      this.lacing.push(segment.length);
+      this.body.push(segment);
+      this.pendingBytes += segment.length;
+    }
+    this.granule = granule;
+  }
+
+  /** Ends the pending page so the next packet starts a new one; `last` marks the end of the stream. */
+  flush(last = false): void {
+    if (this.lacing.length || last) {
+      this.emit(last, false);
+    }
+  }
+
+  private emit(last: boolean, splitsPacket: boolean): void {
+    const header = new DataView(new ArrayBuffer(27 + this.lacing.length));
+    header.setUint32(0, 0x5367674f, true); // "OggS"
+    header.setUint8(4, 0);
+    header.setUint8(
+      5,
+      (this.continued ? CONTINUED_PACKET : 0) |
+        (this.sequence === 0 ? BEGINNING_OF_STREAM : 0) |
+        (last ? END_OF_STREAM : 0)
+    );
+    header.setBigInt64(6, this.granule, true);
+    header.setUint32(14, this.serial, true);
+    header.setUint32(18, this.sequence++, true);
+    header.setUint8(26, this.lacing.length);
+    const page = new Uint8Array(header.byteLength + this.pendingBytes);
+    page.set(this.lacing, 27);
+    let offset = header.byteLength;
+    for (const segment of this.body) {
+      page.set(segment, offset);
+      offset += segment.length;
+    }
+    page.set(new Uint8Array(header.buffer, 0, 27));
+    new DataView(page.buffer).setUint32(22, oggCrc(page), true);
+    this.pages.push(page);
+
+    this.lacing = [];
+    this.body = [];
+    this.pendingBytes = 0;
+    this.granule = NO_GRANULE;
+    this.continued = splitsPacket;
+  }
+}
+
+/** CRC-32 with polynomial 0x04c11db7, unreflected and without final XOR, as Ogg defines it. */
+function oggCrc(page: Uint8Array): number {
+  crcTable ??= Uint32Array.from({ length: 256 }, (_, index) => {
+    let value = index << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & 0x80000000 ? (value << 1) ^ 0x04c11db7 : value << 1;
+    }
+    return value >>> 0;
+  });
+
+  let crc = 0;
+  for (const byte of page) {
+    crc = ((crc << 8) ^ crcTable[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  }
+  return crc;
+}
@@ -0,0 +1,19 @@
+import { Injectable } from '@angular/core';
+import { Meta, Title } from '@angular/platform-browser';
+import { SitePage } from './site-pages';
+
+/** Writes a page's title and description into the document head, so prerendered pages carry their own. */
+@Injectable({ providedIn: 'root' })
+export class PageMetaService {
+  constructor(
+    private readonly title: Title,
+    private readonly meta: Meta
+  ) {}
+
+  apply(page: SitePage): void {
+    this.title.setTitle(page.title);
+    this.meta.updateTag({ name: 'description', content: page.description });
+    this.meta.updateTag({ property: 'og:title', content: page.title });
+    this.meta.updateTag({ property: 'og:description', content: page.description });
+  }
+}
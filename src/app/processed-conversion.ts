@@ -0,0 +1,239 @@
+import { AudioCodec, AudioSample, AudioSampleSink, AudioSampleSource, InputAudioTrack, Output, Quality } from 'mediabunny';
+import {
+  LinearResampler,
+  LoudnessMeter,
+  PeakLimiter,
+  PeakMeter,
+  SilenceDetector,
+  applyFades,
+  applyGain,
+  dbToGain,
+  mixChannels
+} from './audio-processing';
+import { cancelledError } from './conversion-errors';
+
+export interface AudioProcessingOptions {
+  /** Integrated loudness to normalize to, in LUFS (e.g. -16 for podcasts, -23 for broadcast). */
+  loudnessTarget?: number;
+  /**
+   * Sample-peak ceiling in dBFS. Defaults to -1 dBFS whenever loudness normalization is on, so
+   * boosted quiet clips cannot clip.
+   */
+  peakLimit?: number;
+  /** Fade-in length in seconds. */
+  fadeIn?: number;
+  /** Fade-out length in seconds. */
+  fadeOut?: number;
+  /** Cuts leading and trailing audio quieter than this level, in dBFS (e.g. -50). */
+  silenceThreshold?: number;
+}
+
+export interface LoudnessReport {
+  /** Integrated loudness of the selected section before processing, if it was measured. */
+  inputLoudness: number | null;
+  /** Integrated loudness of the written audio. */
+  outputLoudness: number | null;
+  appliedGainDb: number;
+  /** Highest sample peak in the written audio, in dBFS. */
+  outputPeakDb: number;
+  /** Seconds of silence removed from the start and the end. */
+  trimmedSilence: { start: number; end: number };
+}
+
+export interface ProcessedConversionParams {
+  track: InputAudioTrack;
+  output: Output;
+  codec: AudioCodec;
+  bitrate?: number | Quality;
+  /** Rate to encode at; must be one the codec's encoder accepts. Defaults to the rate of the track. */
+  sampleRate?: number;
+  numberOfChannels?: number;
+  processing: AudioProcessingOptions;
+  /** Section of the track to process, in seconds. */
+  range: { start: number; end: number };
+  isCancelled: () => boolean;
+  /** Called when the analysis pass starts (`decoding`) and when writing starts (`encoding`). */
+  onPhase?: (phase: 'decoding' | 'encoding') => void;
+  onProgress?: (ratio: number) => void;
+  onLog?: (message: string) => void;
+}
+
+export interface AudioChunk {
+  planes: Float32Array[];
+  /** Source time of the first frame, in seconds. */
+  time: number;
+  sampleRate: number;
+}
+
+const DEFAULT_LIMIT_DB = -1;
+/** Normalization never boosts by more than this, so near-silent sources are not turned into noise. */
+const MAX_NORMALIZATION_GAIN_DB = 24;
+
+export function hasProcessing(options: AudioProcessingOptions | undefined): options is AudioProcessingOptions {
+  return Boolean(
+    options &&
+      (options.loudnessTarget !== undefined ||
+        options.peakLimit !== undefined ||
+        (options.fadeIn ?? 0) > 0 ||
+        (options.fadeOut ?? 0) > 0 ||
+        options.silenceThreshold !== undefined)
+  );
+}
+
+/**
+ * Decodes the track, runs it through the processing chain and encodes it into `output`. When
+ * loudness normalization or silence trimming is requested the section is decoded twice: once to
+ * measure, once to write.
+ */
+export async function runProcessedConversion(params: ProcessedConversionParams): Promise<LoudnessReport> {
+  const { track, output, processing, isCancelled } = params;
+  const channelCount = params.numberOfChannels ?? Math.min(track.numberOfChannels, 2);
+  const sampleRate = params.sampleRate ?? track.sampleRate;
+  const needsAnalysis = processing.loudnessTarget !== undefined || processing.silenceThreshold !== undefined;
+  const sectionLength = Math.max(params.range.end - params.range.start, 0);
+  const totalWork = sectionLength * (needsAnalysis ? 2 : 1) || 1;
+
+  let range = params.range;
+  let inputLoudness: number | null = null;
+  let appliedGainDb = 0;
+
+  if (needsAnalysis) {
+    params.onPhase?.('decoding');
+    params.onLog?.('Measuring loudness and silence...');
+    const meter = new LoudnessMeter(track.sampleRate, channelCount);
+    const silence = processing.silenceThreshold !== undefined ? new SilenceDetector(processing.silenceThreshold) : null;
+
+    for await (const chunk of readChunks(track, params.range, isCancelled)) {
+      const planes = mixChannels(chunk.planes, channelCount);
+      meter.push(planes);
+      silence?.push(planes, chunk.time, chunk.sampleRate);
+      params.onProgress?.((chunk.time - params.range.start) / totalWork);
+    }
+
+    inputLoudness = meter.integratedLoudness();
+    if (processing.loudnessTarget !== undefined && inputLoudness !== null) {
+      appliedGainDb = Math.min(processing.loudnessTarget - inputLoudness, MAX_NORMALIZATION_GAIN_DB);
+      params.onLog?.(
+        `Measured ${inputLoudness.toFixed(1)} LUFS; applying ${appliedGainDb >= 0 ? '+' : ''}${appliedGainDb.toFixed(1)} dB.`
+      );
+    }
+
+    const loud = silence?.loudRange();
+    if (silence && !loud) {
+      throw new Error('The selected audio is silent at the chosen threshold; nothing would be left after trimming.');
+    }
+    if (loud) {
+      range = { start: Math.max(loud.start, range.start), end: Math.min(loud.end, range.end) };
+    }
+  }
+
+  const source = new AudioSampleSource({ codec: params.codec, bitrate: params.bitrate });
+  output.addAudioTrack(source, { languageCode: track.languageCode !== 'und' ? track.languageCode : undefined });
+
+  const peakLimit = processing.peakLimit ?? (processing.loudnessTarget !== undefined ? DEFAULT_LIMIT_DB : undefined);
+  const limiter = peakLimit !== undefined ? new PeakLimiter(sampleRate, peakLimit) : null;
+  const resampler = new LinearResampler(track.sampleRate, sampleRate);
+  const outputMeter = new LoudnessMeter(sampleRate, channelCount);
+  const peakMeter = new PeakMeter();
+  const gain = dbToGain(appliedGainDb);
+  const duration = range.end - range.start;
+  const progressOffset = needsAnalysis ? sectionLength : 0;
+  let writtenFrames = 0;
+
+  const write = async (planes: Float32Array[]) => {
+    const frames = planes[0]?.length ?? 0;
+    if (!frames) {
+      return;
+    }
+
+    const time = writtenFrames / sampleRate;
+    applyGain(planes, gain);
+    applyFades(planes, time, sampleRate, duration, processing.fadeIn ?? 0, processing.fadeOut ?? 0);
+    limiter?.process(planes);
+    outputMeter.push(planes);
+    peakMeter.push(planes);
+
+    const sample = new AudioSample({
+      data: concatPlanes(planes),
+      format: 'f32-planar',
+      numberOfChannels: channelCount,
+      sampleRate,
+      timestamp: time
+    });
+    try {
+      await source.add(sample);
+    } finally {
+      sample.close();
+    }
+    writtenFrames += frames;
+  };
+
+  try {
+    await output.start();
+    params.onLog?.('Processing and encoding audio...');
+    params.onPhase?.('encoding');
+
+    for await (const chunk of readChunks(track, range, isCancelled)) {
+      await write(resampler.process(mixChannels(chunk.planes, channelCount)));
+      params.onProgress?.((progressOffset + chunk.time - params.range.start) / totalWork);
+    }
+    await write(resampler.flush());
+
+    source.close();
+    await output.finalize();
+  } catch (error) {
+    await output.cancel().catch(() => undefined);
+    throw error;
+  }
+
+  return {
+    inputLoudness,
+    outputLoudness: outputMeter.integratedLoudness(),
+    appliedGainDb,
+    outputPeakDb: peakMeter.peakDb(),
+    trimmedSilence: {
+      start: range.start - params.range.start,
+      end: params.range.end - range.end
+    }
+  };
+}
+
+/** Decoded audio of `range`, one planar chunk per decoded sample; throws a `cancelled` ConversionError once cancelled. */
+export async function* readChunks(
+  track: InputAudioTrack,
+  range: { start: number; end: number },
+  isCancelled: () => boolean
+): AsyncGenerator<AudioChunk> {
+  const sink = new AudioSampleSink(track);
+  for await (const sample of sink.samples(range.start, range.end)) {
+    try {
+      if (isCancelled()) {
+        throw cancelledError();
+      }
+
+      const rate = sample.sampleRate;
+      const first = Math.max(Math.round((range.start - sample.timestamp) * rate), 0);
+      const last = Math.min(Math.round((range.end - sample.timestamp) * rate), sample.numberOfFrames);
+      if (last > first) {
+        yield { planes: readPlanes(sample, first, last - first), time: sample.timestamp + first / rate, sampleRate: rate };
+      }
+    } finally {
+      sample.close();
+    }
+  }
+}
+
+function readPlanes(sample: AudioSample, frameOffset: number, frameCount: number): Float32Array[] {
+  return Array.from({ length: sample.numberOfChannels }, (_, planeIndex) => {
+    const plane = new Float32Array(frameCount);
+    sample.copyTo(plane, { planeIndex, format: 'f32-planar', frameOffset, frameCount });
+    return plane;
+  });
+}
+
+export function concatPlanes(planes: Float32Array[]): Float32Array {
+  const frames = planes[0]?.length ?? 0;
+  const data = new Float32Array(frames * planes.length);
+  planes.forEach((plane, index) => data.set(plane, index * frames));
+  return data;
+}
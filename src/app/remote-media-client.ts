@@ -0,0 +1,142 @@
+import { cancelledError } from './conversion-errors';
+import {
+  REMOTE_FILE_NAME_HEADER,
+  REMOTE_MEDIA_PATH,
+  RemoteMediaCapabilities,
+  checkRemoteUrl,
+  remoteMediaUrl
+} from './remote-media-protocol';
+
+/** Received bytes are gathered into Blob parts of about this size, which the browser may page to disk. */
+const BLOB_PART_BYTES = 16 * 1024 * 1024;
+/** A dropped download is picked up again with a `Range` request at most this many times. */
+const MAX_RESUMES = 3;
+
+/**
+ * Talks to the optional `/api/remote-media` proxy. Servers that do not enable it answer 404, which
+ * simply leaves the page without a URL field.
+ */
+export class RemoteMediaClient {
+  private capabilities: Promise<RemoteMediaCapabilities | null> | null = null;
+
+  getCapabilities(): Promise<RemoteMediaCapabilities | null> {
+    this.capabilities ??= (async () => {
+      // Relative URLs have nothing to resolve against while rendering on the server.
+      if (typeof window === 'undefined' || typeof fetch === 'undefined') {
+        return null;
+      }
+      try {
+        const response = await fetch(`${REMOTE_MEDIA_PATH}/config`);
+        return response.ok ? ((await response.json()) as RemoteMediaCapabilities) : null;
+      } catch {
+        return null;
+      }
+    })();
+    return this.capabilities;
+  }
+
+  /**
+   * Downloads `url` through the proxy into a `File` the conversion path can read like a local one.
+   * Reports bytes received and the total, when known. Aborting `signal` stops the download.
+   */
+  async download(
+    url: string,
+    signal: AbortSignal,
+    onProgress?: (received: number, total: number | null) => void
+  ): Promise<File> {
+    const capabilities = await this.getCapabilities();
+    if (!capabilities) {
+      throw new Error('This server does not fetch remote files.');
+    }
+    const checked = checkRemoteUrl(url, capabilities.allowedHosts);
+    if (typeof checked === 'string') {
+      throw new Error(checked);
+    }
+
+    const parts: Blob[] = [];
+    let received = 0;
+    let total: number | null = null;
+    let name = 'remote-media';
+    let type = '';
+    try {
+      for (let resumes = 0; ; resumes++) {
+        const response = await fetch(remoteMediaUrl(checked.href), {
+          headers: received ? { Range: `bytes=${received}-` } : {},
+          signal
+        });
+        if (!response.ok) {
+          throw new Error(await errorMessage(response));
+        }
+        if (received && response.status !== 206) {
+          throw new Error('The download was interrupted and the remote server cannot resume it.');
+        }
+        if (!received) {
+          total = Number(response.headers.get('content-length')) || null;
+          name = decodeHeader(response.headers.get(REMOTE_FILE_NAME_HEADER)) || name;
+          type = response.headers.get('content-type')?.split(';')[0] ?? '';
+        }
+
+        let pending: Uint8Array[] = [];
+        let pendingBytes = 0;
+        const flush = () => {
+          if (pending.length) {
+            parts.push(new Blob(pending));
+            pending = [];
+            pendingBytes = 0;
+          }
+        };
+        try {
+          const reader = response.body!.getReader();
+          for (;;) {
+            const { done, value } = await reader.read();
+            if (done) {
+              break;
+            }
+            pending.push(value);
+            pendingBytes += value.length;
+            received += value.length;
+            if (pendingBytes >= BLOB_PART_BYTES) {
+              flush();
+            }
+            onProgress?.(received, total);
+          }
+          flush();
+          break;
+        } catch (error) {
+          // Whatever arrived before the connection dropped is kept; the next request continues after it.
+          flush();
+          if (signal.aborted || resumes >= MAX_RESUMES || response.headers.get('accept-ranges') !== 'bytes') {
+            throw error;
+          }
+        }
+      }
+    } catch (error) {
+      throw signal.aborted ? cancelledError() : error;
+    }
+
+    if (!received) {
+      throw new Error('The remote file is empty.');
+    }
+    return new File(parts, name, { type });
+  }
+}
+
+async function errorMessage(response: Response): Promise<string> {
+  try {
+    const body = (await response.json()) as { error?: string };
+    if (body.error) {
+      return body.error;
+    }
+  } catch {
+    // Not one of our JSON errors; fall through to the status line.
+  }
+  return `The remote media proxy answered ${response.status} ${response.statusText}.`;
+}
+
+function decodeHeader(value: string | null): string {
+  try {
+    return value ? decodeURIComponent(value) : '';
+  } catch {
+    return '';
+  }
+}
@@ -0,0 +1,52 @@
+/** Shared between the Express remote media proxy (`src/server/remote-media-proxy.ts`) and the page. */
+export const REMOTE_MEDIA_PATH = '/api/remote-media';
+
+/** URI-encoded name of the fetched file, taken from the remote `Content-Disposition` or the link's path. */
+export const REMOTE_FILE_NAME_HEADER = 'X-File-Name';
+
+/** Answer to `GET /api/remote-media/config`. */
+export interface RemoteMediaCapabilities {
+  /**
+   * Host names the proxy fetches from; `*.example.com` also covers every subdomain of example.com. Only
+   * the scheme's default port is allowed unless the entry names one, as in `media.example.com:8443`.
+   */
+  allowedHosts: string[];
+  /** Files larger than this are refused. */
+  maxBytes: number;
+}
+
+const DEFAULT_PORTS: Record<string, string> = { 'http:': '80', 'https:': '443' };
+
+/** Proxy address for a remote file: `GET` streams it, passing `Range` requests through. */
+export function remoteMediaUrl(url: string): string {
+  return `${REMOTE_MEDIA_PATH}?url=${encodeURIComponent(url)}`;
+}
+
+/**
+ * Parses a user-supplied link and checks it against the allow-list. Returns the URL, or the reason it
+ * cannot be fetched; the page uses it to answer right away, the proxy to guard every redirect.
+ */
+export function checkRemoteUrl(value: string, allowedHosts: string[]): URL | string {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return 'Enter the full address of the file, starting with https://.';
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return 'Only http:// and https:// links can be fetched.';
+  }
+  if (url.username || url.password) {
+    return 'Links with a user name or password cannot be fetched.';
+  }
+  const host = url.hostname.toLowerCase();
+  const port = url.port || DEFAULT_PORTS[url.protocol];
+  const allowed = allowedHosts.some((pattern) => {
+    const [, wanted, wantedPort] = /^(.*?)(?::(\d+))?$/.exec(pattern.trim().toLowerCase())!;
+    const hostMatches = wanted.startsWith('*.')
+      ? host === wanted.slice(2) || host.endsWith(wanted.slice(1))
+      : host === wanted;
+    return hostMatches && port === (wantedPort ?? DEFAULT_PORTS[url.protocol]);
+  });
+  return allowed ? url : `${url.port ? url.host : host} is not on this server's list of allowed hosts.`;
+}
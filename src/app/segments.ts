@@ -0,0 +1,84 @@
+import { Chapter } from './chapters';
+
+export type SplitMode = 'chapters' | 'fixed' | 'silence';
+
+export interface SplitOptions {
+  mode: SplitMode;
+  /** Length of each part in seconds, for `fixed`. */
+  segmentLength?: number;
+  /** Level below which audio counts as silence, in dBFS, for `silence`. */
+  silenceThreshold?: number;
+  /** Shortest pause that starts a new part, in seconds, for `silence`. */
+  minSilence?: number;
+}
+
+export interface AudioSegment {
+  title: string;
+  /** Start in seconds from the beginning of the source. */
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_SEGMENT_LENGTH = 10 * 60;
+export const DEFAULT_SPLIT_SILENCE_THRESHOLD = -45;
+export const DEFAULT_MIN_SILENCE = 2;
+
+/** Parts shorter than this are folded into their neighbour instead of becoming their own file. */
+const MIN_SEGMENT_SECONDS = 1;
+
+/**
+ * One part per chapter, clipped to `range`. A chapter without an end runs until the next one starts,
+ * and anything before the first chapter is kept with it.
+ */
+export function segmentsFromChapters(chapters: Chapter[], range: { start: number; end: number }): AudioSegment[] {
+  const segments = chapters
+    .map((chapter, index) => ({
+      title: chapter.title,
+      start: Math.max(chapter.start, range.start),
+      end: Math.min(chapter.end ?? Infinity, chapters[index + 1]?.start ?? Infinity, range.end)
+    }))
+    .filter((segment) => segment.end - segment.start >= MIN_SEGMENT_SECONDS);
+  if (segments.length) {
+    segments[0].start = range.start;
+  }
+  return segments;
+}
+
+export function fixedSegments(range: { start: number; end: number }, length: number): AudioSegment[] {
+  if (!(length > 0)) {
+    throw new Error('The segment length must be greater than zero.');
+  }
+
+  const cuts: number[] = [];
+  for (let time = range.start + length; time < range.end; time += length) {
+    cuts.push(time);
+  }
+  return partsBetween(cuts, range);
+}
+
+/** Cuts in the middle of every pause, so no part starts or ends abruptly. */
+export function segmentsFromSilences(
+  silences: { start: number; end: number }[],
+  range: { start: number; end: number }
+): AudioSegment[] {
+  const cuts = silences
+    .filter((silence) => silence.start > range.start && silence.end < range.end)
+    .map((silence) => (silence.start + silence.end) / 2);
+  return partsBetween(cuts, range);
+}
+
+function partsBetween(cuts: number[], range: { start: number; end: number }): AudioSegment[] {
+  const edges = [range.start, ...cuts, range.end];
+  const segments: AudioSegment[] = [];
+  for (let index = 1; index < edges.length; index++) {
+    const start = edges[index - 1];
+    const end = edges[index];
+    const previous = segments[segments.length - 1];
+    if (previous && (end - start < MIN_SEGMENT_SECONDS || previous.end - previous.start < MIN_SEGMENT_SECONDS)) {
+      previous.end = end;
+    } else {
+      segments.push({ title: '', start, end });
+    }
+  }
+  return segments.map((segment, index) => ({ ...segment, title: `Part ${index + 1}` }));
+}
@@ -0,0 +1,184 @@
+import { AudioOutputFormatId, ConversionResult, ConvertOptions, ProgressCallbacks } from './conversion-engine';
+import { ConversionError, cancelledError, isConversionErrorCode } from './conversion-errors';
+import {
+  CONVERT_OPTIONS_HEADER,
+  FILE_NAME_HEADER,
+  SERVER_CONVERSION_PATH,
+  ServerCapabilities,
+  ServerConvertOptions,
+  ServerJobStatus
+} from './server-conversion-protocol';
+
+const POLL_INTERVAL_MS = 500;
+
+/**
+ * Talks to the optional `/api/convert` endpoint. Servers that do not enable it answer 404, which
+ * simply leaves the client without any remote formats.
+ */
+export class ServerConversionClient {
+  private capabilities: Promise<ServerCapabilities | null> | null = null;
+
+  /** Formats the server can encode, or an empty list when there is no conversion endpoint. */
+  async getFormats(): Promise<AudioOutputFormatId[]> {
+    return (await this.getCapabilities())?.formats ?? [];
+  }
+
+  async supports(formatId: AudioOutputFormatId): Promise<boolean> {
+    return (await this.getFormats()).includes(formatId);
+  }
+
+  /** Source codecs the server can decode; the rest would fail there with `undecodable-codec`. */
+  async getInputCodecs(): Promise<string[]> {
+    return (await this.getCapabilities())?.inputCodecs ?? [];
+  }
+
+  /**
+   * Uploads the source, follows the job until it settles and downloads the output. The result keeps
+   * the server's download link in `remoteUrl`. Aborting `signal` cancels the job on the server too.
+   */
+  async convert(
+    file: File,
+    formatId: AudioOutputFormatId,
+    signal: AbortSignal,
+    callbacks?: ProgressCallbacks,
+    options: ConvertOptions = {}
+  ): Promise<ConversionResult> {
+    const capabilities = await this.getCapabilities();
+    if (capabilities && file.size > capabilities.maxUploadBytes) {
+      const limit = Math.floor(capabilities.maxUploadBytes / (1024 * 1024));
+      throw new Error(`This file is too large to convert on the server (limit ${limit} MB).`);
+    }
+    if (options.tags?.cover) {
+      callbacks?.onLog?.('Cover art edits are not sent to the server; the source cover is used instead.');
+    }
+
+    callbacks?.onProgress?.(0);
+    callbacks?.onLog?.(`This browser cannot encode ${formatId.toUpperCase()}; uploading "${file.name}" to the server...`);
+    const remoteOptions: ServerConvertOptions = {
+      trim: options.trim,
+      encoder: options.encoder,
+      audioTrack: options.audioTrack,
+      processing: options.processing,
+      tags: options.tags && { ...options.tags, cover: undefined },
+      keepSourceTags: options.keepSourceTags
+    };
+    let status = await this.request<ServerJobStatus>(
+      `${SERVER_CONVERSION_PATH}?format=${encodeURIComponent(formatId)}`,
+      {
+        method: 'POST',
+        body: file,
+        headers: {
+          'Content-Type': file.type || 'application/octet-stream',
+          [FILE_NAME_HEADER]: encodeURIComponent(file.name),
+          [CONVERT_OPTIONS_HEADER]: encodeURIComponent(JSON.stringify(remoteOptions))
+        },
+        signal
+      }
+    );
+
+    const statusUrl = `${SERVER_CONVERSION_PATH}/${encodeURIComponent(status.id)}`;
+    const cancelRemote = () => void fetch(statusUrl, { method: 'DELETE' }).catch(() => undefined);
+    signal.addEventListener('abort', cancelRemote, { once: true });
+
+    try {
+      let printed = 0;
+      for (;;) {
+        status.log.slice(printed).forEach((line) => callbacks?.onLog?.(line));
+        printed = status.log.length;
+        callbacks?.onProgress?.(status.progress);
+        if (status.state === 'done' || status.state === 'failed') {
+          break;
+        }
+        await delay(POLL_INTERVAL_MS, signal);
+        status = await this.request<ServerJobStatus>(statusUrl, { signal });
+      }
+
+      if (status.state === 'failed') {
+        const message = status.error ?? 'The server could not convert this file.';
+        throw isConversionErrorCode(status.errorCode)
+          ? new ConversionError(status.errorCode, message, status.diagnostics)
+          : new Error(message);
+      }
+
+      callbacks?.onLog?.('Downloading the converted file from the server...');
+      const downloadUrl = new URL(`${statusUrl}/download`, location.href).href;
+      const response = await fetch(downloadUrl, { signal });
+      if (!response.ok) {
+        throw new Error(await errorMessage(response));
+      }
+      const mimeType = status.mimeType ?? response.headers.get('content-type') ?? 'application/octet-stream';
+      let blob = await response.blob();
+      let savedToDisk = false;
+      if (options.saveHandle) {
+        const writable = await options.saveHandle.createWritable();
+        await writable.write(blob);
+        await writable.close();
+        blob = await options.saveHandle.getFile();
+        savedToDisk = true;
+      }
+
+      callbacks?.onProgress?.(1);
+      return {
+        fileName: status.fileName ?? options.saveHandle?.name ?? file.name,
+        blob,
+        remoteUrl: downloadUrl,
+        mimeType,
+        ...(savedToDisk ? { savedToDisk } : {})
+      };
+    } catch (error) {
+      throw signal.aborted ? cancelledError() : error;
+    } finally {
+      signal.removeEventListener('abort', cancelRemote);
+    }
+  }
+
+  private getCapabilities(): Promise<ServerCapabilities | null> {
+    this.capabilities ??= (async () => {
+      // Relative URLs have nothing to resolve against while rendering on the server.
+      if (typeof window === 'undefined' || typeof fetch === 'undefined') {
+        return null;
+      }
+      try {
+        const response = await fetch(`${SERVER_CONVERSION_PATH}/formats`);
+        return response.ok ? ((await response.json()) as ServerCapabilities) : null;
+      } catch {
+        return null;
+      }
+    })();
+    return this.capabilities;
+  }
+
+  private async request<T>(url: string, init: RequestInit): Promise<T> {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+      throw new Error(await errorMessage(response));
+    }
+    return (await response.json()) as T;
+  }
+}
+
+async function errorMessage(response: Response): Promise<string> {
+  try {
+    const body = (await response.json()) as { error?: string };
+    if (body.error) {
+      return body.error;
+    }
+  } catch {
+    // Not one of our JSON errors; fall through to the status line.
+  }
+  return `The conversion server answered ${response.status} ${response.statusText}.`;
+}
+
+function delay(milliseconds: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', abort);
+      resolve();
+    }, milliseconds);
+    const abort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    signal.addEventListener('abort', abort, { once: true });
+  });
+}
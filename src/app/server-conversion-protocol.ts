@@ -0,0 +1,45 @@
+import { AudioOutputFormatId, ConvertOptions } from './conversion-engine';
+import { ConversionErrorCode, ConversionErrorDiagnostics } from './conversion-errors';
+
+/** Shared between the Express conversion API (`src/server/conversion-api.ts`) and the page. */
+export const SERVER_CONVERSION_PATH = '/api/convert';
+
+/** URI-encoded name of the uploaded file; the request body is the raw file. */
+export const FILE_NAME_HEADER = 'X-File-Name';
+/** URI-encoded JSON of `ServerConvertOptions`. */
+export const CONVERT_OPTIONS_HEADER = 'X-Conversion-Options';
+
+/**
+ * The subset of `ConvertOptions` that travels in a request header. Cover images are left out: they
+ * would not fit in a header, so the server keeps (or drops) the source's own cover instead.
+ */
+export type ServerConvertOptions = Pick<
+  ConvertOptions,
+  'trim' | 'encoder' | 'audioTrack' | 'processing' | 'tags' | 'keepSourceTags'
+>;
+
+/** Answer to `GET /api/convert/formats`. */
+export interface ServerCapabilities {
+  formats: AudioOutputFormatId[];
+  /** Source codecs the server can decode, as Mediabunny names them. */
+  inputCodecs: string[];
+  maxUploadBytes: number;
+}
+
+export type ServerJobState = 'queued' | 'converting' | 'done' | 'failed';
+
+/** Answer to `POST /api/convert` and `GET /api/convert/:id`. */
+export interface ServerJobStatus {
+  id: string;
+  state: ServerJobState;
+  progress: number;
+  /** Every log line so far; clients print the ones they have not seen yet. */
+  log: string[];
+  fileName?: string;
+  mimeType?: string;
+  size?: number;
+  error?: string;
+  /** Set when the failure was a `ConversionError`, so the page can rebuild it. */
+  errorCode?: ConversionErrorCode;
+  diagnostics?: ConversionErrorDiagnostics;
+}
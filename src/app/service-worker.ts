@@ -0,0 +1,17 @@
+import { isDevMode } from '@angular/core';
+
+/**
+ * Registers `public/sw.js`, which makes the app installable and usable offline. Skipped in development
+ * so `ng serve` never answers with stale bundles.
+ */
+export async function registerServiceWorker(): Promise<void> {
+  if (isDevMode() || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+    return;
+  }
+  try {
+    // The worker caches every bundle of the build at install, including the ones this visit never loads.
+    await navigator.serviceWorker.register('/sw.js');
+  } catch (error) {
+    console.warn('[PWA] Service worker registration failed; the app will need the network to load.', error);
+  }
+}
@@ -0,0 +1,150 @@
+import { AudioOutputFormatId } from './conversion-engine';
+
+export interface FaqItem {
+  question: string;
+  answer: string;
+}
+
+/** Copy and metadata of a routed page; every field ends up in the prerendered HTML. */
+export interface SitePage {
+  title: string;
+  /** Meta description, also the page's lead paragraph. */
+  description: string;
+  heading: string;
+  faqs: FaqItem[];
+}
+
+/** A `/convert/:conversion` landing page: the converter with its output format chosen in advance. */
+export interface ConversionPage extends SitePage {
+  slug: string;
+  /** Container people usually arrive with, e.g. "MP4"; only used in copy. */
+  source: string;
+  formatId: AudioOutputFormatId;
+}
+
+const SITE_NAME = 'Web Audio Extractor';
+
+export const GENERAL_FAQS: FaqItem[] = [
+  {
+    question: 'Does it leave any trace?',
+    answer:
+      'Media is read from disk in small chunks solely for the duration of the conversion and never sent to a server. Close the tab and the buffers are gone.'
+  },
+  {
+    question: 'Why do I need the full download?',
+    answer:
+      'Mediabunny inspects raw bytes to understand codecs and stream layouts. Streaming URLs or embedded players won’t work—grab the actual file instead. Where the site runs its download proxy, a direct link to the file can be pasted instead of downloading it first.'
+  },
+  {
+    question: 'What about giant files?',
+    answer:
+      'Source files are streamed, so size is no longer capped by memory. Outputs are another matter: unless they are saved straight to disk, they are kept in the tab’s memory until you download them, so multi-gigabyte results may fail. In Chromium browsers, tick "Save straight to disk" so the audio is written to a file as it is encoded; elsewhere, trim the source or pick a compressed format.'
+  }
+];
+
+export const HOME_PAGE: SitePage = {
+  title: `${SITE_NAME} — convert video to audio in your browser`,
+  description:
+    'Extract MP3, WAV, AAC, FLAC or Opus audio from MP4, MOV, MKV and WebM videos. Everything runs locally in your browser; nothing is uploaded.',
+  heading: 'Convert your video into studio-ready audio',
+  faqs: GENERAL_FAQS
+};
+
+export const HISTORY_PAGE: SitePage = {
+  title: `Conversion history — ${SITE_NAME}`,
+  description: 'Download, re-run or delete your recent conversions. The history is kept in this browser only.',
+  heading: 'Conversion history',
+  faqs: [
+    {
+      question: 'Where is the history stored?',
+      answer:
+        'In this browser’s IndexedDB. Nothing is synced or uploaded, so another browser or a private window starts with an empty history.'
+    },
+    {
+      question: 'Why can some entries not be downloaded?',
+      answer:
+        'Converted files are only kept while they fit in the storage limit you set; the oldest ones are dropped first. Re-run the entry with the same source file to get it back.'
+    }
+  ]
+};
+
+export const SETTINGS_PAGE: SitePage = {
+  title: `Settings — ${SITE_NAME}`,
+  description: 'Choose the default output format and manage, import or export your conversion presets.',
+  heading: 'Settings',
+  faqs: [
+    {
+      question: 'Can I share my presets with colleagues?',
+      answer: 'Yes. Export them as a JSON file and let your colleagues import it here; presets with the same name are replaced.'
+    },
+    {
+      question: 'Why is a format greyed out?',
+      answer:
+        'Encoding runs on your browser’s own WebCodecs encoders, and not every browser ships every codec. Formats your browser cannot encode are disabled.'
+    }
+  ]
+};
+
+export const CONVERSION_PAGES: ConversionPage[] = [
+  conversionPage('mp4', 'MP4', 'mp3', 'MP3', [
+    {
+      question: 'Which bitrate should I pick for MP3?',
+      answer: '128 kbps is plenty for speech and podcasts; choose 192 or 320 kbps for music you want to keep.'
+    },
+    {
+      question: 'Does the MP3 keep the video’s title and cover?',
+      answer: 'Yes. Title, artist and cover art found in the MP4 are written as ID3v2 tags, and you can edit them before converting.'
+    }
+  ]),
+  conversionPage('mp4', 'MP4', 'wav', 'WAV', [
+    {
+      question: 'Why choose WAV over MP3?',
+      answer: 'WAV is uncompressed, so nothing is lost for editing in a DAW or transcription tool. The file is roughly ten times larger.'
+    }
+  ]),
+  conversionPage('mov', 'MOV', 'm4a', 'M4A', [
+    {
+      question: 'Will the M4A play on my iPhone?',
+      answer: 'Yes. M4A is AAC audio in an MP4 container, the format Apple Music, Safari and iOS play natively.'
+    }
+  ]),
+  conversionPage('mkv', 'MKV', 'flac', 'FLAC', [
+    {
+      question: 'Is FLAC really lossless?',
+      answer:
+        'FLAC compresses without discarding anything, so decoding it gives back the exact samples. If the MKV’s audio is lossy already, FLAC preserves it as it is but cannot restore what was lost.'
+    },
+    {
+      question: 'My MKV has several audio tracks. Which one is used?',
+      answer: 'The default track, unless you pick another one. You can also convert every track to a separate FLAC file at once.'
+    }
+  ]),
+  conversionPage('webm', 'WebM', 'ogg', 'Opus', [
+    {
+      question: 'Is the Opus audio re-encoded?',
+      answer: 'Yes, it is decoded and encoded again into an Ogg file, so you can trim, normalize or change the bitrate on the way.'
+    }
+  ])
+];
+
+export function findConversionPage(slug: string | null | undefined): ConversionPage | null {
+  return CONVERSION_PAGES.find((page) => page.slug === slug) ?? null;
+}
+
+function conversionPage(
+  sourceSlug: string,
+  source: string,
+  formatId: AudioOutputFormatId,
+  target: string,
+  faqs: FaqItem[]
+): ConversionPage {
+  return {
+    slug: `${sourceSlug}-to-${formatId}`,
+    source,
+    formatId,
+    title: `Convert ${source} to ${target} online, privately — ${SITE_NAME}`,
+    description: `Extract ${target} audio from ${source} files right in your browser. No upload, no sign-up, no file size limit.`,
+    heading: `${source} to ${target}`,
+    faqs: [...faqs, ...GENERAL_FAQS]
+  };
+}
@@ -0,0 +1,25 @@
+/** Formats seconds as `HH:MM:SS`, adding tenths when `precise` is set. */
+export function formatTimecode(totalSeconds: number, precise = false): string {
+  const safe = Number.isFinite(totalSeconds) ? Math.max(totalSeconds, 0) : 0;
+  const hours = Math.floor(safe / 3600);
+  const minutes = Math.floor((safe % 3600) / 60);
+  const seconds = safe % 60;
+  const wholeSeconds = precise ? Math.floor(seconds * 10) / 10 : Math.floor(seconds);
+  const secondsText = precise
+    ? wholeSeconds.toFixed(1).padStart(4, '0')
+    : String(wholeSeconds).padStart(2, '0');
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${secondsText}`;
+}
+
+/**
+ * Parses `SS`, `MM:SS` or `HH:MM:SS` (seconds may carry decimals) into seconds.
+ * Returns null when the text is not a valid timecode.
+ */
+export function parseTimecode(text: string): number | null {
+  const parts = text.trim().split(':');
+  if (!parts.length || parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) {
+    return null;
+  }
+
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+}
@@ -0,0 +1,101 @@
+import { createZip } from './zip-archive';
+
+interface ReadEntry {
+  name: string;
+  crc: number;
+  text: string;
+}
+
+/** Reads the archive back the way an unzip tool does: end record, then central directory, then local headers. */
+async function readZip(zip: Blob): Promise<ReadEntry[]> {
+  const bytes = new Uint8Array(await zip.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  expect(position + view.getUint32(end + 12, true)).toBe(end);
+
+  const entries: ReadEntry[] = [];
+  for (let index = 0; index < count; index++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(position + 28, true);
+    const size = view.getUint32(position + 24, true);
+    const local = view.getUint32(position + 42, true);
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    const dataStart = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    entries.push({
+      name: decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength)),
+      crc: view.getUint32(position + 16, true),
+      text: decoder.decode(bytes.subarray(dataStart, dataStart + size))
+    });
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('createZip', () => {
+  it('stores every entry so it can be read back', async () => {
+    const zip = await createZip([
+      { name: 'part-1.txt', blob: new Blob(['hello']) },
+      { name: 'part-2.txt', blob: new Blob(['second part']) }
+    ]);
+
+    const entries = await readZip(zip);
+
+    expect(zip.type).toBe('application/zip');
+    expect(entries.map(({ name, text }) => ({ name, text }))).toEqual([
+      { name: 'part-1.txt', text: 'hello' },
+      { name: 'part-2.txt', text: 'second part' }
+    ]);
+  });
+
+  it('writes the CRC-32 of each entry', async () => {
+    const [entry] = await readZip(await createZip([{ name: 'hello.txt', blob: new Blob(['hello']) }]));
+
+    expect(entry.crc).toBe(0x3610a686);
+  });
+
+  it('keeps non-ASCII names as UTF-8', async () => {
+    const [entry] = await readZip(await createZip([{ name: 'Café – Teil 1.mp3', blob: new Blob([]) }]));
+
+    expect(entry.name).toBe('Café – Teil 1.mp3');
+  });
+
+  it('numbers repeated names so no entry overwrites another', async () => {
+    const entries = await readZip(
+      await createZip([
+        { name: 'part.mp3', blob: new Blob(['1']) },
+        { name: 'Part.mp3', blob: new Blob(['2']) },
+        { name: 'part (2).mp3', blob: new Blob(['3']) },
+        { name: 'notes', blob: new Blob(['4']) },
+        { name: 'notes', blob: new Blob(['5']) }
+      ])
+    );
+
+    expect(entries.map(({ name, text }) => ({ name, text }))).toEqual([
+      { name: 'part.mp3', text: '1' },
+      { name: 'Part (3).mp3', text: '2' },
+      { name: 'part (2).mp3', text: '3' },
+      { name: 'notes', text: '4' },
+      { name: 'notes (2)', text: '5' }
+    ]);
+  });
+
+  it('counts the central directory against the 4 GB limit before reading any data', async () => {
+    const name = 'part.mp3';
+    // The entry and its local header fit in 4 GB exactly; its central directory header and the end record do not.
+    const blob = { size: 0xffffffff - 30 - name.length } as Blob;
+
+    await expectAsync(createZip([{ name, blob }])).toBeRejectedWithError(/4 GB limit/);
+  });
+
+  it('writes an empty archive when there is nothing to bundle', async () => {
+    const zip = await createZip([]);
+
+    expect(zip.size).toBe(22);
+    expect(await readZip(zip)).toEqual([]);
+  });
+});
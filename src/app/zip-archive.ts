@@ -0,0 +1,148 @@
+/**
+ * Minimal ZIP writer for bundling converted files. Entries are stored uncompressed: audio is already
+ * compressed, and storing lets the archive be assembled from the existing Blobs without copying them.
+ */
+
+export interface ZipEntry {
+  name: string;
+  blob: Blob;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+/** Version 2.0, the baseline every unzip tool understands. */
+const ZIP_VERSION = 20;
+/** General purpose flag bit 11: names are UTF-8. */
+const UTF8_FLAG = 0x0800;
+const MAX_ZIP_BYTES = 0xffffffff;
+
+let crcTable: Uint32Array | null = null;
+
+/** Repeated names get a numbered suffix, e.g. the second `part.mp3` is stored as `part (2).mp3`. */
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const names = uniqueNames(entries.map((entry) => entry.name)).map((name) => encoder.encode(name));
+  const parts: BlobPart[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  // Offsets and sizes are 32-bit, and the end record points past the entries at the central directory.
+  const archiveSize = entries.reduce(
+    (total, entry, index) => total + 30 + 46 + 2 * names[index].length + entry.blob.size,
+    22
+  );
+  if (archiveSize > MAX_ZIP_BYTES) {
+    throw new Error('The parts are too large to bundle into a ZIP file (4 GB limit). Download them one by one.');
+  }
+
+  for (const [index, entry] of entries.entries()) {
+    const name = names[index];
+    const crc = await crc32(entry.blob);
+    const size = entry.blob.size;
+
+    const local = new DataView(new ArrayBuffer(30 + name.length));
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    local.setUint16(4, ZIP_VERSION, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, 0, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    new Uint8Array(local.buffer).set(name, 30);
+
+    const central = new DataView(new ArrayBuffer(46 + name.length));
+    central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    central.setUint16(4, ZIP_VERSION, true);
+    central.setUint16(6, ZIP_VERSION, true);
+    central.setUint16(8, UTF8_FLAG, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    new Uint8Array(central.buffer).set(name, 46);
+
+    parts.push(local.buffer, entry.blob);
+    centralDirectory.push(new Uint8Array(central.buffer));
+    offset += local.byteLength + size;
+  }
+
+  const directorySize = centralDirectory.reduce((total, header) => total + header.byteLength, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end.buffer], { type: 'application/zip' });
+}
+
+/**
+ * Unzip tools overwrite or skip entries with the same name, and most file systems ignore case, so a name
+ * that repeats an earlier one (in any case) gets the first free ` (n)` suffix before its extension.
+ */
+function uniqueNames(names: string[]): string[] {
+  const key = (name: string) => name.toLowerCase();
+  const original = new Set(names.map(key));
+  const used = new Set<string>();
+  return names.map((name) => {
+    let unique = name;
+    if (used.has(key(name))) {
+      const dot = name.lastIndexOf('.');
+      const hasExtension = dot > name.lastIndexOf('/') + 1;
+      const stem = hasExtension ? name.slice(0, dot) : name;
+      const extension = hasExtension ? name.slice(dot) : '';
+      let copy = 2;
+      do {
+        unique = `${stem} (${copy++})${extension}`;
+      } while (original.has(key(unique)) || used.has(key(unique)));
+    }
+    used.add(key(unique));
+    return unique;
+  });
+}
+
+async function crc32(blob: Blob): Promise<number> {
+  const table = (crcTable ??= buildCrcTable());
+  let crc = 0xffffffff;
+  const reader = blob.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    for (let index = 0; index < value.length; index++) {
+      crc = table[(crc ^ value[index]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function buildCrcTable(): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index++) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+  return table;
+}
+
+function dosDateTime(moment: Date): { time: number; date: number } {
+  return {
+    time: (moment.getHours() << 11) | (moment.getMinutes() << 5) | Math.floor(moment.getSeconds() / 2),
+    date: ((moment.getFullYear() - 1980) << 9) | ((moment.getMonth() + 1) << 5) | moment.getDate()
+  };
+}
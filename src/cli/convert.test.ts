@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { createWavFile } from '../testing/media-fixtures';
+
+/** Runs the bundled CLI from `npm run build:cli`, as `npm run convert` would. */
+const CLI = resolve('dist/cli/convert.mjs');
+
+interface CliRun {
+  code: number;
+  stderr: string;
+}
+
+function runCli(args: string[], cwd: string): Promise<CliRun> {
+  return new Promise((done) => {
+    execFile(process.execPath, [CLI, ...args], { cwd }, (error, _stdout, stderr) => {
+      done({ code: typeof error?.code === 'number' ? error.code : 0, stderr });
+    });
+  });
+}
+
+describe('convert CLI', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'convert-cli-'));
+    const tone = createWavFile({ duration: 1 });
+    await writeFile(join(directory, tone.name), new Uint8Array(await tone.arrayBuffer()));
+  });
+
+  after(() => rm(directory, { recursive: true, force: true }));
+
+  it('converts a WAV file next to the input', async () => {
+    const run = await runCli(['--format', 'mp3', 'tone.wav'], directory);
+
+    assert.equal(run.code, 0, run.stderr);
+    assert.ok((await readdir(directory)).includes('tone.mp3'));
+  });
+
+  it('refuses compressed sources up front with the codec it cannot decode', async () => {
+    // AAC in MP4, the usual audio of a video file, written by the CLI's own encoder.
+    await runCli(['--format', 'm4a', '--out-dir', 'compressed', 'tone.wav'], directory);
+
+    const run = await runCli(['--format', 'wav', '--out-dir', 'out', 'compressed/*.m4a'], directory);
+
+    assert.equal(run.code, 1);
+    assert.match(run.stderr, /Skipping compressed\/tone\.m4a: AAC audio cannot be decoded on Node/);
+    assert.deepEqual(await readdir(join(directory, 'out')), []);
+  });
+});
@@ -0,0 +1,326 @@
+import { mkdir, readdir, realpath, stat } from 'node:fs/promises';
+import { dirname, extname, join, relative, resolve, sep } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  AUDIO_OUTPUT_OPTIONS,
+  AudioOutputFormatId,
+  ConversionEngine,
+  ConversionProgress,
+  EncoderSettings,
+  describeConversionError,
+  isCancellationError
+} from '../app/conversion-engine';
+import { ensureNodeEncoders, openFile, writeBlob } from '../server/node-runtime';
+
+/**
+ * Headless entry point for build scripts: converts files, directories and glob matches with the same
+ * `ConversionEngine` and format specs as the app. Build with `npm run build:cli`, then run e.g.
+ * `npm run convert -- --format mp3 --out-dir audio media/`.
+ */
+
+const USAGE = `Usage: convert [options] <file | directory | glob>...
+
+Options:
+  -f, --format <id>     Output format: ${AUDIO_OUTPUT_OPTIONS.map((option) => option.id).join(', ')} (default: mp3)
+  -b, --bitrate <rate>  Target bitrate, e.g. 192k or 192000
+  -o, --out-dir <dir>   Write outputs here instead of next to each input
+  -v, --verbose         Print the converter's log lines
+  -h, --help            Show this help
+
+Directories are searched recursively for media files. Quote glob patterns so the
+CLI expands them ("*" within a folder, "**" across folders). Node can only decode
+uncompressed PCM audio, such as WAV; other inputs are skipped.`;
+
+/** Extensions picked up when a directory is given; explicit files are converted whatever their name. */
+const MEDIA_EXTENSIONS = new Set([
+  '.mp4', '.m4v', '.m4a', '.mov', '.mkv', '.mka', '.webm', '.wav', '.ogg', '.oga', '.opus', '.flac', '.mp3', '.aac'
+]);
+
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_INTERRUPTED = 130;
+
+class UsageError extends Error {}
+
+interface CliOptions {
+  formatId: AudioOutputFormatId;
+  encoder: EncoderSettings;
+  outDir: string | null;
+  verbose: boolean;
+  inputs: string[];
+}
+
+async function main(argv: string[]): Promise<number> {
+  let options: CliOptions | null;
+  try {
+    options = parseOptions(argv);
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const engine = new ConversionEngine();
+  await ensureNodeEncoders();
+  if (!(await engine.isFormatSupported(options.formatId))) {
+    console.error(`${options.formatId.toUpperCase()} cannot be encoded on this Node installation.`);
+    return EXIT_USAGE;
+  }
+  const settingsProblem = engine.validateEncoderSettings(options.formatId, options.encoder);
+  if (settingsProblem) {
+    console.error(settingsProblem);
+    return EXIT_USAGE;
+  }
+
+  const files = await expandInputs(options.inputs);
+  if (!files.length) {
+    console.error('No media files matched the given inputs.');
+    return EXIT_USAGE;
+  }
+  if (options.outDir) {
+    await mkdir(options.outDir, { recursive: true });
+  }
+
+  // Node has no audio decoders, so compressed sources are reported here instead of failing one by one.
+  const readable: string[] = [];
+  for (const path of files) {
+    const source = await engine.inspectAudioSource(await openFile(path)).catch(() => null);
+    if (source && !source.decodable) {
+      console.error(
+        `Skipping ${relative(process.cwd(), path) || path}: ${source.codec?.toUpperCase() ?? 'its'} audio cannot be ` +
+          'decoded on Node. Only uncompressed PCM audio, such as WAV, can be converted from the command line.'
+      );
+    } else {
+      readable.push(path);
+    }
+  }
+
+  const interrupt = new AbortController();
+  process.once('SIGINT', () => interrupt.abort());
+
+  const usedOutputs = new Set<string>();
+  let failures = files.length - readable.length;
+  for (const [index, path] of readable.entries()) {
+    if (interrupt.signal.aborted) {
+      break;
+    }
+    const label = `[${index + 1}/${readable.length}] ${relative(process.cwd(), path) || path}`;
+    const progress = createProgressPrinter(label);
+    try {
+      const result = await engine.convert(
+        await openFile(path),
+        options.formatId,
+        {
+          onProgress: progress.update,
+          onProgressDetails: progress.details,
+          onLog: options.verbose ? (message) => progress.log(message) : undefined
+        },
+        { encoder: options.encoder, signal: interrupt.signal }
+      );
+
+      const outputPath = await pickOutputPath(
+        join(options.outDir ?? dirname(path), result.fileName),
+        path,
+        usedOutputs
+      );
+      await writeBlob(result.blob, outputPath);
+      progress.done(`→ ${relative(process.cwd(), outputPath) || outputPath}`);
+    } catch (error) {
+      if (isCancellationError(error)) {
+        progress.done('cancelled');
+        break;
+      }
+      failures++;
+      progress.done(`failed: ${describeConversionError(error)}`);
+    }
+  }
+
+  if (interrupt.signal.aborted) {
+    return EXIT_INTERRUPTED;
+  }
+  if (failures) {
+    console.error(`${failures} of ${files.length} file${files.length === 1 ? '' : 's'} could not be converted.`);
+    return EXIT_FAILED;
+  }
+  return 0;
+}
+
+/** Null when help was requested. */
+function parseOptions(argv: string[]): CliOptions | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f', default: 'mp3' },
+      bitrate: { type: 'string', short: 'b' },
+      'out-dir': { type: 'string', short: 'o' },
+      verbose: { type: 'boolean', short: 'v', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+  if (values.help) {
+    return null;
+  }
+
+  const formatId = values.format as AudioOutputFormatId;
+  if (!AUDIO_OUTPUT_OPTIONS.some((option) => option.id === formatId)) {
+    throw new UsageError(`Unknown format "${values.format}".`);
+  }
+  if (!positionals.length) {
+    throw new UsageError('Give at least one file, directory or glob pattern to convert.');
+  }
+
+  const encoder: EncoderSettings = {};
+  if (values.bitrate !== undefined) {
+    encoder.bitrate = parseBitrate(values.bitrate);
+  }
+  return {
+    formatId,
+    encoder,
+    outDir: values['out-dir'] ? resolve(values['out-dir']) : null,
+    verbose: values.verbose ?? false,
+    inputs: positionals
+  };
+}
+
+/** Accepts bits per second (`192000`) or kilobits with a `k` suffix (`192k`); bare numbers below 1000 are kilobits. */
+function parseBitrate(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)(k?)$/i.exec(value.trim());
+  if (!match) {
+    throw new UsageError(`Invalid bitrate "${value}". Use a value like 192k or 192000.`);
+  }
+  const amount = Number(match[1]);
+  return Math.round(match[2] || amount < 1000 ? amount * 1000 : amount);
+}
+
+async function expandInputs(inputs: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const input of inputs) {
+    if (/[*?]/.test(input)) {
+      const matches = await expandGlob(input);
+      if (!matches.length) {
+        console.warn(`No files match "${input}".`);
+      }
+      files.push(...matches);
+      continue;
+    }
+
+    const path = resolve(input);
+    const info = await stat(path).catch(() => null);
+    if (!info) {
+      console.warn(`Skipping "${input}": no such file or directory.`);
+    } else if (info.isDirectory()) {
+      files.push(...(await walk(path)).filter((file) => MEDIA_EXTENSIONS.has(extname(file).toLowerCase())));
+    } else {
+      files.push(path);
+    }
+  }
+  return [...new Set(files)];
+}
+
+/** Walks from the pattern's fixed leading directories and keeps the files whose path matches. */
+async function expandGlob(pattern: string): Promise<string[]> {
+  const segments = resolve(pattern).split(sep);
+  const firstWild = segments.findIndex((segment) => /[*?]/.test(segment));
+  const base = segments.slice(0, firstWild).join(sep) || sep;
+  const matcher = globToRegExp(segments.slice(firstWild).join('/'));
+  const recursive = segments.slice(firstWild).length > 1 || pattern.includes('**');
+
+  const candidates = recursive ? await walk(base) : await listFiles(base);
+  return candidates.filter((file) => matcher.test(relative(base, file).split(sep).join('/')));
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === '*' && pattern[index + 1] === '*') {
+      const slash = pattern[index + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      index += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+async function listFiles(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true }).catch(() => []);
+  return entries.filter((entry) => entry.isFile()).map((entry) => join(directory, entry.name)).sort();
+}
+
+async function walk(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await walk(path)));
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/** Never overwrites the input, and numbers outputs that would collide with one written earlier in the run. */
+async function pickOutputPath(wanted: string, inputPath: string, used: Set<string>): Promise<string> {
+  const input = await realpath(inputPath);
+  const extension = extname(wanted);
+  const stem = wanted.slice(0, wanted.length - extension.length);
+  let candidate = wanted;
+  for (let suffix = 2; used.has(candidate) || candidate === input; suffix++) {
+    candidate = `${stem}_${suffix}${extension}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+/** Rewrites a single progress line on terminals; elsewhere only the outcome of each file is printed. */
+function createProgressPrinter(label: string) {
+  const interactive = Boolean(process.stderr.isTTY);
+  let percent = -1;
+  let estimate = '';
+  const write = () => process.stderr.write(`\r${label} ${String(percent).padStart(3)}%${estimate}\x1b[K`);
+  return {
+    update(ratio: number) {
+      const next = Math.floor(Math.min(Math.max(ratio, 0), 1) * 100);
+      if (interactive && next !== percent) {
+        percent = next;
+        write();
+      }
+    },
+    details(progress: ConversionProgress) {
+      if (progress.speed === null || progress.eta === null) {
+        return;
+      }
+      estimate = `  ${progress.speed.toFixed(1)}x, ${Math.ceil(progress.eta)}s left`;
+      if (interactive && percent >= 0) {
+        write();
+      }
+    },
+    log(message: string) {
+      process.stderr.write(`${interactive && percent >= 0 ? '\n' : ''}  ${message}\n`);
+      percent = -1;
+    },
+    done(outcome: string) {
+      process.stderr.write(`${interactive ? '\r\x1b[K' : ''}${label} ${outcome}\n`);
+    }
+  };
+}
+
+main(process.argv.slice(2)).then(
+  (code) => (process.exitCode = code),
+  (error: unknown) => {
+    console.error(error);
+    process.exitCode = EXIT_FAILED;
+  }
+);
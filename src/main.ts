@@ -1,6 +1,8 @@
 import { bootstrapApplication } from '@angular/platform-browser';
 import { appConfig } from './app/app.config';
 import { AppComponent } from './app/app.component';
+import { registerServiceWorker } from './app/service-worker';
 
 bootstrapApplication(AppComponent, appConfig)
+  .then(() => registerServiceWorker())
   .catch((err) => console.error(err));
@@ -7,6 +7,10 @@ import {
 import express from 'express';
 import { dirname, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { REMOTE_MEDIA_PATH } from './app/remote-media-protocol';
+import { SERVER_CONVERSION_PATH } from './app/server-conversion-protocol';
+import { createConversionApi } from './server/conversion-api';
+import { createRemoteMediaProxy } from './server/remote-media-proxy';
 
 const serverDistFolder = dirname(fileURLToPath(import.meta.url));
 const browserDistFolder = resolve(serverDistFolder, '../browser');
@@ -15,16 +19,37 @@ const app = express();
 const angularApp = new AngularNodeAppEngine();
 
 /**
- * Example Express Rest API endpoints can be defined here.
- * Uncomment and define endpoints as necessary.
- *
- * Example:
- * ```ts
- * app.get('/api/**', (req, res) => {
- *   // Handle API request
- * });
- * ```
+ * Server-side conversion for browsers that cannot encode the chosen format themselves. Off unless
+ * `SERVER_CONVERSION=true`; `SERVER_CONVERSION_MAX_MB` caps the upload size (512 MB by default).
  */
+if (process.env['SERVER_CONVERSION'] === 'true') {
+  const maxMegabytes = Number(process.env['SERVER_CONVERSION_MAX_MB']);
+  app.use(
+    SERVER_CONVERSION_PATH,
+    createConversionApi(maxMegabytes > 0 ? { maxUploadBytes: maxMegabytes * 1024 * 1024 } : {}),
+  );
+}
+
+/**
+ * Fetches direct media links for the page, which cannot read other origins itself. Off unless
+ * `REMOTE_MEDIA_HOSTS` lists the hosts it may fetch from (comma-separated, `*.example.com` for
+ * subdomains, `host:port` for a non-default port); `REMOTE_MEDIA_MAX_MB` caps the file size (2048 MB by
+ * default).
+ */
+const remoteMediaHosts = (process.env['REMOTE_MEDIA_HOSTS'] ?? '')
+  .split(',')
+  .map((host) => host.trim())
+  .filter(Boolean);
+if (remoteMediaHosts.length) {
+  const maxMegabytes = Number(process.env['REMOTE_MEDIA_MAX_MB']);
+  app.use(
+    REMOTE_MEDIA_PATH,
+    createRemoteMediaProxy({
+      allowedHosts: remoteMediaHosts,
+      ...(maxMegabytes > 0 ? { maxBytes: maxMegabytes * 1024 * 1024 } : {}),
+    }),
+  );
+}
 
 /**
  * Serve static files from /browser
@@ -0,0 +1,328 @@
+import express, { Router } from 'express';
+import { randomUUID } from 'node:crypto';
+import { createWriteStream } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import {
+  AUDIO_OUTPUT_OPTIONS,
+  AudioOutputFormatId,
+  ConversionEngine,
+  ConversionError,
+  describeConversionError,
+  toConversionError
+} from '../app/conversion-engine';
+import {
+  CONVERT_OPTIONS_HEADER,
+  FILE_NAME_HEADER,
+  ServerCapabilities,
+  ServerConvertOptions,
+  ServerJobStatus
+} from '../app/server-conversion-protocol';
+import { HttpError, jsonErrorHandler } from './http-errors';
+import { NODE_INPUT_CODECS, createOutputHandle, ensureNodeEncoders, openFile } from './node-runtime';
+
+/**
+ * Opt-in `/api/convert` endpoint for browsers without the WebCodecs encoder a format needs. It runs
+ * the same `ConversionEngine` and format specs as the page, so the server can only produce formats
+ * its own Mediabunny setup can encode and read sources it can decode: every format but the Opus ones,
+ * from uncompressed PCM sources only (see `NODE_INPUT_CODECS`). Outputs stream straight to disk.
+ */
+
+export interface ConversionApiOptions {
+  /** Uploads larger than this are refused with 413. */
+  maxUploadBytes: number;
+  /** Conversions running at once; the rest wait in line. */
+  maxActiveJobs: number;
+  /** Jobs kept (queued, running or waiting to be downloaded) before new uploads get 503. */
+  maxStoredJobs: number;
+  /** How long a finished job and its files are kept for download. */
+  jobTtlMs: number;
+}
+
+const DEFAULT_OPTIONS: ConversionApiOptions = {
+  maxUploadBytes: 512 * 1024 * 1024,
+  maxActiveJobs: 1,
+  maxStoredJobs: 20,
+  jobTtlMs: 30 * 60 * 1000
+};
+
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+const MAX_LOG_LINES = 200;
+
+interface ServerJob {
+  status: ServerJobStatus;
+  directory: string;
+  inputPath: string;
+  inputName: string;
+  inputType: string;
+  formatId: AudioOutputFormatId;
+  options: ServerConvertOptions;
+  outputPath?: string;
+  /** Set once the job settles; the sweep removes it after this time. */
+  expiresAt?: number;
+  cancelled: boolean;
+}
+
+export function createConversionApi(overrides: Partial<ConversionApiOptions> = {}): Router {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const engine = new ConversionEngine();
+  const jobs = new Map<string, ServerJob>();
+  const waiting: string[] = [];
+  let active = 0;
+
+  const supportedFormats = async (): Promise<AudioOutputFormatId[]> => {
+    await ensureNodeEncoders();
+    const formats: AudioOutputFormatId[] = [];
+    for (const option of AUDIO_OUTPUT_OPTIONS) {
+      if (await engine.isFormatSupported(option.id)) {
+        formats.push(option.id);
+      }
+    }
+    return formats;
+  };
+
+  const log = (job: ServerJob, message: string) => {
+    job.status.log.push(message);
+    if (job.status.log.length > MAX_LOG_LINES) {
+      job.status.log.splice(0, job.status.log.length - MAX_LOG_LINES);
+    }
+  };
+
+  const removeJob = async (id: string) => {
+    const job = jobs.get(id);
+    if (!job) {
+      return;
+    }
+    jobs.delete(id);
+    const position = waiting.indexOf(id);
+    if (position >= 0) {
+      waiting.splice(position, 1);
+    }
+    await rm(job.directory, { recursive: true, force: true }).catch(() => undefined);
+  };
+
+  const settle = (job: ServerJob, update: Partial<ServerJobStatus>) => {
+    Object.assign(job.status, update);
+    job.expiresAt = Date.now() + options.jobTtlMs;
+  };
+
+  const run = async (job: ServerJob) => {
+    job.status.state = 'converting';
+    try {
+      const file = await openFile(job.inputPath, job.inputName, job.inputType);
+      const source = await engine.inspectAudioSource(file, job.options.audioTrack);
+      if (source && !source.decodable) {
+        throw new ConversionError(
+          'undecodable-codec',
+          `The conversion server cannot decode ${source.codec?.toUpperCase() ?? 'this'} audio; ` +
+            'it only reads uncompressed PCM audio, such as WAV.',
+          { fileName: job.inputName, codec: source.codec ?? undefined }
+        );
+      }
+
+      const outputPath = join(job.directory, 'output');
+      const result = await engine.convert(
+        file,
+        job.formatId,
+        {
+          onProgress: (ratio) => (job.status.progress = ratio),
+          onLog: (message) => log(job, message)
+        },
+        {
+          ...job.options,
+          jobId: job.status.id,
+          saveHandle: createOutputHandle(outputPath, engine.suggestOutputName(job.inputName, job.formatId))
+        }
+      );
+      await rm(job.inputPath, { force: true });
+      job.outputPath = outputPath;
+      settle(job, {
+        state: 'done',
+        progress: 1,
+        fileName: result.fileName,
+        mimeType: result.mimeType,
+        size: result.blob.size
+      });
+    } catch (error) {
+      const failure = toConversionError(error);
+      settle(job, {
+        state: 'failed',
+        error: describeConversionError(failure),
+        ...(failure instanceof ConversionError ? { errorCode: failure.code, diagnostics: failure.diagnostics } : {})
+      });
+    }
+  };
+
+  const pump = () => {
+    while (active < options.maxActiveJobs && waiting.length) {
+      const job = jobs.get(waiting.shift()!);
+      if (!job) {
+        continue;
+      }
+      active++;
+      void run(job).finally(() => {
+        active--;
+        if (job.cancelled) {
+          void removeJob(job.status.id);
+        }
+        pump();
+      });
+    }
+  };
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [id, job] of jobs) {
+      if (job.expiresAt !== undefined && job.expiresAt <= now) {
+        void removeJob(id);
+      }
+    }
+  }, CLEANUP_INTERVAL_MS);
+  sweep.unref();
+
+  const router = express.Router();
+
+  router.get('/formats', async (_req, res, next) => {
+    try {
+      const capabilities: ServerCapabilities = {
+        formats: await supportedFormats(),
+        inputCodecs: NODE_INPUT_CODECS,
+        maxUploadBytes: options.maxUploadBytes
+      };
+      res.json(capabilities);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post('/', async (req, res, next) => {
+    let directory: string | null = null;
+    try {
+      const formatId = String(req.query['format'] ?? '') as AudioOutputFormatId;
+      if (!AUDIO_OUTPUT_OPTIONS.some((option) => option.id === formatId)) {
+        throw new HttpError(400, `Unsupported output format: ${formatId || '(none)'}`);
+      }
+      if (!(await supportedFormats()).includes(formatId)) {
+        throw new HttpError(422, `The server cannot encode ${formatId.toUpperCase()} either.`);
+      }
+      if (jobs.size >= options.maxStoredJobs) {
+        throw new HttpError(503, 'The server is busy with other conversions. Try again in a few minutes.');
+      }
+      const declaredSize = Number(req.headers['content-length']);
+      if (declaredSize > options.maxUploadBytes) {
+        throw new HttpError(413, tooLargeMessage(options.maxUploadBytes));
+      }
+
+      const convertOptions = parseOptions(req.get(CONVERT_OPTIONS_HEADER));
+      const inputName = decodeHeader(req.get(FILE_NAME_HEADER)) || 'upload';
+      const inputType = req.get('content-type') ?? 'application/octet-stream';
+
+      directory = await mkdtemp(join(tmpdir(), 'audio-conventor-'));
+      const inputPath = join(directory, 'input');
+      await pipeline(req, limitSize(options.maxUploadBytes), createWriteStream(inputPath));
+
+      const id = randomUUID();
+      const job: ServerJob = {
+        status: { id, state: 'queued', progress: 0, log: [`Received "${inputName}".`] },
+        directory,
+        inputPath,
+        inputName,
+        inputType,
+        formatId,
+        options: convertOptions,
+        cancelled: false
+      };
+      jobs.set(id, job);
+      waiting.push(id);
+      pump();
+      res.status(202).json(job.status);
+    } catch (error) {
+      if (directory) {
+        await rm(directory, { recursive: true, force: true }).catch(() => undefined);
+      }
+      next(error);
+    }
+  });
+
+  router.get('/:id', (req, res, next) => {
+    const job = jobs.get(req.params['id']);
+    if (!job) {
+      next(new HttpError(404, 'This conversion does not exist or has expired.'));
+      return;
+    }
+    res.json(job.status);
+  });
+
+  router.get('/:id/download', (req, res, next) => {
+    const job = jobs.get(req.params['id']);
+    if (!job?.outputPath) {
+      next(new HttpError(404, 'This conversion is not finished, does not exist or has expired.'));
+      return;
+    }
+    res.type(job.status.mimeType ?? 'application/octet-stream');
+    res.download(job.outputPath, job.status.fileName ?? 'converted', (error) => {
+      if (error && !res.headersSent) {
+        next(error);
+      }
+    });
+  });
+
+  router.delete('/:id', (req, res) => {
+    const id = req.params['id'];
+    const job = jobs.get(id);
+    if (job?.status.state === 'converting') {
+      // The running conversion cleans up after itself once the engine has stopped.
+      job.cancelled = true;
+      engine.cancelConversion(id);
+    } else if (job) {
+      void removeJob(id);
+    }
+    res.status(204).end();
+  });
+
+  router.use(jsonErrorHandler('Server conversion failed.'));
+
+  return router;
+}
+
+function parseOptions(header: string | undefined): ServerConvertOptions {
+  if (!header) {
+    return {};
+  }
+  try {
+    const value: unknown = JSON.parse(decodeHeader(header));
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error();
+    }
+    const { trim, encoder, audioTrack, processing, tags, keepSourceTags } = value as ServerConvertOptions;
+    return { trim, encoder, audioTrack, processing, tags: tags && { ...tags, cover: undefined }, keepSourceTags };
+  } catch {
+    throw new HttpError(400, `The ${CONVERT_OPTIONS_HEADER} header is not valid JSON.`);
+  }
+}
+
+function decodeHeader(value: string | undefined): string {
+  try {
+    return value ? decodeURIComponent(value) : '';
+  } catch {
+    return '';
+  }
+}
+
+/** Counts the upload as it streams in; `Content-Length` alone can be missing or wrong. */
+function limitSize(maxBytes: number): Transform {
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      callback(received > maxBytes ? new HttpError(413, tooLargeMessage(maxBytes)) : null, chunk);
+    }
+  });
+}
+
+function tooLargeMessage(maxBytes: number): string {
+  return `The file is larger than the server accepts (${Math.floor(maxBytes / (1024 * 1024))} MB).`;
+}
@@ -0,0 +1,23 @@
+import { NextFunction, Request, Response } from 'express';
+
+/** Thrown by the API routers to answer with a specific status and a readable message. */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/** Last handler of an API router: errors become `{ error }` JSON, the shape the page's clients read. */
+export function jsonErrorHandler(fallbackMessage: string) {
+  return (error: unknown, _req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) {
+      next(error);
+      return;
+    }
+    const status = error instanceof HttpError ? error.status : 500;
+    res.status(status).json({ error: error instanceof Error ? error.message : fallbackMessage });
+  };
+}
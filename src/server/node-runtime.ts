@@ -0,0 +1,95 @@
+import { AudioCodec, PCM_AUDIO_CODECS, canEncodeAudio } from 'mediabunny';
+import { createWriteStream, openAsBlob } from 'node:fs';
+import { open, rm } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { OutputFileHandle } from '../app/conversion-engine';
+
+/**
+ * What the browser gets for free and Node needs help with, shared by the conversion API and the CLI
+ * so both feed `ConversionEngine` the same way.
+ */
+
+/** Node has no WebCodecs, so every lossy or compressed codec comes from a Mediabunny encoder extension. */
+const ENCODER_EXTENSIONS: [AudioCodec, () => Promise<void>][] = [
+  ['mp3', async () => (await import('@mediabunny/mp3-encoder')).registerMp3Encoder()],
+  ['aac', async () => (await import('@mediabunny/aac-encoder')).registerAacEncoder()],
+  ['flac', async () => (await import('@mediabunny/flac-encoder')).registerFlacEncoder()]
+];
+
+/**
+ * Source codecs Node can decode. Mediabunny decodes linear PCM itself; everything else, including
+ * A-law and µ-law, needs WebCodecs or a decoder extension, and Node has neither.
+ */
+export const NODE_INPUT_CODECS: AudioCodec[] = PCM_AUDIO_CODECS.filter((codec) => codec.startsWith('pcm-'));
+
+let encodersReady: Promise<void> | null = null;
+
+/** A `File` backed by the file on disk, so the engine's `BlobSource` reads only what it needs. */
+export async function openFile(path: string, name = basename(path), type = ''): Promise<File> {
+  return new File([await openAsBlob(path, { type })], name, { type });
+}
+
+export async function writeBlob(blob: Blob, path: string): Promise<void> {
+  await pipeline(Readable.from(blobChunks(blob)), createWriteStream(path));
+}
+
+/** Lets the engine stream its output into `path` as it is encoded, instead of holding it in memory. */
+export function createOutputHandle(path: string, name: string): OutputFileHandle {
+  return {
+    name,
+    getFile: () => openFile(path, name),
+    createWritable: async () => {
+      const handle = await open(path, 'w');
+      let end = 0;
+      const write = async (data: Uint8Array, position: number) => {
+        await handle.write(data, 0, data.byteLength, position);
+        end = Math.max(end, position + data.byteLength);
+      };
+      return {
+        write: async (data) => {
+          if (data instanceof Blob) {
+            for await (const chunk of blobChunks(data)) {
+              await write(chunk, end);
+            }
+          } else {
+            await write(data.data, data.position);
+          }
+        },
+        close: () => handle.close(),
+        abort: async () => {
+          await handle.close();
+          await rm(path, { force: true });
+        }
+      };
+    }
+  };
+}
+
+/** Registers the MP3, AAC and FLAC encoders; Opus has no Node encoder, so OGG and WebM stay browser-only. */
+export function ensureNodeEncoders(): Promise<void> {
+  encodersReady ??= (async () => {
+    for (const [codec, register] of ENCODER_EXTENSIONS) {
+      try {
+        if (!(await canEncodeAudio(codec))) {
+          await register();
+        }
+      } catch (error) {
+        console.warn(`[Mediabunny] Unable to register the ${codec.toUpperCase()} encoder on Node.`, error);
+      }
+    }
+  })();
+  return encodersReady;
+}
+
+async function* blobChunks(blob: Blob): AsyncGenerator<Uint8Array> {
+  const reader = blob.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return;
+    }
+    yield value;
+  }
+}
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import express from 'express';
+import { createRemoteMediaProxy } from './remote-media-proxy';
+
+/** Literal addresses, so the block list is checked without any DNS lookup. */
+const BLOCKED = [
+  '0.0.0.0',
+  '10.1.2.3',
+  '100.64.0.1',
+  '127.0.0.1',
+  '169.254.169.254',
+  '172.16.0.1',
+  '192.0.0.8',
+  '192.168.1.1',
+  '198.18.0.1',
+  '224.0.0.1',
+  '240.0.0.1',
+  '[::]',
+  '[::1]',
+  '[::ffff:7f00:1]',
+  '[fd00::1]',
+  '[fe80::1]',
+  '[ff02::1]',
+  '[64:ff9b::a00:1]',
+  '[2002:c0a8:101::1]'
+];
+/** TEST-NET-1 (RFC 5737): public as far as the block list goes, and never answers. */
+const PUBLIC = '192.0.2.1';
+
+describe('remote media proxy', () => {
+  let server: Server;
+  let base: string;
+
+  before(async () => {
+    const app = express();
+    app.use(
+      '/api/remote-media',
+      createRemoteMediaProxy({ allowedHosts: [...BLOCKED, PUBLIC, 'localhost'], timeoutMs: 200 })
+    );
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/remote-media`;
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  function proxy(url: string): Promise<Response> {
+    return fetch(`${base}?url=${encodeURIComponent(url)}`);
+  }
+
+  for (const host of BLOCKED) {
+    it(`refuses ${host}`, async () => {
+      const response = await proxy(`http://${host}/talk.mp4`);
+
+      assert.equal(response.status, 403);
+      assert.match((await response.json()).error, /local or private network address/);
+    });
+  }
+
+  it('refuses host names that resolve to a private address', async () => {
+    assert.equal((await proxy('http://localhost/talk.mp4')).status, 403);
+  });
+
+  it('lets public addresses through to the fetch', async () => {
+    const response = await proxy(`http://${PUBLIC}/talk.mp4`);
+
+    assert.notEqual(response.status, 403);
+  });
+
+  it('refuses hosts that are not on the allow-list before resolving them', async () => {
+    const response = await proxy('http://internal.example/talk.mp4');
+
+    assert.equal(response.status, 400);
+    assert.match((await response.json()).error, /not on this server's list of allowed hosts/);
+  });
+});
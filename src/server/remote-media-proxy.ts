@@ -0,0 +1,263 @@
+import express, { Router } from 'express';
+import { LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { BlockList, LookupFunction, isIP } from 'node:net';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { Agent, Response, fetch } from 'undici';
+import { REMOTE_FILE_NAME_HEADER, RemoteMediaCapabilities, checkRemoteUrl } from '../app/remote-media-protocol';
+import { HttpError, jsonErrorHandler } from './http-errors';
+
+/**
+ * Opt-in `/api/remote-media` route that downloads a media file from an allowed host and streams it to
+ * the page, which cannot read cross-origin files itself. Nothing is stored: the bytes pass straight
+ * through, and `Range` requests are forwarded so clients can resume.
+ */
+
+export interface RemoteMediaProxyOptions {
+  /**
+   * Host names that may be fetched; `*.example.com` also covers its subdomains and `host:port` allows a
+   * non-default port. Redirects are checked too.
+   */
+  allowedHosts: string[];
+  /** Files larger than this are refused with 413, or cut off when the remote server does not say. */
+  maxBytes: number;
+  /** How long the remote server may take to start answering. */
+  timeoutMs: number;
+}
+
+const DEFAULT_OPTIONS: Omit<RemoteMediaProxyOptions, 'allowedHosts'> = {
+  maxBytes: 2 * 1024 * 1024 * 1024,
+  timeoutMs: 30 * 1000
+};
+
+const MAX_REDIRECTS = 5;
+/**
+ * Loopback, private, link-local and other non-public ranges. An allowed host that resolves into one of
+ * them would let a link reach the server's own network, so those answers are refused.
+ */
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  // NAT64 and 6to4 carry an IPv4 address inside, which may be a private one.
+  ['64:ff9b::', 96],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+/** Headers of the remote answer that are passed on as they are. */
+const FORWARDED_HEADERS = ['content-type', 'content-length', 'content-range', 'accept-ranges', 'last-modified', 'etag'];
+
+export function createRemoteMediaProxy(
+  overrides: Partial<RemoteMediaProxyOptions> & Pick<RemoteMediaProxyOptions, 'allowedHosts'>
+): Router {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const router = express.Router();
+
+  router.get('/config', (_req, res) => {
+    const capabilities: RemoteMediaCapabilities = {
+      allowedHosts: options.allowedHosts,
+      maxBytes: options.maxBytes
+    };
+    res.json(capabilities);
+  });
+
+  router.get('/', async (req, res, next) => {
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+    try {
+      const target = checkRemoteUrl(String(req.query['url'] ?? ''), options.allowedHosts);
+      if (typeof target === 'string') {
+        throw new HttpError(400, target);
+      }
+      const range = req.get('range');
+      const upstream = await fetchAllowed(target, {
+        range: range && /^bytes=\d*-\d*$/.test(range) ? range : undefined,
+        allowedHosts: options.allowedHosts,
+        timeoutMs: options.timeoutMs,
+        signal: controller.signal
+      });
+
+      if (upstream.status === 416) {
+        res.status(416).set('Content-Range', upstream.headers.get('content-range') ?? '').end();
+        return;
+      }
+      if (upstream.status !== 200 && upstream.status !== 206) {
+        throw new HttpError(502, `The remote server answered ${upstream.status} ${upstream.statusText}.`.trim());
+      }
+      if (!upstream.body) {
+        throw new HttpError(502, 'The remote server sent an empty answer.');
+      }
+      const size = fullSize(upstream);
+      if (size !== null && size > options.maxBytes) {
+        throw new HttpError(413, tooLargeMessage(options.maxBytes));
+      }
+
+      res.status(upstream.status);
+      for (const name of FORWARDED_HEADERS) {
+        const value = upstream.headers.get(name);
+        if (value) {
+          res.set(name, value);
+        }
+      }
+      // The bytes are served from our own origin; make sure a browser never runs them as a page.
+      res.set({
+        'Content-Disposition': 'attachment',
+        'Content-Security-Policy': "default-src 'none'; sandbox",
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'no-store',
+        [REMOTE_FILE_NAME_HEADER]: encodeURIComponent(remoteFileName(upstream))
+      });
+      await pipeline(
+        Readable.fromWeb(upstream.body),
+        limitSize(options.maxBytes),
+        res
+      );
+    } catch (error) {
+      if (controller.signal.aborted && res.destroyed) {
+        // The page went away or cancelled; there is nobody left to answer.
+        return;
+      }
+      if (res.headersSent) {
+        res.destroy(error instanceof Error ? error : undefined);
+        return;
+      }
+      next(error instanceof HttpError ? error : new HttpError(502, remoteFailureMessage(error)));
+    }
+  });
+
+  router.use(jsonErrorHandler('The remote file could not be fetched.'));
+
+  return router;
+}
+
+/**
+ * Follows redirects by hand so every hop has to be on the allow-list, not just the first one. Each hop
+ * connects only to the addresses that passed the check, so a second DNS answer cannot send it elsewhere.
+ */
+async function fetchAllowed(
+  url: URL,
+  init: { range?: string; allowedHosts: string[]; timeoutMs: number; signal: AbortSignal }
+): Promise<Response> {
+  // Only waiting for the answer is timed; the body may take as long as the file needs.
+  const timeout = new AbortController();
+  const timer = setTimeout(() => timeout.abort(), init.timeoutMs);
+  const signal = AbortSignal.any([init.signal, timeout.signal]);
+  try {
+    let current = url;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const dispatcher = new Agent({ connect: { lookup: pinnedLookup(await assertPublicHost(current)) } });
+      const response = await fetch(current, {
+        headers: init.range ? { Range: init.range } : {},
+        redirect: 'manual',
+        signal,
+        dispatcher
+      })
+        .catch((error: unknown) => {
+          throw timeout.signal.aborted ? new HttpError(504, 'The remote server did not answer in time.') : error;
+        })
+        .finally(() => {
+          // Lets the request under way finish, then drops the connection.
+          void dispatcher.close();
+        });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return response;
+      }
+      await response.body?.cancel();
+      const next = checkRemoteUrl(new URL(location, current).href, init.allowedHosts);
+      if (typeof next === 'string') {
+        throw new HttpError(403, `The link redirects elsewhere: ${next}`);
+      }
+      current = next;
+    }
+    throw new HttpError(508, 'The link redirects too many times.');
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Resolves the link's host and refuses it when any of its addresses is not a public one. */
+async function assertPublicHost(url: URL): Promise<LookupAddress[]> {
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await lookup(host, { all: true }).catch(() => {
+        throw new HttpError(502, `${host} could not be resolved.`);
+      });
+  // `BlockList` also matches IPv4-mapped IPv6 addresses such as `::ffff:127.0.0.1` against the IPv4 ranges.
+  const blocked = addresses.some(({ address, family }) => PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+  if (!addresses.length || blocked) {
+    throw new HttpError(403, `${host} points to a local or private network address, which this server does not fetch.`);
+  }
+  return addresses;
+}
+
+/** Answers every lookup of the connection with the addresses that were already checked. */
+function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  };
+}
+
+/** Size of the whole remote file, from `Content-Range` for partial answers; null when it is not given. */
+function fullSize(response: Response): number | null {
+  const total = /\/(\d+)$/.exec(response.headers.get('content-range') ?? '')?.[1];
+  const value = Number(response.status === 206 ? total : response.headers.get('content-length'));
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+function remoteFileName(response: Response): string {
+  const disposition = response.headers.get('content-disposition') ?? '';
+  const declared = /filename\*=UTF-8''([^;]+)/i.exec(disposition)?.[1] ?? /filename="?([^";]+)"?/i.exec(disposition)?.[1];
+  const fromPath = new URL(response.url).pathname.split('/').filter(Boolean).pop();
+  const name = declared ?? fromPath ?? '';
+  try {
+    return decodeURIComponent(name).replace(/[\\/]/g, '_') || 'remote-media';
+  } catch {
+    return name || 'remote-media';
+  }
+}
+
+function remoteFailureMessage(error: unknown): string {
+  const reason = error instanceof Error && error.cause instanceof Error ? error.cause.message : null;
+  return `The remote file could not be fetched${reason ? ` (${reason})` : ''}.`;
+}
+
+/** Counts the bytes as they pass; `Content-Length` alone can be missing or wrong. */
+function limitSize(maxBytes: number): Transform {
+  let passed = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      passed += chunk.length;
+      callback(passed > maxBytes ? new HttpError(413, tooLargeMessage(maxBytes)) : null, chunk);
+    }
+  });
+}
+
+function tooLargeMessage(maxBytes: number): string {
+  return `The remote file is larger than the server passes on (${Math.floor(maxBytes / (1024 * 1024))} MB).`;
+}
@@ -0,0 +1,207 @@
+import {
+  ALL_FORMATS,
+  AudioSample,
+  AudioSampleSource,
+  BlobSource,
+  BufferTarget,
+  Input,
+  Mp4OutputFormat,
+  Output
+} from 'mediabunny';
+
+/**
+ * Small media files generated on the fly, so specs run offline and without binary fixtures in the
+ * repository. Every generator writes a sine tone; PCM needs no WebCodecs encoder, so the files can be
+ * produced in any browser.
+ */
+
+export interface ToneOptions {
+  name?: string;
+  /** Seconds of audio. */
+  duration?: number;
+  sampleRate?: number;
+  numberOfChannels?: number;
+  frequency?: number;
+}
+
+/** What a spec usually wants to check about a converted file. */
+export interface AudioSummary {
+  codec: string | null;
+  sampleRate: number;
+  numberOfChannels: number;
+  duration: number;
+}
+
+const TONE_DEFAULTS: Required<Omit<ToneOptions, 'name'>> = {
+  duration: 1,
+  sampleRate: 44_100,
+  numberOfChannels: 2,
+  frequency: 440
+};
+const TONE_AMPLITUDE = 0.5;
+/** Samples per FLAC frame, the encoder's usual choice. */
+const FLAC_BLOCK_SIZE = 4096;
+
+/** A 16-bit PCM WAV file, written byte by byte. */
+export function createWavFile(options: ToneOptions = {}): File {
+  const { duration, sampleRate, numberOfChannels, frequency } = { ...TONE_DEFAULTS, ...options };
+  const frames = Math.round(duration * sampleRate);
+  const blockAlign = numberOfChannels * 2;
+  const dataSize = frames * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(view, 8, 'WAVE');
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  writeAscii(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let frame = 0; frame < frames; frame++) {
+    const value = Math.round(toneAt(frame, sampleRate, frequency) * 0x7fff);
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      view.setInt16(44 + frame * blockAlign + channel * 2, value, true);
+    }
+  }
+  return new File([view.buffer], options.name ?? 'tone.wav', { type: 'audio/wav' });
+}
+
+/** An MP4 with a single PCM audio track, muxed with Mediabunny itself. */
+export async function createMp4File(options: ToneOptions = {}): Promise<File> {
+  const { duration, sampleRate, numberOfChannels, frequency } = { ...TONE_DEFAULTS, ...options };
+  const frames = Math.round(duration * sampleRate);
+  const data = new Float32Array(frames * numberOfChannels);
+  for (let frame = 0; frame < frames; frame++) {
+    data.fill(toneAt(frame, sampleRate, frequency), frame * numberOfChannels, (frame + 1) * numberOfChannels);
+  }
+
+  const target = new BufferTarget();
+  const output = new Output({ format: new Mp4OutputFormat(), target });
+  const source = new AudioSampleSource({ codec: 'pcm-s16' });
+  output.addAudioTrack(source);
+  await output.start();
+  const sample = new AudioSample({ data, format: 'f32', numberOfChannels, sampleRate, timestamp: 0 });
+  try {
+    await source.add(sample);
+  } finally {
+    sample.close();
+  }
+  await output.finalize();
+  return new File([target.buffer!], options.name ?? 'tone.mp4', { type: 'video/mp4' });
+}
+
+/**
+ * A native 16-bit FLAC file with verbatim (uncompressed) subframes, written byte by byte so it needs
+ * no FLAC encoder.
+ */
+export function createFlacFile(options: ToneOptions = {}): File {
+  const { duration, sampleRate, numberOfChannels, frequency } = { ...TONE_DEFAULTS, ...options };
+  const frames = Math.round(duration * sampleRate);
+  const streamInfo = new DataView(new ArrayBuffer(4 + 34));
+  streamInfo.setUint8(0, 0x80); // Last metadata block, type STREAMINFO.
+  streamInfo.setUint8(3, 34);
+  streamInfo.setUint16(4, FLAC_BLOCK_SIZE);
+  streamInfo.setUint16(6, FLAC_BLOCK_SIZE);
+  // Sample rate (20 bits), channels - 1 (3 bits), bits per sample - 1 (5 bits), total samples (36 bits).
+  streamInfo.setUint32(14, (sampleRate << 12) | ((numberOfChannels - 1) << 9) | (15 << 4) | Math.floor(frames / 2 ** 32));
+  streamInfo.setUint32(18, frames >>> 0);
+
+  const audioFrames: Uint8Array[] = [];
+  for (let start = 0, index = 0; start < frames; start += FLAC_BLOCK_SIZE, index++) {
+    const length = Math.min(FLAC_BLOCK_SIZE, frames - start);
+    const header = [0xff, 0xf8, 0x70, ((numberOfChannels - 1) << 4) | 0x08, ...utf8Number(index), (length - 1) >> 8, (length - 1) & 0xff];
+    header.push(crc8(header));
+    const frame = new Uint8Array(header.length + numberOfChannels * (1 + length * 2) + 2);
+    frame.set(header);
+    const view = new DataView(frame.buffer);
+    let offset = header.length;
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      frame[offset++] = 0x02; // Verbatim subframe.
+      for (let sample = 0; sample < length; sample++, offset += 2) {
+        view.setInt16(offset, Math.round(toneAt(start + sample, sampleRate, frequency) * 0x7fff));
+      }
+    }
+    view.setUint16(offset, crc16(frame.subarray(0, offset)));
+    audioFrames.push(frame);
+  }
+
+  // Demuxers size their reads by the smallest and largest frame, so those must be given.
+  const frameSizes = audioFrames.map((frame) => frame.length);
+  for (const [offset, size] of [[8, Math.min(...frameSizes)], [11, Math.max(...frameSizes)]]) {
+    streamInfo.setUint16(offset, size >> 8);
+    streamInfo.setUint8(offset + 2, size & 0xff);
+  }
+  return new File([new TextEncoder().encode('fLaC'), streamInfo.buffer, ...audioFrames], options.name ?? 'tone.flac', {
+    type: 'audio/flac'
+  });
+}
+
+/** Bytes no demuxer recognizes, under a name and type that pass as a video. */
+export function createUnreadableFile(name = 'broken.mp4'): File {
+  return new File([new Uint8Array(4096).fill(0x2a)], name, { type: 'video/mp4' });
+}
+
+/** Reads back the primary audio track of a converted file. */
+export async function summarizeAudio(blob: Blob): Promise<AudioSummary> {
+  const input = new Input({ source: new BlobSource(blob), formats: ALL_FORMATS });
+  try {
+    const track = await input.getPrimaryAudioTrack();
+    if (!track) {
+      throw new Error('The file has no audio track.');
+    }
+    return {
+      codec: track.codec,
+      sampleRate: track.sampleRate,
+      numberOfChannels: track.numberOfChannels,
+      duration: await input.computeDuration()
+    };
+  } finally {
+    input.dispose();
+  }
+}
+
+function toneAt(frame: number, sampleRate: number, frequency: number): number {
+  return TONE_AMPLITUDE * Math.sin((2 * Math.PI * frequency * frame) / sampleRate);
+}
+
+/** Frame numbers in FLAC frame headers use the UTF-8 byte pattern; two bytes cover the fixtures' lengths. */
+function utf8Number(value: number): number[] {
+  return value < 0x80 ? [value] : [0xc0 | (value >> 6), 0x80 | (value & 0x3f)];
+}
+
+/** CRC-8 of a FLAC frame header, polynomial 0x07. */
+function crc8(bytes: number[]): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+}
+
+/** CRC-16 of a whole FLAC frame, polynomial 0x8005. */
+function crc16(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+function writeAscii(view: DataView, offset: number, text: string): void {
+  for (let index = 0; index < text.length; index++) {
+    view.setUint8(offset + index, text.charCodeAt(index));
+  }
+}
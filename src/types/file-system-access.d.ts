@@ -0,0 +1,14 @@
+interface SaveFilePickerAcceptType {
+  description?: string;
+  accept: Record<string, string | string[]>;
+}
+
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+  types?: SaveFilePickerAcceptType[];
+  excludeAcceptAllOption?: boolean;
+}
+
+interface Window {
+  showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+}